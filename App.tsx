@@ -4,38 +4,72 @@
 */
 
 
-import React, { useState, useCallback, useRef, useEffect } from 'react';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import ReactCrop, { type Crop, centerCrop, makeAspectCrop } from 'react-image-crop';
-import { generateEditedImage, generateFilteredImage, generateAdjustedImage, generateFaceSwapImage, generateRemovedBgImage } from './services/geminiService';
+import type { EditRegion, ImageEditProvider } from './services/imageEditProvider';
+import { toGenerationError, type GenerationErrorAction } from './services/generationError';
 import Header from './components/Header';
 import Spinner from './components/Spinner';
 import FilterPanel from './components/FilterPanel';
 import AdjustmentPanel from './components/AdjustmentPanel';
 import CropPanel from './components/CropPanel';
 import LayerPanel from './components/LayerPanel';
-import { UndoIcon, RedoIcon, EyeIcon, UploadIcon, MagicWandIcon, PaletteIcon, SunIcon } from './components/icons';
+import { UndoIcon, RedoIcon, EyeIcon, MagicWandIcon, PaletteIcon, SunIcon } from './components/icons';
 import StartScreen from './components/StartScreen';
 import ExportModal from './components/ExportModal';
 import ErrorToast from './components/ErrorToast';
 import SuccessToast from './components/SuccessToast';
 import RemoveBackgroundPanel from './components/RemoveBackgroundPanel';
-
-// Helper to convert a data URL string to a File object
-const dataURLtoFile = (dataurl: string, filename: string): File => {
-    const arr = dataurl.split(',');
-    if (arr.length < 2) throw new Error("Invalid data URL");
-    const mimeMatch = arr[0].match(/:(.*?);/);
-    if (!mimeMatch || !mimeMatch[1]) throw new Error("Could not parse MIME type from data URL");
-
-    const mime = mimeMatch[1];
-    const bstr = atob(arr[1]);
-    let n = bstr.length;
-    const u8arr = new Uint8Array(n);
-    while(n--){
-        u8arr[n] = bstr.charCodeAt(n);
-    }
-    return new File([u8arr], filename, {type:mime});
-}
+import VariationPicker from './components/VariationPicker';
+import MaskCanvas from './components/MaskCanvas';
+import { createCanvas, dataURLtoFile, loadImage } from './services/imageUtils';
+import { applyMaskAsAlpha, compositeWithinMask, defaultMaskRefinement, type MaskRefinement } from './services/mask';
+import { denormalizeBox, getContainedRect, imageToContainer, isInsideImage, normalizeRect, type Point, type Rect, type Size } from './services/coordinates';
+import BoxSelector from './components/BoxSelector';
+import DebugModal from './components/DebugModal';
+import CacheModal from './components/CacheModal';
+import { setCacheBypassed } from './services/resultCache';
+import UsagePanel from './components/UsagePanel';
+import ChatPanel from './components/ChatPanel';
+import {
+  appendChatTurn,
+  createChatSession,
+  findChatTurnForFile,
+  getChatThread,
+  getChatTurn,
+  getLatestDescendant,
+  releaseChatSession,
+  toChatExchanges,
+  type ChatSession,
+} from './services/chatSession';
+import { getBudgetStatus, subscribeToUsage } from './services/usageTracker';
+import { renderPrompt, type RenderedPrompt } from './services/promptTemplates';
+import { outputFitModeNames, placeOutput, reconcileOutput, type OutputFitMode } from './services/outputReconciliation';
+import GenerateImageModal, { type TextToImageRequest } from './components/GenerateImageModal';
+import ExtendPanel from './components/ExtendPanel';
+import SelectSubjectPanel from './components/SelectSubjectPanel';
+import UpscalePanel, { type UpscaleTarget } from './components/UpscalePanel';
+import { upscaleImage, type UpscaleFactor } from './services/upscale';
+import { extendLayerTransform, isolateOutpaintFill, paddedSize, prepareOutpaintInput, type CanvasPadding } from './services/outpaint';
+import { closestAspectRatio, frameGeneratedImage, getAspectRatioSize, type AspectRatio } from './services/textToImage';
+import FaceSwapPanel from './components/FaceSwapPanel';
+import BatchModal from './components/BatchModal';
+import PromptPolicyNotice from './components/PromptPolicyNotice';
+import ImageAnalysisPanel from './components/ImageAnalysisPanel';
+import SuggestionChips from './components/SuggestionChips';
+import type { DetectedObject, ImageAnalysis } from './services/imageAnalysis';
+import { toCompositeOperation, type BlendMode } from './services/blendModes';
+import { documentToLayer, drawPlaced, getLayerPlacement, getPixelScale, identityTransform, placementStyle, withPixelScale, type LayerTransform } from './services/layerTransform';
+import TransformPanel from './components/TransformPanel';
+import TransformHandles from './components/TransformHandles';
+import LayerMaskPanel from './components/LayerMaskPanel';
+import LayerMaskCanvas from './components/LayerMaskCanvas';
+import { buildLayerStack, createLayerGroup, isLayerShown, updateGroup, type LayerGroup } from './services/layerGroups';
+import { createFilledMask, createLayerMask, createRectMask, maskStyle, normalizeMask, renderMaskedImage, type LayerMask } from './services/layerMask';
+import { getTextLayerName, rasterizeText, renderText, type TextLayerContent } from './services/textLayer';
+import TextPanel from './components/TextPanel';
+import TextLayerEditor from './components/TextLayerEditor';
+import { buildFacePairings, cropFaceThumbnail, defaultFacePairings, type DetectedFace, type FaceSwapDirection } from './services/faces';
 
 export interface Layer {
     id: string;
@@ -43,17 +77,99 @@ export interface Layer {
     objectUrl: string;
     name: string;
     opacity: number;
+    blendMode: BlendMode;
+    transform: LayerTransform;
+    // Hides parts of the layer without changing `file`
+    mask: LayerMask | null;
+    // The folder the layer sits in, if any; shared by all of the group's layers
+    group: LayerGroup | null;
+    // What a text layer says and how it looks; `file` is its rendered image. Null for image layers
+    text: TextLayerContent | null;
     isVisible: boolean;
 }
 
-type Tab = 'retouch' | 'faceswap' | 'adjust' | 'filters' | 'crop' | 'remove-bg';
+// One undo step: the layers, and the size of the canvas they are placed on
+interface HistoryEntry {
+    layers: Layer[];
+    documentSize: Size;
+}
+
+interface ErrorState {
+    message: string;
+    reason?: string;
+    action?: GenerationErrorAction;
+    onAction?: () => void;
+}
+
+// Results of a multi-variation run waiting for the user to pick from
+interface PendingVariations {
+    layerId: string;
+    sourceFile: File;
+    results: { file: File; url: string }[];
+}
+
+// A subject cut out with a mask, kept so the cut-out can be refined from the original pixels
+interface SubjectSelection {
+    layerId: string;
+    sourceFile: File;
+    mask: File;
+    refinement: MaskRefinement;
+    // The layer image the selection produced; the selection only applies while the layer shows it
+    resultFile: File;
+}
+
+// Faces found in the active layer and the uploaded image; only valid while both are unchanged
+interface FaceDetection {
+    layerFile: File;
+    uploadFile: File;
+    layerFaces: DetectedFace[];
+    uploadFaces: DetectedFace[];
+}
+
+// The analysis is tied to the layer image it describes
+interface LayerAnalysis {
+    layerFile: File;
+    result: ImageAnalysis;
+}
+
+const MAX_VARIATIONS = 4;
+
+// Softens the edge where a masked retouch is blended back into the original
+const MASK_FEATHER_PX = 8;
+
+type RetouchMode = 'point' | 'box' | 'mask';
+
+const retouchModeNames: Record<RetouchMode, string> = {
+  point: 'เลือกจุด',
+  box: 'เลือกกรอบ',
+  mask: 'ระบายมาสก์',
+};
+
+const retouchModeHints: Record<RetouchMode, string> = {
+  point: 'คลิกบนภาพเพื่อเลือกพื้นที่ แล้วอธิบายการแก้ไขของคุณ',
+  box: 'ลากบนภาพเพื่อวาดกรอบพื้นที่ แล้วอธิบายการแก้ไขของคุณ',
+  mask: 'ระบายบนภาพเพื่อกำหนดพื้นที่ แล้วอธิบายการแก้ไขของคุณ',
+};
+
+const missingTargetMessages: Record<RetouchMode, string> = {
+  point: 'กรุณาคลิกบนภาพเพื่อเลือกพื้นที่ที่ต้องการแก้ไข',
+  box: 'กรุณาลากบนภาพเพื่อเลือกกรอบพื้นที่ที่ต้องการแก้ไข',
+  mask: 'กรุณาระบายบนภาพเพื่อเลือกพื้นที่ที่ต้องการแก้ไข',
+};
+
+type Tab = 'retouch' | 'faceswap' | 'adjust' | 'filters' | 'transform' | 'layer-mask' | 'text' | 'crop' | 'extend' | 'upscale' | 'remove-bg';
 
 const tabDisplayNames: Record<Tab, string> = {
   retouch: 'รีทัช',
   faceswap: 'สลับใบหน้า',
   adjust: 'ปรับแต่ง',
   filters: 'ฟิลเตอร์',
+  transform: 'จัดวาง',
+  'layer-mask': 'มาสก์',
+  text: 'ข้อความ',
   crop: 'ตัดภาพ',
+  extend: 'ขยายภาพ',
+  upscale: 'ความละเอียด',
   'remove-bg': 'ลบพื้นหลัง',
 };
 
@@ -78,8 +194,12 @@ function centerAspectCrop(
   )
 }
 
-const App: React.FC = () => {
-  const [history, setHistory] = useState<Layer[][]>([]);
+interface AppProps {
+  provider: ImageEditProvider;
+}
+
+const App: React.FC<AppProps> = ({ provider }) => {
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
   const [historyIndex, setHistoryIndex] = useState<number>(-1);
   const [layers, setLayers] = useState<Layer[]>([]);
   const [activeLayerId, setActiveLayerId] = useState<string | null>(null);
@@ -87,13 +207,35 @@ const App: React.FC = () => {
   const [prompt, setPrompt] = useState<string>('');
   const [additionalPrompt, setAdditionalPrompt] = useState<string>('');
   const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [error, setError] = useState<string | null>(null);
+  const [isCancellable, setIsCancellable] = useState<boolean>(false);
+  // Replaces the generic loading text, e.g. with progress through a long operation
+  const [loadingMessage, setLoadingMessage] = useState<string | null>(null);
+  const [error, setError] = useState<ErrorState | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
-  const [editHotspot, setEditHotspot] = useState<{ x: number, y: number } | null>(null);
-  const [displayHotspot, setDisplayHotspot] = useState<{ x: number, y: number } | null>(null);
+  // Retouch targets, in the active layer's natural pixels
+  const [editHotspot, setEditHotspot] = useState<Point | null>(null);
+  const [editBox, setEditBox] = useState<Rect | null>(null);
   const [activeTab, setActiveTab] = useState<Tab>('retouch');
   const [secondaryImage, setSecondaryImage] = useState<File | null>(null);
   const [retouchScale, setRetouchScale] = useState<number>(100);
+  const [retouchMode, setRetouchMode] = useState<RetouchMode>('point');
+  const [brushSize, setBrushSize] = useState<number>(40);
+  const [isErasing, setIsErasing] = useState<boolean>(false);
+  // Whether layer mask strokes hide the layer or reveal it again
+  const [isMaskHiding, setIsMaskHiding] = useState<boolean>(true);
+  // The text layer being edited in place on the canvas
+  const [editingTextLayerId, setEditingTextLayerId] = useState<string | null>(null);
+  const [retouchMask, setRetouchMask] = useState<File | null>(null);
+  const [maskResetKey, setMaskResetKey] = useState<number>(0);
+  const [isChatMode, setIsChatMode] = useState<boolean>(false);
+  const [chatSession, setChatSession] = useState<ChatSession | null>(null);
+  const [activeLayerSize, setActiveLayerSize] = useState<Size | null>(null);
+  const [documentSize, setDocumentSize] = useState<Size | null>(null);
+  const [containerSize, setContainerSize] = useState<Size | null>(null);
+  // Natural sizes of the images shown in the preview, keyed by object URL
+  const [imageSizes, setImageSizes] = useState<Record<string, Size>>({});
+  // The active layer's transform while a handle is being dragged, before it is committed
+  const [transformDraft, setTransformDraft] = useState<{ layerId: string; transform: LayerTransform } | null>(null);
   
   const [crop, setCrop] = useState<Crop>();
   const [completedCrop, setCompletedCrop] = useState<Crop>();
@@ -105,18 +247,119 @@ const App: React.FC = () => {
     const saved = localStorage.getItem('transparentBackground');
     return saved === 'true';
   });
+  const [variationCount, setVariationCount] = useState<number>(() => {
+    const saved = parseInt(localStorage.getItem('variationCount') ?? '', 10);
+    return saved >= 1 && saved <= MAX_VARIATIONS ? saved : 1;
+  });
+  const [outputFitMode, setOutputFitMode] = useState<OutputFitMode>(() => {
+    const saved = localStorage.getItem('outputFitMode');
+    return saved && saved in outputFitModeNames ? saved as OutputFitMode : 'register';
+  });
+  const [isCacheBypassed, setIsCacheBypassed] = useState<boolean>(() => localStorage.getItem('bypassResultCache') === 'true');
+  const [showCacheModal, setShowCacheModal] = useState<boolean>(false);
+  const [showGenerateModal, setShowGenerateModal] = useState<boolean>(false);
+  const [showBatchModal, setShowBatchModal] = useState<boolean>(false);
+  const [pendingVariations, setPendingVariations] = useState<PendingVariations | null>(null);
+  const [subjectSelection, setSubjectSelection] = useState<SubjectSelection | null>(null);
+  const [faceSwapDirection, setFaceSwapDirection] = useState<FaceSwapDirection>('into-layer');
+  const [faceDetection, setFaceDetection] = useState<FaceDetection | null>(null);
+  // For each target face, the index of the source face that replaces it
+  const [facePairings, setFacePairings] = useState<(number | null)[]>([]);
+  const [imageAnalysis, setImageAnalysis] = useState<LayerAnalysis | null>(null);
+  const [previewVariationIndex, setPreviewVariationIndex] = useState<number | null>(null);
+  const [promptPreview, setPromptPreview] = useState<RenderedPrompt | null>(null);
   const [flattenedImageForCropUrl, setFlattenedImageForCropUrl] = useState<string | null>(null);
   const imgRef = useRef<HTMLImageElement>(null);
   const imageContainerRef = useRef<HTMLDivElement>(null);
+  const documentRef = useRef<HTMLDivElement>(null);
+  const toolPanelRef = useRef<HTMLDivElement>(null);
+  const operationRef = useRef<AbortController | null>(null);
+  const layersRef = useRef<Layer[]>([]);
+  const historyRef = useRef({ history, historyIndex });
+  const budgetWarnedOnRef = useRef<string | null>(null);
+  const budgetWarnedForSessionRef = useRef(false);
 
   const activeLayer = layers.find(l => l.id === activeLayerId);
-  const beforeLayers = history[0] || [];
+  const beforeLayers = history[0]?.layers || [];
   const currentLayersToDisplay = isComparing ? beforeLayers : layers;
+  const displayedDocumentSize = isComparing ? history[0]?.documentSize ?? null : documentSize;
+
+  // Keep a handle on the latest layers so async results can detect edits made while they ran,
+  // and on the latest history so results committed after an await extend the current entry
+  useEffect(() => {
+    layersRef.current = layers;
+  }, [layers]);
+
+  useEffect(() => {
+    historyRef.current = { history, historyIndex };
+  }, [history, historyIndex]);
+
+  // Track the active layer's natural size for the mask overlay
+  useEffect(() => {
+    if (!activeLayer) {
+      setActiveLayerSize(null);
+      return;
+    }
+    let cancelled = false;
+    loadImage(activeLayer.objectUrl)
+      .then(img => {
+        if (!cancelled) setActiveLayerSize({ width: img.naturalWidth, height: img.naturalHeight });
+      })
+      .catch(err => console.error('Could not measure active layer', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [activeLayer?.objectUrl]);
+
+  // Retouch targets belong to one image, so start over whenever it changes
+  useEffect(() => {
+    setEditHotspot(null);
+    setEditBox(null);
+    setRetouchMask(null);
+    setMaskResetKey(key => key + 1);
+  }, [activeLayer?.file]);
+
+  // Track the on-screen size of the canvas box to position overlays
+  const hasImageContainer = layers.length > 0 && activeTab !== 'crop';
+  useEffect(() => {
+    const container = imageContainerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setContainerSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [hasImageContainer]);
 
   // Effect to persist transparency setting
   useEffect(() => {
     localStorage.setItem('transparentBackground', String(isTransparent));
   }, [isTransparent]);
+
+  useEffect(() => {
+    localStorage.setItem('variationCount', String(variationCount));
+  }, [variationCount]);
+
+  useEffect(() => {
+    localStorage.setItem('outputFitMode', outputFitMode);
+  }, [outputFitMode]);
+
+  // Warn once per session and once per day when spending passes the matching soft budget
+  useEffect(() => subscribeToUsage(() => {
+    const today = new Date().toDateString();
+    if (getBudgetStatus('session') === 'warning' && !budgetWarnedForSessionRef.current) {
+        budgetWarnedForSessionRef.current = true;
+        setError({ message: 'การใช้งาน AI ในเซสชันนี้เกินงบประมาณที่ตั้งเตือนไว้แล้ว' });
+    } else if (getBudgetStatus('daily') === 'warning' && budgetWarnedOnRef.current !== today) {
+        budgetWarnedOnRef.current = today;
+        setError({ message: 'การใช้งาน AI วันนี้เกินงบประมาณที่ตั้งเตือนไว้แล้ว' });
+    }
+  }), []);
+
+  useEffect(() => {
+    localStorage.setItem('bypassResultCache', String(isCacheBypassed));
+    setCacheBypassed(isCacheBypassed);
+  }, [isCacheBypassed]);
   
   // Effect to manage object URLs and prevent memory leaks
   useEffect(() => {
@@ -138,20 +381,26 @@ const App: React.FC = () => {
   const canUndo = historyIndex > 0;
   const canRedo = historyIndex < history.length - 1;
 
-  const commitChanges = useCallback((newLayers: Layer[], options: { addToHistory: boolean } = { addToHistory: true }) => {
+  // Returns the index of the new history entry, or null when history was left alone. Reads the
+  // layers and history through refs, as it is also called when async operations finish. The
+  // document keeps its size unless `documentSize` is given, e.g. after a crop
+  const commitChanges = useCallback((newLayers: Layer[], options: { addToHistory?: boolean; documentSize?: Size } = {}): number | null => {
+    const { history, historyIndex } = historyRef.current;
+    const addToHistory = options.addToHistory ?? true;
     // Revoke old URLs that are being replaced
     newLayers.forEach(newLayer => {
-      const oldLayer = layers.find(l => l.id === newLayer.id);
+      const oldLayer = layersRef.current.find(l => l.id === newLayer.id);
       if (oldLayer && oldLayer.file !== newLayer.file) {
         URL.revokeObjectURL(oldLayer.objectUrl);
       }
     });
 
     setLayers(newLayers);
+    if (options.documentSize) setDocumentSize(options.documentSize);
 
-    if (options.addToHistory) {
+    if (addToHistory) {
       const newHistory = history.slice(0, historyIndex + 1);
-      newHistory.push(newLayers);
+      newHistory.push({ layers: newLayers, documentSize: options.documentSize ?? history[historyIndex].documentSize });
       setHistory(newHistory);
       setHistoryIndex(newHistory.length - 1);
     }
@@ -162,39 +411,77 @@ const App: React.FC = () => {
     setSecondaryImage(null);
     setAdditionalPrompt('');
     setRetouchScale(100);
-  }, [history, historyIndex, layers]);
+    return addToHistory ? historyIndex + 1 : null;
+  }, []);
 
-  const handleImageUpload = useCallback((file: File) => {
+  // Sends the user back to the prompt field of the current tool
+  const focusPromptInput = useCallback(() => {
+    toolPanelRef.current?.querySelector<HTMLElement>('textarea, input[type="text"]')?.focus();
+  }, []);
+
+  const reportGenerationError = useCallback((err: unknown, title: string, retry: () => void) => {
+    const generationError = toGenerationError(err);
+    console.error(generationError);
+    setError({
+      message: `${title}: ${generationError.userMessage}`,
+      reason: generationError.reason,
+      action: generationError.suggestedAction,
+      onAction: generationError.suggestedAction === 'retry' ? retry : generationError.suggestedAction === 'rephrase' ? focusPromptInput : undefined,
+    });
+  }, [focusPromptInput]);
+
+  // Starts a new document from an image, which also sets the document's size
+  const handleImageUpload = useCallback(async (file: File, name = 'Background') => {
     setError(null);
+    let documentSize: Size;
+    try {
+        const img = await loadImage(file);
+        documentSize = { width: img.naturalWidth, height: img.naturalHeight };
+    } catch (err) {
+        console.error(err);
+        setError({ message: 'เปิดไฟล์รูปภาพไม่สำเร็จ' });
+        return;
+    }
     const newLayer: Layer = {
         id: `layer-${Date.now()}`,
         file,
         objectUrl: URL.createObjectURL(file),
-        name: 'Background',
+        name,
         opacity: 100,
+        blendMode: 'normal',
+        transform: identityTransform,
+        mask: null,
+        group: null,
+        text: null,
         isVisible: true,
     };
     setLayers([newLayer]);
+    setDocumentSize(documentSize);
     setActiveLayerId(newLayer.id);
-    setHistory([[newLayer]]);
+    setHistory([{ layers: [newLayer], documentSize }]);
     setHistoryIndex(0);
     setSuccessMessage('อัปโหลดรูปภาพสำเร็จแล้ว!');
     setEditHotspot(null);
-    setDisplayHotspot(null);
+    setEditBox(null);
     setActiveTab('retouch');
   }, []);
   
-  const handleAddLayer = useCallback((file: File) => {
+  const handleAddLayer = useCallback((file: File, name?: string) => {
     if (layers.length === 0) {
-        handleImageUpload(file);
+        handleImageUpload(file, name);
         return;
     }
     const newLayer: Layer = {
         id: `layer-${Date.now()}`,
         file,
         objectUrl: URL.createObjectURL(file),
-        name: `Layer ${layers.length}`,
+        name: name ?? `Layer ${layers.length}`,
         opacity: 100,
+        blendMode: 'normal',
+        transform: identityTransform,
+        mask: null,
+        group: null,
+        text: null,
         isVisible: true,
     };
     const newLayers = [...layers, newLayer];
@@ -202,156 +489,606 @@ const App: React.FC = () => {
     setActiveLayerId(newLayer.id);
   }, [layers, commitChanges, handleImageUpload]);
   
+  const discardPendingVariations = useCallback((keepUrls: string[] = []) => {
+    setPendingVariations(current => {
+        current?.results.forEach(({ url }) => {
+            if (!keepUrls.includes(url)) URL.revokeObjectURL(url);
+        });
+        return null;
+    });
+    setPreviewVariationIndex(null);
+  }, []);
+
+  // Turns a text layer into a plain image layer, rendered at the size it is shown at
+  const handleRasterizeLayer = useCallback(async (id: string) => {
+    const layer = layersRef.current.find(l => l.id === id);
+    if (!layer?.text || !documentSize) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+        const img = await loadImage(layer.file);
+        const pixelScale = getPixelScale({ width: img.naturalWidth, height: img.naturalHeight }, documentSize, layer.transform);
+        const file = await rasterizeText(layer.text, pixelScale);
+        const rendered = await loadImage(file);
+        const transform = withPixelScale({ width: rendered.naturalWidth, height: rendered.naturalHeight }, documentSize, 1, layer.transform);
+        commitChanges(layersRef.current.map(l => l.id === id ? { ...l, file, objectUrl: URL.createObjectURL(file), transform, text: null } : l));
+        setSuccessMessage('แปลงเลเยอร์ข้อความเป็นภาพแล้ว');
+    } catch (err) {
+        console.error(err);
+        setError({ message: 'แปลงข้อความเป็นภาพไม่สำเร็จ' });
+    } finally {
+        setIsLoading(false);
+    }
+  }, [documentSize, commitChanges]);
+
+  // AI tools only see pixels, so a text layer has to be rasterized before one of them edits it
+  const checkRasterized = useCallback((layer: Layer): boolean => {
+    if (!layer.text) return true;
+    setError({
+        message: 'เลเยอร์ข้อความต้องแปลงเป็นภาพก่อนแก้ไขด้วย AI',
+        action: 'rasterize',
+        onAction: () => handleRasterizeLayer(layer.id),
+    });
+    return false;
+  }, [handleRasterizeLayer]);
+
+  /**
+   * Runs an AI operation against a layer, `variationCount` times in parallel.
+   * A single result is committed straight away; several are offered in the
+   * variation picker. The previous operation, if any, is aborted first. Results
+   * that arrive after the operation was cancelled, or after the layer's image
+   * has changed, are dropped. Resolves to true when results were produced.
+   */
+  const runLayerGeneration = useCallback(async (
+    layer: Layer,
+    generate: (signal: AbortSignal) => Promise<string>,
+    options: {
+        filePrefix: string;
+        failureTitle: string;
+        retry: () => void;
+        postProcess?: (url: string) => Promise<string>;
+        // Overrides the variation count, e.g. for chat turns that must stay linear
+        count?: number;
+        onCommit?: (file: File, historyIndex: number) => void;
+    },
+  ): Promise<boolean> => {
+    if (!checkRasterized(layer)) return false;
+    operationRef.current?.abort();
+    const controller = new AbortController();
+    operationRef.current = controller;
+    const sourceFile = layer.file;
+
+    discardPendingVariations();
+    setIsLoading(true);
+    setIsCancellable(true);
+    setError(null);
+
+    // Results come back at whatever size the model chose, so bring each one to the layer's size first
+    let hadAspectMismatch = false;
+    const generateOne = async () => {
+        const reconciled = await reconcileOutput(await generate(controller.signal), sourceFile, outputFitMode);
+        if (reconciled.mismatch === 'aspect') hadAspectMismatch = true;
+        return options.postProcess ? options.postProcess(reconciled.url) : reconciled.url;
+    };
+
+    try {
+        const settled = await Promise.allSettled(
+            Array.from({ length: options.count ?? variationCount }, generateOne)
+        );
+        const currentLayers = layersRef.current;
+        if (controller.signal.aborted || currentLayers.find(l => l.id === layer.id)?.file !== sourceFile) {
+            console.warn(`Discarding stale result for layer ${layer.id}`);
+            return false;
+        }
+
+        const resultUrls = settled.flatMap(result => result.status === 'fulfilled' ? [result.value] : []);
+        if (resultUrls.length === 0) {
+            throw (settled[0] as PromiseRejectedResult).reason;
+        }
+        settled.forEach(result => {
+            if (result.status === 'rejected') console.warn('A variation failed', result.reason);
+        });
+
+        const files = resultUrls.map((url, i) => dataURLtoFile(url, `${options.filePrefix}-${Date.now()}-${i + 1}.png`));
+        if (files.length === 1) {
+            const updatedLayers = currentLayers.map(l =>
+                l.id === layer.id
+                    ? { ...l, file: files[0], objectUrl: URL.createObjectURL(files[0]) }
+                    : l
+            );
+            const newHistoryIndex = commitChanges(updatedLayers);
+            if (newHistoryIndex !== null) options.onCommit?.(files[0], newHistoryIndex);
+        } else {
+            setPendingVariations({
+                layerId: layer.id,
+                sourceFile,
+                results: files.map(file => ({ file, url: URL.createObjectURL(file) })),
+            });
+            setPreviewVariationIndex(0);
+        }
+        if (hadAspectMismatch) {
+            setSuccessMessage(`สัดส่วนของผลลัพธ์ไม่ตรงกับเลเยอร์ จึงปรับด้วยโหมด "${outputFitModeNames[outputFitMode]}"`);
+        }
+        return true;
+    } catch (err) {
+        if (!controller.signal.aborted) {
+            reportGenerationError(err, options.failureTitle, options.retry);
+        }
+        return false;
+    } finally {
+        if (operationRef.current === controller) {
+            operationRef.current = null;
+            setIsLoading(false);
+            setIsCancellable(false);
+        }
+    }
+  }, [variationCount, outputFitMode, commitChanges, reportGenerationError, discardPendingVariations, checkRasterized]);
+
+  /**
+   * Runs an AI operation that works on the document rather than one layer,
+   * with the same cancellation and error reporting as runLayerGeneration.
+   * `apply` is skipped when the operation was cancelled or the layers were
+   * edited while it ran.
+   */
+  const runDocumentOperation = useCallback(async <T,>(
+    work: (signal: AbortSignal) => Promise<T>,
+    apply: (result: T) => void,
+    options: { failureTitle: string; retry: () => void },
+  ): Promise<void> => {
+    operationRef.current?.abort();
+    const controller = new AbortController();
+    operationRef.current = controller;
+    const sourceLayers = layersRef.current;
+
+    discardPendingVariations();
+    setIsLoading(true);
+    setIsCancellable(true);
+    setError(null);
+
+    try {
+        const result = await work(controller.signal);
+        if (controller.signal.aborted || layersRef.current !== sourceLayers) {
+            console.warn('Discarding stale document result');
+            return;
+        }
+        apply(result);
+    } catch (err) {
+        if (!controller.signal.aborted) {
+            reportGenerationError(err, options.failureTitle, options.retry);
+        }
+    } finally {
+        if (operationRef.current === controller) {
+            operationRef.current = null;
+            setIsLoading(false);
+            setIsCancellable(false);
+            setLoadingMessage(null);
+        }
+    }
+  }, [reportGenerationError, discardPendingVariations]);
+
+  // Returns the pending variations if the layer they were made from is still unchanged
+  const getApplicableVariations = useCallback((): PendingVariations | null => {
+    if (!pendingVariations) return null;
+    const target = layers.find(l => l.id === pendingVariations.layerId);
+    if (target?.file !== pendingVariations.sourceFile) {
+        setError({ message: 'เลเยอร์ถูกแก้ไขไปแล้ว ไม่สามารถใช้ผลลัพธ์เหล่านี้ได้' });
+        discardPendingVariations();
+        return null;
+    }
+    return pendingVariations;
+  }, [pendingVariations, layers, discardPendingVariations]);
+
+  const handleKeepVariation = useCallback((index: number) => {
+    const pending = getApplicableVariations();
+    if (!pending) return;
+    const { file, url } = pending.results[index];
+    const updatedLayers = layers.map(l =>
+        l.id === pending.layerId ? { ...l, file, objectUrl: url } : l
+    );
+    commitChanges(updatedLayers);
+    discardPendingVariations([url]);
+  }, [getApplicableVariations, layers, commitChanges, discardPendingVariations]);
+
+  const handleKeepVariationsAsLayers = useCallback((indices: number[]) => {
+    const pending = getApplicableVariations();
+    if (!pending || indices.length === 0) return;
+    const targetIndex = layers.findIndex(l => l.id === pending.layerId);
+    const target = layers[targetIndex];
+    const newLayers: Layer[] = indices.map((index, i) => ({
+        id: `layer-${Date.now()}-${i}`,
+        file: pending.results[index].file,
+        objectUrl: pending.results[index].url,
+        name: `${target.name} (แบบที่ ${index + 1})`,
+        opacity: 100,
+        blendMode: 'normal',
+        transform: target.transform,
+        mask: target.mask,
+        group: target.group,
+        text: null,
+        isVisible: true,
+    }));
+    const updatedLayers = [...layers.slice(0, targetIndex + 1), ...newLayers, ...layers.slice(targetIndex + 1)];
+    commitChanges(updatedLayers);
+    setActiveLayerId(newLayers[newLayers.length - 1].id);
+    discardPendingVariations(newLayers.map(l => l.objectUrl));
+  }, [getApplicableVariations, layers, commitChanges, discardPendingVariations]);
+
+  const handleCancelOperation = useCallback(() => {
+    operationRef.current?.abort();
+    operationRef.current = null;
+    setIsLoading(false);
+    setIsCancellable(false);
+    setLoadingMessage(null);
+  }, []);
+
+  // The region the next retouch applies to, or null until its target has been picked
+  const currentEditRegion = useMemo((): EditRegion | null => {
+    if (retouchMode === 'mask') {
+        return retouchMask ? { kind: 'mask', mask: retouchMask } : null;
+    }
+    if (retouchMode === 'box') {
+        return editBox && activeLayerSize ? { kind: 'box', box: normalizeRect(editBox, activeLayerSize) } : null;
+    }
+    return editHotspot ? { kind: 'point', x: Math.round(editHotspot.x), y: Math.round(editHotspot.y) } : null;
+  }, [retouchMode, retouchMask, editBox, activeLayerSize, editHotspot]);
+
   const handleGenerate = useCallback(async () => {
     if (!activeLayer) {
-      setError('ยังไม่ได้เลือกเลเยอร์เพื่อแก้ไข');
+      setError({ message: 'ยังไม่ได้เลือกเลเยอร์เพื่อแก้ไข' });
       return;
     }
     
     if (!prompt.trim()) {
-        setError('กรุณาใส่คำอธิบายการแก้ไขของคุณ');
+        setError({ message: 'กรุณาใส่คำอธิบายการแก้ไขของคุณ' });
         return;
     }
 
-    if (!editHotspot) {
-        setError('กรุณาคลิกบนภาพเพื่อเลือกพื้นที่ที่ต้องการแก้ไข');
+    const region = currentEditRegion;
+    if (!region) {
+        setError({ message: missingTargetMessages[retouchMode] });
         return;
     }
 
-    setIsLoading(true);
-    setError(null);
-    
-    try {
-        const editedImageUrl = await generateEditedImage(activeLayer.file, prompt, editHotspot, additionalPrompt, isTransparent, retouchScale / 100);
-        const newImageFile = dataURLtoFile(editedImageUrl, `edited-${Date.now()}.png`);
-        
-        const updatedLayers = layers.map(l => 
-            l.id === activeLayerId 
-                ? { ...l, file: newImageFile, objectUrl: URL.createObjectURL(newImageFile) } 
-                : l
-        );
-        commitChanges(updatedLayers);
-
+    const committed = await runLayerGeneration(
+        activeLayer,
+        signal => provider.generateEditedImage(activeLayer.file, prompt, region, additionalPrompt, isTransparent, retouchScale / 100, signal),
+        {
+            filePrefix: 'edited',
+            failureTitle: 'สร้างรูปภาพไม่สำเร็จ',
+            retry: () => handleGenerate(),
+            // Only let the model's changes through inside the painted area
+            postProcess: region.kind === 'mask'
+                ? editedImageUrl => compositeWithinMask(activeLayer.file, editedImageUrl, region.mask, MASK_FEATHER_PX)
+                : undefined,
+        },
+    );
+    if (committed) {
         setPrompt('');
         setEditHotspot(null);
-        setDisplayHotspot(null);
-    } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-        setError(`สร้างรูปภาพไม่สำเร็จ ${errorMessage}`);
-        console.error(err);
-    } finally {
-        setIsLoading(false);
+        setEditBox(null);
     }
-  }, [activeLayer, prompt, editHotspot, additionalPrompt, isTransparent, retouchScale, layers, activeLayerId, commitChanges]);
+  }, [activeLayer, prompt, currentEditRegion, retouchMode, additionalPrompt, isTransparent, retouchScale, provider, runLayerGeneration]);
   
+  const handleSendChatMessage = useCallback(async (instruction: string): Promise<boolean> => {
+    if (!activeLayer) {
+        setError({ message: 'ยังไม่ได้เลือกเลเยอร์เพื่อแก้ไข' });
+        return false;
+    }
+
+    // Continue from whichever turn produced the image now on the layer, so undoing and then
+    // sending branches the conversation. An image from anywhere else starts a new one.
+    const matchedTurnId = chatSession?.layerId === activeLayer.id ? findChatTurnForFile(chatSession, activeLayer.file) : undefined;
+    let session: ChatSession;
+    if (chatSession && matchedTurnId !== undefined) {
+        session = { ...chatSession, tipId: matchedTurnId };
+    } else {
+        if (chatSession) releaseChatSession(chatSession);
+        session = createChatSession(activeLayer.id, activeLayer.file, historyIndex);
+    }
+    setChatSession(session);
+
+    const thread = getChatThread(session);
+    return runLayerGeneration(
+        activeLayer,
+        signal => provider.generateChatEdit(session.startFile, toChatExchanges(thread), instruction, isTransparent, signal),
+        {
+            filePrefix: 'chat',
+            failureTitle: 'ส่งข้อความไม่สำเร็จ',
+            retry: () => handleSendChatMessage(instruction),
+            count: 1,
+            onCommit: (result, resultHistoryIndex) => setChatSession(current => current && appendChatTurn(current, {
+                parentId: session.tipId,
+                instruction,
+                isTransparent,
+                result,
+                historyIndex: resultHistoryIndex,
+            })),
+        },
+    );
+  }, [activeLayer, chatSession, historyIndex, isTransparent, provider, runLayerGeneration]);
+
+  // Moves the conversation back to a turn and puts that turn's image back on the layer
+  const handleChatBranch = useCallback((turnId: string | null) => {
+    if (!chatSession) return;
+    const turn = getChatTurn(chatSession, turnId);
+    const file = turn ? turn.result : chatSession.startFile;
+    setChatSession({ ...chatSession, tipId: turnId });
+
+    const layer = layers.find(l => l.id === chatSession.layerId);
+    if (!layer || layer.file === file) return;
+    setActiveLayerId(layer.id);
+
+    // Prefer the history entry the turn was committed as; if that has since been
+    // overwritten, restore the image as a new step instead
+    const entryIndex = turn ? turn.historyIndex : chatSession.startHistoryIndex;
+    if (history[entryIndex]?.layers.find(l => l.id === layer.id)?.file === file) {
+        setHistoryIndex(entryIndex);
+        setLayers(history[entryIndex].layers);
+        setDocumentSize(history[entryIndex].documentSize);
+        return;
+    }
+    const newHistoryIndex = commitChanges(layers.map(l => l.id === layer.id ? { ...l, file, objectUrl: URL.createObjectURL(file) } : l));
+    if (newHistoryIndex === null) return;
+    setChatSession(current => current && (turn
+        ? { ...current, turns: current.turns.map(t => t.id === turn.id ? { ...t, historyIndex: newHistoryIndex } : t) }
+        : { ...current, startHistoryIndex: newHistoryIndex }));
+  }, [chatSession, layers, history, commitChanges]);
+
+  const handleChatSwitchBranch = useCallback((turnId: string) => {
+    if (!chatSession) return;
+    handleChatBranch(getLatestDescendant(chatSession, turnId).id);
+  }, [chatSession, handleChatBranch]);
+
+  const handleResetChat = useCallback(() => {
+    if (chatSession) releaseChatSession(chatSession);
+    setChatSession(null);
+  }, [chatSession]);
+
   const handleApplyFilter = useCallback(async (filterPrompt: string, additionalPrompt: string) => {
     if (!activeLayer) {
-      setError('ยังไม่ได้เลือกเลเยอร์เพื่อใช้ฟิลเตอร์');
+      setError({ message: 'ยังไม่ได้เลือกเลเยอร์เพื่อใช้ฟิลเตอร์' });
       return;
     }
     
-    setIsLoading(true);
-    setError(null);
-    
-    try {
-        const filteredImageUrl = await generateFilteredImage(activeLayer.file, filterPrompt, additionalPrompt, isTransparent);
-        const newImageFile = dataURLtoFile(filteredImageUrl, `filtered-${Date.now()}.png`);
-        const updatedLayers = layers.map(l => 
-            l.id === activeLayerId 
-                ? { ...l, file: newImageFile, objectUrl: URL.createObjectURL(newImageFile) } 
-                : l
-        );
-        commitChanges(updatedLayers);
-    } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-        setError(`ใช้ฟิลเตอร์ไม่สำเร็จ ${errorMessage}`);
-        console.error(err);
-    } finally {
-        setIsLoading(false);
-    }
-  }, [activeLayer, activeLayerId, layers, commitChanges, isTransparent]);
+    await runLayerGeneration(
+        activeLayer,
+        signal => provider.generateFilteredImage(activeLayer.file, filterPrompt, additionalPrompt, isTransparent, signal),
+        { filePrefix: 'filtered', failureTitle: 'ใช้ฟิลเตอร์ไม่สำเร็จ', retry: () => handleApplyFilter(filterPrompt, additionalPrompt) },
+    );
+  }, [activeLayer, isTransparent, provider, runLayerGeneration]);
   
   const handleApplyAdjustment = useCallback(async (adjustmentPrompt: string, additionalPrompt: string) => {
     if (!activeLayer) {
-      setError('ยังไม่ได้เลือกเลเยอร์เพื่อปรับแต่ง');
+      setError({ message: 'ยังไม่ได้เลือกเลเยอร์เพื่อปรับแต่ง' });
       return;
     }
     
-    setIsLoading(true);
-    setError(null);
-    
-    try {
-        const adjustedImageUrl = await generateAdjustedImage(activeLayer.file, adjustmentPrompt, secondaryImage, additionalPrompt, isTransparent);
-        const newImageFile = dataURLtoFile(adjustedImageUrl, `adjusted-${Date.now()}.png`);
-        const updatedLayers = layers.map(l => 
-            l.id === activeLayerId 
-                ? { ...l, file: newImageFile, objectUrl: URL.createObjectURL(newImageFile) } 
-                : l
-        );
-        commitChanges(updatedLayers);
-    } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-        setError(`ปรับแต่งไม่สำเร็จ ${errorMessage}`);
-        console.error(err);
-    } finally {
-        setIsLoading(false);
+    await runLayerGeneration(
+        activeLayer,
+        signal => provider.generateAdjustedImage(activeLayer.file, adjustmentPrompt, secondaryImage, additionalPrompt, isTransparent, signal),
+        { filePrefix: 'adjusted', failureTitle: 'ปรับแต่งไม่สำเร็จ', retry: () => handleApplyAdjustment(adjustmentPrompt, additionalPrompt) },
+    );
+  }, [activeLayer, secondaryImage, isTransparent, provider, runLayerGeneration]);
+
+  // The detected faces, as source and target for the current direction, while the detection still applies
+  const activeFaceDetection = useMemo(() => {
+    if (!faceDetection || activeLayer?.file !== faceDetection.layerFile || secondaryImage !== faceDetection.uploadFile) return null;
+    return faceSwapDirection === 'into-layer'
+        ? { sourceFaces: faceDetection.uploadFaces, targetFaces: faceDetection.layerFaces }
+        : { sourceFaces: faceDetection.layerFaces, targetFaces: faceDetection.uploadFaces };
+  }, [faceDetection, activeLayer?.file, secondaryImage, faceSwapDirection]);
+
+  const currentFacePairings = useMemo(() => activeFaceDetection
+    ? buildFacePairings(activeFaceDetection.sourceFaces, activeFaceDetection.targetFaces, facePairings)
+    : [], [activeFaceDetection, facePairings]);
+
+  const handleFaceSwapDirectionChange = useCallback((direction: FaceSwapDirection) => {
+    setFaceSwapDirection(direction);
+    if (faceDetection) {
+        const [sources, targets] = direction === 'into-layer'
+            ? [faceDetection.uploadFaces, faceDetection.layerFaces]
+            : [faceDetection.layerFaces, faceDetection.uploadFaces];
+        setFacePairings(defaultFacePairings(sources.length, targets.length));
     }
-  }, [activeLayer, activeLayerId, layers, commitChanges, secondaryImage, isTransparent]);
+  }, [faceDetection]);
+
+  const handleFacePairingChange = useCallback((targetIndex: number, sourceIndex: number | null) => {
+    setFacePairings(current => current.map((choice, i) => i === targetIndex ? sourceIndex : choice));
+  }, []);
 
-  const handleApplyFaceSwap = useCallback(async () => {
+  const handleDetectFaces = useCallback(async () => {
     if (!activeLayer || !secondaryImage) {
-      setError('กรุณาเลือกเลเยอร์และอัปโหลดภาพเป้าหมายเพื่อทำการสลับใบหน้า');
+      setError({ message: 'กรุณาเลือกเลเยอร์และอัปโหลดภาพก่อนตรวจหาใบหน้า' });
       return;
     }
 
-    setIsLoading(true);
-    setError(null);
+    const withThumbnails = (file: File, boxes: DetectedFace['box'][]) =>
+        Promise.all(boxes.map(async box => ({ box, thumbnailUrl: await cropFaceThumbnail(file, box) })));
 
-    try {
-      const swappedImageUrl = await generateFaceSwapImage(activeLayer.file, secondaryImage, additionalPrompt, isTransparent);
-      const newImageFile = dataURLtoFile(swappedImageUrl, `faceswap-${Date.now()}.png`);
-      const updatedLayers = layers.map(l => 
-          l.id === activeLayerId 
-                ? { ...l, file: newImageFile, objectUrl: URL.createObjectURL(newImageFile) } 
-                : l
-      );
-      commitChanges(updatedLayers);
-    } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-        setError(`สลับใบหน้าไม่สำเร็จ: ${errorMessage}`);
-        console.error(err);
-    } finally {
-        setIsLoading(false);
+    await runDocumentOperation(
+        async signal => {
+            const [layerBoxes, uploadBoxes] = await Promise.all([
+                provider.detectFaces(activeLayer.file, signal),
+                provider.detectFaces(secondaryImage, signal),
+            ]);
+            return {
+                layerFile: activeLayer.file,
+                uploadFile: secondaryImage,
+                layerFaces: await withThumbnails(activeLayer.file, layerBoxes),
+                uploadFaces: await withThumbnails(secondaryImage, uploadBoxes),
+            };
+        },
+        detection => {
+            const [sources, targets] = faceSwapDirection === 'into-layer'
+                ? [detection.uploadFaces, detection.layerFaces]
+                : [detection.layerFaces, detection.uploadFaces];
+            setFaceDetection(detection);
+            setFacePairings(defaultFacePairings(sources.length, targets.length));
+        },
+        { failureTitle: 'ตรวจหาใบหน้าไม่สำเร็จ', retry: () => handleDetectFaces() },
+    );
+  }, [activeLayer, secondaryImage, faceSwapDirection, provider, runDocumentOperation]);
+
+  const handleApplyFaceSwap = useCallback(async (additionalPrompt: string) => {
+    if (!activeLayer || !secondaryImage) {
+      setError({ message: 'กรุณาเลือกเลเยอร์และอัปโหลดภาพเพื่อทำการสลับใบหน้า' });
+      return;
+    }
+    if (activeFaceDetection && currentFacePairings.length === 0) {
+      setError({ message: 'กรุณาเลือกใบหน้าที่จะสลับอย่างน้อยหนึ่งคู่' });
+      return;
     }
-  }, [activeLayer, activeLayerId, secondaryImage, additionalPrompt, isTransparent, layers, commitChanges]);
+    const retry = () => handleApplyFaceSwap(additionalPrompt);
+
+    if (faceSwapDirection === 'into-layer') {
+        await runLayerGeneration(
+            activeLayer,
+            signal => provider.generateFaceSwapImage(secondaryImage, activeLayer.file, currentFacePairings, additionalPrompt, isTransparent, signal),
+            { filePrefix: 'faceswap', failureTitle: 'สลับใบหน้าไม่สำเร็จ', retry },
+        );
+        return;
+    }
+
+    // The result is the uploaded image with new faces, so it joins the document as a layer of its own
+    await runDocumentOperation(
+        async signal => {
+            const resultUrl = await provider.generateFaceSwapImage(activeLayer.file, secondaryImage, currentFacePairings, additionalPrompt, isTransparent, signal);
+            if (!documentSize) {
+                return dataURLtoFile(resultUrl, `faceswap-${Date.now()}.png`);
+            }
+            const result = await loadImage(resultUrl);
+            const area = placeOutput({ width: result.naturalWidth, height: result.naturalHeight }, documentSize, 'fit');
+            return dataURLtoFile(await frameGeneratedImage(resultUrl, documentSize, area), `faceswap-${Date.now()}.png`);
+        },
+        file => {
+            handleAddLayer(file, 'สลับใบหน้า');
+            setSuccessMessage('เพิ่มภาพที่สลับใบหน้าเป็นเลเยอร์ใหม่แล้ว');
+        },
+        { failureTitle: 'สลับใบหน้าไม่สำเร็จ', retry },
+    );
+  }, [activeLayer, secondaryImage, activeFaceDetection, currentFacePairings, faceSwapDirection, documentSize, isTransparent, provider, runLayerGeneration, runDocumentOperation, handleAddLayer]);
   
+  const activeImageAnalysis = imageAnalysis && activeLayer?.file === imageAnalysis.layerFile ? imageAnalysis.result : null;
+  // The caption is only offered as alt text while the image it describes is still in the document
+  const exportAltText = imageAnalysis && layers.some(l => l.file === imageAnalysis.layerFile) ? imageAnalysis.result.caption : '';
+
+  const handleAnalyzeImage = useCallback(async () => {
+    if (!activeLayer) {
+        setError({ message: 'ยังไม่ได้เลือกเลเยอร์เพื่อวิเคราะห์' });
+        return;
+    }
+
+    await runDocumentOperation(
+        signal => provider.analyzeImage(activeLayer.file, signal),
+        result => setImageAnalysis({ layerFile: activeLayer.file, result }),
+        { failureTitle: 'วิเคราะห์ภาพไม่สำเร็จ', retry: () => handleAnalyzeImage() },
+    );
+  }, [activeLayer, provider, runDocumentOperation]);
+
+  // Makes an analyzed object the target of the next retouch
+  const handleSelectAnalyzedObject = useCallback((object: DetectedObject) => {
+    if (!activeLayerSize) return;
+    setIsChatMode(false);
+    setRetouchMode('box');
+    setEditBox(denormalizeBox(object.box, activeLayerSize));
+  }, [activeLayerSize]);
+
   const handleRemoveBackground = useCallback(async (additionalPrompt: string) => {
     if (!activeLayer) {
-        setError('ยังไม่ได้เลือกเลเยอร์เพื่อลบพื้นหลัง');
+        setError({ message: 'ยังไม่ได้เลือกเลเยอร์เพื่อลบพื้นหลัง' });
         return;
     }
     
+    await runLayerGeneration(
+        activeLayer,
+        signal => provider.generateRemovedBgImage(activeLayer.file, additionalPrompt, isTransparent, signal),
+        { filePrefix: 'removed-bg', failureTitle: 'ลบพื้นหลังไม่สำเร็จ', retry: () => handleRemoveBackground(additionalPrompt) },
+    );
+  }, [activeLayer, isTransparent, provider, runLayerGeneration]);
+  
+  const handleSelectSubject = useCallback(async (additionalPrompt: string) => {
+    if (!activeLayer) {
+        setError({ message: 'ยังไม่ได้เลือกเลเยอร์เพื่อเลือกวัตถุ' });
+        return;
+    }
+    if (!checkRasterized(activeLayer)) return;
+
+    await runDocumentOperation(
+        async signal => {
+            const maskUrl = await provider.generateSubjectMask(activeLayer.file, additionalPrompt, signal);
+            const mask = dataURLtoFile(maskUrl, `subject-mask-${Date.now()}.png`);
+            const cutOutUrl = await applyMaskAsAlpha(activeLayer.file, mask, defaultMaskRefinement);
+            return { mask, file: dataURLtoFile(cutOutUrl, `subject-${Date.now()}.png`) };
+        },
+        ({ mask, file }) => {
+            commitChanges(layers.map(l => l.id === activeLayer.id ? { ...l, file, objectUrl: URL.createObjectURL(file) } : l));
+            setSubjectSelection({ layerId: activeLayer.id, sourceFile: activeLayer.file, mask, refinement: defaultMaskRefinement, resultFile: file });
+        },
+        { failureTitle: 'เลือกวัตถุไม่สำเร็จ', retry: () => handleSelectSubject(additionalPrompt) },
+    );
+  }, [activeLayer, layers, provider, commitChanges, runDocumentOperation, checkRasterized]);
+
+  // The selection on the active layer, if the layer still shows what it produced
+  const activeSubjectSelection = subjectSelection && activeLayer?.id === subjectSelection.layerId && activeLayer.file === subjectSelection.resultFile
+    ? subjectSelection
+    : null;
+
+  // Re-cuts the original pixels with the refined mask, so refinements never stack up
+  const handleRefineSelection = useCallback(async (refinement: MaskRefinement) => {
+    if (!activeSubjectSelection) return;
     setIsLoading(true);
-    setError(null);
-    
     try {
-        const removedBgImageUrl = await generateRemovedBgImage(activeLayer.file, additionalPrompt, isTransparent);
-        const newImageFile = dataURLtoFile(removedBgImageUrl, `removed-bg-${Date.now()}.png`);
-        const updatedLayers = layers.map(l => 
-            l.id === activeLayerId 
-                ? { ...l, file: newImageFile, objectUrl: URL.createObjectURL(newImageFile) } 
-                : l
-        );
-        commitChanges(updatedLayers);
+        const cutOutUrl = await applyMaskAsAlpha(activeSubjectSelection.sourceFile, activeSubjectSelection.mask, refinement);
+        const file = dataURLtoFile(cutOutUrl, `subject-${Date.now()}.png`);
+        commitChanges(layers.map(l => l.id === activeSubjectSelection.layerId ? { ...l, file, objectUrl: URL.createObjectURL(file) } : l));
+        setSubjectSelection({ ...activeSubjectSelection, refinement, resultFile: file });
     } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-        setError(`ลบพื้นหลังไม่สำเร็จ: ${errorMessage}`);
         console.error(err);
+        setError({ message: 'ปรับขอบมาสก์ไม่สำเร็จ' });
     } finally {
         setIsLoading(false);
     }
-  }, [activeLayer, activeLayerId, isTransparent, layers, commitChanges]);
-  
+  }, [activeSubjectSelection, layers, commitChanges]);
+
+  // Prompt previews show exactly what the next request would send to the model
+  const handlePreviewEditPrompt = useCallback(() => {
+    if (!currentEditRegion) {
+        setError({ message: missingTargetMessages[retouchMode] });
+        return;
+    }
+    setPromptPreview(renderPrompt('edit', {
+        userPrompt: prompt,
+        region: currentEditRegion,
+        scale: retouchScale / 100,
+        additionalPrompt,
+        isTransparent,
+    }));
+  }, [prompt, currentEditRegion, retouchMode, retouchScale, additionalPrompt, isTransparent]);
+
+  const handlePreviewFilterPrompt = useCallback((filterPrompt: string, additionalPrompt: string) => {
+    setPromptPreview(renderPrompt('filter', { filterPrompt, additionalPrompt, isTransparent }));
+  }, [isTransparent]);
+
+  const handlePreviewAdjustmentPrompt = useCallback((adjustmentPrompt: string, additionalPrompt: string) => {
+    setPromptPreview(renderPrompt('adjustment', { adjustmentPrompt, hasReferenceImage: !!secondaryImage, additionalPrompt, isTransparent }));
+  }, [secondaryImage, isTransparent]);
+
+  const handlePreviewFaceSwapPrompt = useCallback((additionalPrompt: string) => {
+    setPromptPreview(renderPrompt('faceSwap', { pairings: currentFacePairings, additionalPrompt, isTransparent }));
+  }, [currentFacePairings, isTransparent]);
+
+  const handlePreviewRemoveBackgroundPrompt = useCallback((additionalPrompt: string) => {
+    setPromptPreview(renderPrompt('removeBackground', { additionalPrompt, isTransparent }));
+  }, [isTransparent]);
+
+  const handlePreviewSubjectMaskPrompt = useCallback((additionalPrompt: string) => {
+    setPromptPreview(renderPrompt('subjectMask', { additionalPrompt }));
+  }, []);
+
+  const handlePreviewOutpaintPrompt = useCallback((additionalPrompt: string) => {
+    setPromptPreview(renderPrompt('outpaint', { additionalPrompt }));
+  }, []);
+
   const flattenLayersForCrop = useCallback(async (): Promise<string | null> => {
     if (layers.length === 0) return null;
     
@@ -359,40 +1096,43 @@ const App: React.FC = () => {
     const ctx = canvas.getContext('2d');
     if (!ctx) return null;
 
-    const firstVisibleLayer = layers.find(l => l.isVisible);
-    if (!firstVisibleLayer) return null;
+    if (!documentSize || !layers.some(isLayerShown)) return null;
 
-    // Load the first image to get dimensions
-    const baseImg = await new Promise<HTMLImageElement>((resolve, reject) => {
-      const img = new Image();
-      img.onload = () => resolve(img);
-      img.onerror = reject;
-      img.src = firstVisibleLayer.objectUrl;
-    });
+    const size = documentSize;
+    canvas.width = size.width;
+    canvas.height = size.height;
 
-    canvas.width = baseImg.naturalWidth;
-    canvas.height = baseImg.naturalHeight;
-
-    for (const layer of layers) {
-      if (layer.isVisible) {
-        await new Promise<void>((resolve, reject) => {
-          const img = new Image();
-          img.onload = () => {
-            ctx.globalAlpha = layer.opacity / 100;
-            ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
-            resolve();
-          };
-          img.onerror = reject;
-          img.src = layer.objectUrl;
-        });
+    const drawLayer = async (target: CanvasRenderingContext2D, layer: Layer) => {
+      const img = await loadImage(layer.objectUrl);
+      const placement = getLayerPlacement({ width: img.naturalWidth, height: img.naturalHeight }, size, layer.transform);
+      // Text is drawn again at the size it is placed at, so scaled-up text stays sharp
+      const image = layer.text ? await renderText(layer.text, placement.width / img.naturalWidth) : img;
+      const source = layer.mask?.enabled ? await renderMaskedImage(image, layer.mask.file) : image;
+      target.globalAlpha = layer.opacity / 100;
+      target.globalCompositeOperation = toCompositeOperation(layer.blendMode);
+      drawPlaced(target, source, placement);
+    };
+
+    for (const item of buildLayerStack<Layer>(layers)) {
+      if (item.kind === 'layer') {
+        if (item.layer.isVisible) await drawLayer(ctx, item.layer);
+      } else if (item.group.isVisible) {
+        // Groups are flattened on their own, then blended in as a single image
+        const { canvas: groupCanvas, ctx: groupCtx } = createCanvas(size.width, size.height);
+        for (const layer of item.layers) {
+          if (layer.isVisible) await drawLayer(groupCtx, layer);
+        }
+        ctx.globalAlpha = item.group.opacity / 100;
+        ctx.globalCompositeOperation = toCompositeOperation(item.group.blendMode);
+        ctx.drawImage(groupCanvas, 0, 0);
       }
     }
     return canvas.toDataURL();
-  }, [layers]);
+  }, [layers, documentSize]);
 
   const handleApplyCrop = useCallback(async () => {
       if (!completedCrop || !flattenedImageForCropUrl || !activeLayer) {
-        setError('กรุณาเลือกพื้นที่ก่อนทำการตัดภาพ');
+        setError({ message: 'กรุณาเลือกพื้นที่ก่อนทำการตัดภาพ' });
         return;
       }
       
@@ -435,24 +1175,131 @@ const App: React.FC = () => {
             file: newImageFile,
             objectUrl: URL.createObjectURL(newImageFile),
             name: 'Cropped Image',
+            transform: identityTransform,
+            mask: null,
+            group: null,
+            text: null,
         };
         
-        commitChanges([newLayer]);
+        commitChanges([newLayer], { documentSize: { width: canvas.width, height: canvas.height } });
         setActiveTab('retouch'); // Switch back to a default tab
       } catch(err) {
         const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
-        setError(`ตัดภาพไม่สำเร็จ: ${errorMessage}`);
+        setError({ message: `ตัดภาพไม่สำเร็จ: ${errorMessage}` });
         console.error(err);
       } finally {
         setIsLoading(false);
       }
   }, [completedCrop, flattenedImageForCropUrl, activeLayer, commitChanges]);
+
+  /**
+   * Grows the document by `padding` and has the provider fill the new area.
+   * The fill becomes a new bottom layer covering only the new area, and every
+   * existing layer's transform is adjusted so it keeps its old position.
+   */
+  const handleApplyExtend = useCallback(async (padding: CanvasPadding, additionalPrompt: string) => {
+    if (!documentSize || layers.length === 0) {
+        setError({ message: 'ยังไม่มีภาพให้ขยาย' });
+        return;
+    }
+
+    await runDocumentOperation(
+        async signal => {
+            const compositeUrl = await flattenLayersForCrop();
+            if (!compositeUrl) throw new Error('Could not flatten layers for outpainting');
+            const { source, mask } = await prepareOutpaintInput(compositeUrl, padding);
+
+            const resultUrl = await provider.generateOutpaintedImage(source, mask, additionalPrompt, signal);
+            const reconciled = await reconcileOutput(resultUrl, source, outputFitMode);
+            const fillFile = await isolateOutpaintFill(reconciled.url, mask);
+            const layerSizes = await Promise.all(layers.map(async layer => {
+                const img = await loadImage(layer.objectUrl);
+                return { width: img.naturalWidth, height: img.naturalHeight };
+            }));
+            return { fillFile, layerSizes };
+        },
+        ({ fillFile, layerSizes }) => {
+            const fillLayer: Layer = {
+                id: `layer-${Date.now()}`,
+                file: fillFile,
+                objectUrl: URL.createObjectURL(fillFile),
+                name: 'ส่วนขยาย',
+                opacity: 100,
+                blendMode: 'normal',
+                transform: identityTransform,
+                mask: null,
+                group: null,
+                text: null,
+                isVisible: true,
+            };
+            const extendedLayers = layers.map((layer, i) => ({
+                ...layer,
+                transform: extendLayerTransform(layerSizes[i], documentSize, padding, layer.transform),
+            }));
+            commitChanges([fillLayer, ...extendedLayers], { documentSize: paddedSize(documentSize, padding) });
+            setSuccessMessage('ขยายภาพสำเร็จแล้ว!');
+        },
+        { failureTitle: 'ขยายภาพไม่สำเร็จ', retry: () => handleApplyExtend(padding, additionalPrompt) },
+    );
+  }, [documentSize, layers, flattenLayersForCrop, provider, outputFitMode, commitChanges, runDocumentOperation]);
+
+  const handleApplyUpscale = useCallback(async (target: UpscaleTarget, factor: UpscaleFactor) => {
+    if (target === 'layer' && !activeLayer) {
+        setError({ message: 'ยังไม่ได้เลือกเลเยอร์เพื่อเพิ่มความละเอียด' });
+        return;
+    }
+    if (target === 'layer' && activeLayer && !checkRasterized(activeLayer)) return;
+
+    await runDocumentOperation(
+        async signal => {
+            let source = activeLayer?.file;
+            if (target === 'composite') {
+                const compositeUrl = await flattenLayersForCrop();
+                if (!compositeUrl) throw new Error('Could not flatten layers for upscaling');
+                source = dataURLtoFile(compositeUrl, `composite-${Date.now()}.png`);
+            }
+            const resultUrl = await upscaleImage(source!, factor, provider.generateUpscaledImage, {
+                signal,
+                onProgress: (done, total) => {
+                    if (total > 1) setLoadingMessage(`กำลังเพิ่มความละเอียด ส่วนที่ ${done}/${total}`);
+                },
+            });
+            return dataURLtoFile(resultUrl, `upscaled-${Date.now()}.png`);
+        },
+        file => {
+            if (target === 'layer') {
+                commitChanges(layers.map(l => l.id === activeLayer!.id ? { ...l, file, objectUrl: URL.createObjectURL(file) } : l));
+            } else {
+                const upscaledLayer: Layer = {
+                    id: `layer-${Date.now()}`,
+                    file,
+                    objectUrl: URL.createObjectURL(file),
+                    name: 'Upscaled Image',
+                    opacity: 100,
+                    blendMode: 'normal',
+                    transform: identityTransform,
+                    mask: null,
+                    group: null,
+                    text: null,
+                    isVisible: true,
+                };
+                commitChanges([upscaledLayer], {
+                    documentSize: { width: documentSize!.width * factor, height: documentSize!.height * factor },
+                });
+                setActiveLayerId(upscaledLayer.id);
+            }
+            setSuccessMessage(`เพิ่มความละเอียด ${factor}× สำเร็จแล้ว!`);
+        },
+        { failureTitle: 'เพิ่มความละเอียดไม่สำเร็จ', retry: () => handleApplyUpscale(target, factor) },
+    );
+  }, [activeLayer, layers, documentSize, flattenLayersForCrop, provider, commitChanges, runDocumentOperation, checkRasterized]);
   
   const handleUndo = useCallback(() => {
     if (canUndo) {
         const newIndex = historyIndex - 1;
         setHistoryIndex(newIndex);
-        setLayers(history[newIndex]);
+        setLayers(history[newIndex].layers);
+        setDocumentSize(history[newIndex].documentSize);
     }
   }, [canUndo, historyIndex, history]);
   
@@ -460,7 +1307,8 @@ const App: React.FC = () => {
     if (canRedo) {
         const newIndex = historyIndex + 1;
         setHistoryIndex(newIndex);
-        setLayers(history[newIndex]);
+        setLayers(history[newIndex].layers);
+        setDocumentSize(history[newIndex].documentSize);
     }
   }, [canRedo, historyIndex, history]);
 
@@ -474,6 +1322,7 @@ const App: React.FC = () => {
     } else {
       // If last layer is deleted, reset the app state
       setLayers([]);
+      setDocumentSize(null);
       setHistory([]);
       setHistoryIndex(-1);
       setActiveLayerId(null);
@@ -494,11 +1343,177 @@ const App: React.FC = () => {
   const commitOpacityChange = useCallback(() => {
     // This function can be called on mouse up from the slider to commit to history
     const newHistory = history.slice(0, historyIndex + 1);
-    newHistory.push(layers);
+    newHistory.push({ layers, documentSize: history[historyIndex].documentSize });
     setHistory(newHistory);
     setHistoryIndex(newHistory.length - 1);
   }, [history, historyIndex, layers]);
 
+  const handleLayerBlendModeChange = useCallback((id: string, blendMode: BlendMode) => {
+    commitChanges(layers.map(l => l.id === id ? { ...l, blendMode } : l));
+  }, [layers, commitChanges]);
+
+  const handleLayerTransformChange = useCallback((id: string, transform: LayerTransform) => {
+    setTransformDraft(null);
+    commitChanges(layers.map(l => l.id === id ? { ...l, transform } : l));
+  }, [layers, commitChanges]);
+
+  // Puts the active layer in a new group of its own
+  const handleCreateGroup = useCallback(() => {
+    if (!activeLayer || activeLayer.group) return;
+    const groupCount = new Set(layers.flatMap(l => l.group ? [l.group.id] : [])).size;
+    const group = createLayerGroup(`กลุ่ม ${groupCount + 1}`);
+    commitChanges(layers.map(l => l.id === activeLayer.id ? { ...l, group } : l));
+  }, [activeLayer, layers, commitChanges]);
+
+  const handleUngroup = useCallback((groupId: string) => {
+    commitChanges(layers.map(l => l.group?.id === groupId ? { ...l, group: null } : l));
+  }, [layers, commitChanges]);
+
+  const handleGroupChange = useCallback((groupId: string, changes: Partial<LayerGroup>) => {
+    commitChanges(updateGroup(layers, groupId, changes));
+  }, [layers, commitChanges]);
+
+  const handleGroupOpacityChange = useCallback((groupId: string, opacity: number) => {
+    // Like layer opacity, slider moves don't each add a history entry
+    commitChanges(updateGroup(layers, groupId, { opacity }), { addToHistory: false });
+  }, [layers, commitChanges]);
+
+  const updateActiveLayerMask = useCallback((mask: LayerMask | null) => {
+    if (!activeLayer) return;
+    commitChanges(layers.map(l => l.id === activeLayer.id ? { ...l, mask } : l));
+  }, [activeLayer, layers, commitChanges]);
+
+  // Runs a quick local mask operation, reporting failures without blocking the editor
+  const runMaskOperation = useCallback(async (work: () => Promise<LayerMask | null>) => {
+    setIsLoading(true);
+    try {
+        updateActiveLayerMask(await work());
+    } catch (err) {
+        console.error(err);
+        setError({ message: 'แก้ไขมาสก์เลเยอร์ไม่สำเร็จ' });
+    } finally {
+        setIsLoading(false);
+    }
+  }, [updateActiveLayerMask]);
+
+  const handleAddLayerMask = useCallback((reveal: boolean) => {
+    if (!activeLayerSize) return;
+    runMaskOperation(async () => createLayerMask(await createFilledMask(activeLayerSize, reveal)));
+  }, [activeLayerSize, runMaskOperation]);
+
+  const handleLayerMaskPaint = useCallback((file: File) => {
+    if (!activeLayer?.mask) return;
+    updateActiveLayerMask({ ...createLayerMask(file), enabled: activeLayer.mask.enabled });
+  }, [activeLayer, updateActiveLayerMask]);
+
+  // The retouch tab's box or painted mask, whichever mode is active, can seed the layer mask
+  const retouchSelection = retouchMode === 'box' ? editBox : retouchMode === 'mask' ? retouchMask : null;
+  const handleFillLayerMaskFromSelection = useCallback(() => {
+    if (!activeLayerSize || !retouchSelection) return;
+    runMaskOperation(async () => createLayerMask(retouchSelection instanceof File
+        ? await normalizeMask(retouchSelection, activeLayerSize)
+        : await createRectMask(activeLayerSize, retouchSelection)));
+  }, [activeLayerSize, retouchSelection, runMaskOperation]);
+
+  const handleFillLayerMaskFromSubject = useCallback(async () => {
+    if (!activeLayer || !activeLayerSize) return;
+    await runDocumentOperation(
+        async signal => {
+            const maskUrl = await provider.generateSubjectMask(activeLayer.file, '', signal);
+            return normalizeMask(maskUrl, activeLayerSize);
+        },
+        file => updateActiveLayerMask(createLayerMask(file)),
+        { failureTitle: 'เลือกวัตถุไม่สำเร็จ', retry: () => handleFillLayerMaskFromSubject() },
+    );
+  }, [activeLayer, activeLayerSize, provider, runDocumentOperation, updateActiveLayerMask]);
+
+  const handleInvertLayerMask = useCallback(() => {
+    const mask = activeLayer?.mask;
+    if (!mask || !activeLayerSize) return;
+    runMaskOperation(async () => ({ ...createLayerMask(await normalizeMask(mask.file, activeLayerSize, true)), enabled: mask.enabled }));
+  }, [activeLayer, activeLayerSize, runMaskOperation]);
+
+  const handleToggleLayerMask = useCallback(() => {
+    if (!activeLayer?.mask) return;
+    updateActiveLayerMask({ ...activeLayer.mask, enabled: !activeLayer.mask.enabled });
+  }, [activeLayer, updateActiveLayerMask]);
+
+  // Bakes the mask into the layer's alpha, for tools that only see the layer's pixels
+  const handleApplyLayerMask = useCallback(async () => {
+    const mask = activeLayer?.mask;
+    if (!activeLayer || !mask) return;
+    setIsLoading(true);
+    try {
+        const maskedUrl = await applyMaskAsAlpha(activeLayer.file, mask.file, defaultMaskRefinement);
+        const file = dataURLtoFile(maskedUrl, `masked-${Date.now()}.png`);
+        // Baked pixels can't be re-rendered, so a text layer becomes a plain image layer
+        commitChanges(layers.map(l => l.id === activeLayer.id ? { ...l, file, objectUrl: URL.createObjectURL(file), mask: null, text: null } : l));
+    } catch (err) {
+        console.error(err);
+        setError({ message: 'ใช้มาสก์กับภาพไม่สำเร็จ' });
+    } finally {
+        setIsLoading(false);
+    }
+  }, [activeLayer, layers, commitChanges]);
+
+  const handleLayerMaskSelect = useCallback((id: string) => {
+    setActiveLayerId(id);
+    setActiveTab('layer-mask');
+  }, []);
+
+  const handleAddTextLayer = useCallback(async (text: TextLayerContent) => {
+    if (!documentSize) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+        const file = await rasterizeText(text);
+        const img = await loadImage(file);
+        const newLayer: Layer = {
+            id: `layer-${Date.now()}`,
+            file,
+            objectUrl: URL.createObjectURL(file),
+            name: getTextLayerName(text),
+            opacity: 100,
+            blendMode: 'normal',
+            // One image pixel per document pixel, so the font size is in document pixels
+            transform: withPixelScale({ width: img.naturalWidth, height: img.naturalHeight }, documentSize, 1, identityTransform),
+            mask: null,
+            group: null,
+            text,
+            isVisible: true,
+        };
+        commitChanges([...layers, newLayer]);
+        setActiveLayerId(newLayer.id);
+    } catch (err) {
+        console.error(err);
+        setError({ message: 'เพิ่มข้อความไม่สำเร็จ' });
+    } finally {
+        setIsLoading(false);
+    }
+  }, [documentSize, layers, commitChanges]);
+
+  // Re-renders a text layer in place; its image grows or shrinks with the text, but the text keeps its size in the document
+  const handleUpdateTextLayer = useCallback(async (id: string, text: TextLayerContent) => {
+    const layer = layers.find(l => l.id === id);
+    if (!layer?.text || !documentSize) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+        const [oldImg, file] = await Promise.all([loadImage(layer.file), rasterizeText(text)]);
+        const newImg = await loadImage(file);
+        const pixelScale = getPixelScale({ width: oldImg.naturalWidth, height: oldImg.naturalHeight }, documentSize, layer.transform);
+        const transform = withPixelScale({ width: newImg.naturalWidth, height: newImg.naturalHeight }, documentSize, pixelScale, layer.transform);
+        // Layers the user renamed keep their name
+        const name = layer.name === getTextLayerName(layer.text) ? getTextLayerName(text) : layer.name;
+        commitChanges(layers.map(l => l.id === id ? { ...l, file, objectUrl: URL.createObjectURL(file), transform, name, text } : l));
+    } catch (err) {
+        console.error(err);
+        setError({ message: 'แก้ไขข้อความไม่สำเร็จ' });
+    } finally {
+        setIsLoading(false);
+    }
+  }, [documentSize, layers, commitChanges]);
+
   const handleLayerVisibilityChange = useCallback((id: string) => {
     const newLayers = layers.map(l => l.id === id ? { ...l, isVisible: !l.isVisible } : l);
     commitChanges(newLayers);
@@ -509,6 +1524,63 @@ const App: React.FC = () => {
       handleImageUpload(files[0]);
     }
   }, [handleImageUpload]);
+
+  /**
+   * Creates an image from a text prompt, either as a new layer the size of
+   * the document or as a new document at the chosen aspect ratio. A layer
+   * with a different ratio is centred on a transparent background.
+   */
+  const handleGenerateFromText = useCallback(async (request: TextToImageRequest) => {
+    // A new layer is framed to the document; a new document to the chosen ratio
+    const layerFrame = request.target === 'layer' ? documentSize : null;
+
+    await runDocumentOperation(
+        async signal => {
+            let aspectRatio: AspectRatio = request.aspectRatio === 'document' ? '1:1' : request.aspectRatio;
+            let frame = getAspectRatioSize(aspectRatio);
+            let area: Rect | undefined;
+            if (layerFrame) {
+                frame = layerFrame;
+                if (request.aspectRatio === 'document') {
+                    aspectRatio = closestAspectRatio(frame);
+                } else {
+                    area = placeOutput(getAspectRatioSize(aspectRatio), frame, 'fit');
+                }
+            }
+
+            const resultUrl = await provider.generateImageFromText(request.prompt, aspectRatio, isTransparent, signal);
+            return dataURLtoFile(await frameGeneratedImage(resultUrl, frame, area), `generated-${Date.now()}.png`);
+        },
+        file => {
+            if (layerFrame) {
+                handleAddLayer(file, request.layerName);
+            } else {
+                handleImageUpload(file);
+            }
+            setSuccessMessage('สร้างภาพจากข้อความสำเร็จแล้ว!');
+            setShowGenerateModal(false);
+        },
+        { failureTitle: 'สร้างภาพไม่สำเร็จ', retry: () => handleGenerateFromText(request) },
+    );
+  }, [documentSize, isTransparent, provider, handleAddLayer, handleImageUpload, runDocumentOperation]);
+
+  // Closing the dialog mid-generation cancels the request
+  const handleCloseGenerateModal = useCallback(() => {
+    if (isLoading) handleCancelOperation();
+    setShowGenerateModal(false);
+  }, [isLoading, handleCancelOperation]);
+
+  const generateImageModal = showGenerateModal && (
+    <GenerateImageModal
+      canAddLayer={layers.length > 0}
+      defaultLayerName={`Layer ${layers.length}`}
+      isTransparent={isTransparent}
+      onTransparentChange={setIsTransparent}
+      isLoading={isLoading}
+      onGenerate={handleGenerateFromText}
+      onClose={handleCloseGenerateModal}
+    />
+  );
   
   // Prepare for cropping when switching to the crop tab
   useEffect(() => {
@@ -528,19 +1600,86 @@ const App: React.FC = () => {
     }
   };
   
+  // The document is drawn `object-contain` in the container, and each layer is placed in it by its transform
+  const documentRect = containerSize && displayedDocumentSize ? getContainedRect(containerSize, displayedDocumentSize) : null;
+  const getLayerTransform = (layer: Layer) =>
+    transformDraft?.layerId === layer.id ? transformDraft.transform : layer.transform;
+  const activePlacement = activeLayer && activeLayerSize && documentSize
+    ? getLayerPlacement(activeLayerSize, documentSize, getLayerTransform(activeLayer))
+    : null;
+
+  // Maps a pointer position into the active layer's natural pixels
+  const clientToActiveLayer = (client: Point): Point | null => {
+    const bounds = documentRef.current?.getBoundingClientRect();
+    if (!bounds || !documentRect || !activePlacement || !activeLayerSize) return null;
+    const documentPoint = { x: (client.x - bounds.left) / documentRect.scale, y: (client.y - bounds.top) / documentRect.scale };
+    return documentToLayer(documentPoint, activePlacement, activeLayerSize);
+  };
+
   const handleImageClick = (e: React.MouseEvent<HTMLDivElement>) => {
-    if (activeTab !== 'retouch') return;
-    
-    const rect = imageContainerRef.current?.getBoundingClientRect();
-    if (!rect) return;
+    if (activeTab !== 'retouch' || isChatMode || retouchMode !== 'point' || !activeLayerSize) return;
     
-    const x = Math.round(e.clientX - rect.left);
-    const y = Math.round(e.clientY - rect.top);
+    // Clicks outside the active layer don't pick a spot
+    const point = clientToActiveLayer({ x: e.clientX, y: e.clientY });
+    if (!point || !isInsideImage(point, activeLayerSize)) return;
     
-    setEditHotspot({ x, y });
-    setDisplayHotspot({ x, y });
+    setEditHotspot(point);
+  };
+
+  // In the text tab, double-clicking a text layer edits it in place; the topmost one under the pointer wins
+  const handleImageDoubleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const bounds = documentRef.current?.getBoundingClientRect();
+    if (activeTab !== 'text' || isComparing || isLoading || !bounds || !documentRect || !documentSize) return;
+    const documentPoint = { x: (e.clientX - bounds.left) / documentRect.scale, y: (e.clientY - bounds.top) / documentRect.scale };
+    const target = [...layers].reverse().find(layer => {
+        const size = imageSizes[layer.objectUrl];
+        if (!layer.text || !isLayerShown(layer) || !size) return false;
+        return isInsideImage(documentToLayer(documentPoint, getLayerPlacement(size, documentSize, layer.transform), size), size);
+    });
+    if (!target) return;
+    setActiveLayerId(target.id);
+    setEditingTextLayerId(target.id);
   };
+
+  const editingTextLayer = activeTab === 'text' && !isComparing && activeLayer?.id === editingTextLayerId && activeLayer.text ? activeLayer : null;
+
+  // On-screen size of the active layer before rotation; the retouch overlays are laid out in it
+  const activeLayerDisplaySize = activePlacement && documentRect
+    ? { width: activePlacement.width * documentRect.scale, height: activePlacement.height * documentRect.scale }
+    : null;
+  const displayHotspot = editHotspot && activeLayerSize && activeLayerDisplaySize
+    ? imageToContainer(editHotspot, activeLayerDisplaySize, activeLayerSize)
+    : null;
   
+  // One layer of the preview, placed in a document drawn at `displayScale`
+  const renderLayerImage = (layer: Layer, displayScale: number) => {
+    const src = !isComparing && pendingVariations && previewVariationIndex !== null && layer.id === pendingVariations.layerId
+        ? pendingVariations.results[previewVariationIndex].url
+        : layer.objectUrl;
+    const size = imageSizes[src];
+    const placement = size && displayedDocumentSize && getLayerPlacement(size, displayedDocumentSize, getLayerTransform(layer));
+    return (
+      <img
+        key={layer.id}
+        src={src}
+        alt={layer.name}
+        onLoad={(e) => {
+          const { naturalWidth: width, naturalHeight: height } = e.currentTarget;
+          setImageSizes(sizes => ({ ...sizes, [src]: { width, height } }));
+        }}
+        style={{
+          ...(placement ? placementStyle(placement, displayScale) : { visibility: 'hidden' }),
+          ...maskStyle(layer.mask),
+          // The in-place editor shows the text instead while it is being edited
+          ...(layer.id === editingTextLayer?.id && { visibility: 'hidden' }),
+          opacity: layer.opacity / 100,
+          mixBlendMode: layer.blendMode,
+        }}
+        className="absolute max-w-none pointer-events-none"
+      />
+    );
+  };
+
   const handleExport = useCallback(() => {
     setIsLoading(true);
     flattenLayersForCrop()
@@ -550,12 +1689,12 @@ const App: React.FC = () => {
             setFileToExport(file);
             setShowExportModal(true);
         } else {
-            setError("Could not prepare image for export.");
+            setError({ message: "Could not prepare image for export." });
         }
       })
       .catch(err => {
         console.error("Export failed:", err);
-        setError("Could not prepare image for export.");
+        setError({ message: "Could not prepare image for export." });
       })
       .finally(() => {
         setIsLoading(false);
@@ -563,11 +1702,20 @@ const App: React.FC = () => {
   }, [flattenLayersForCrop]);
 
 
+  const handleCloseBatchModal = useCallback(() => setShowBatchModal(false), []);
+
+  const batchModal = showBatchModal && (
+    <BatchModal provider={provider} isTransparent={isTransparent} outputFitMode={outputFitMode} onClose={handleCloseBatchModal} />
+  );
+
   if (layers.length === 0) {
     return (
         <div className="min-h-screen bg-gray-900 text-gray-100 flex flex-col items-center justify-center p-4">
+            {error && <ErrorToast message={error.message} reason={error.reason} action={error.action} onAction={error.onAction} onClose={() => setError(null)} />}
+            {generateImageModal}
+            {batchModal}
             <main className="w-full flex-grow flex items-center justify-center">
-                <StartScreen onFileSelect={handleFileSelect} />
+                <StartScreen onFileSelect={handleFileSelect} onGenerate={() => setShowGenerateModal(true)} onBatch={() => setShowBatchModal(true)} />
             </main>
         </div>
     );
@@ -575,10 +1723,14 @@ const App: React.FC = () => {
   
   return (
     <div className="min-h-screen bg-gray-900 text-gray-100 flex flex-col items-center p-4">
-      <Header />
-      {error && <ErrorToast message={error} onClose={() => setError(null)} />}
+      <Header providerName={provider.id === 'local' ? provider.displayName : undefined} />
+      {error && <ErrorToast message={error.message} reason={error.reason} action={error.action} onAction={error.onAction} onClose={() => setError(null)} />}
       {successMessage && <SuccessToast message={successMessage} onClose={() => setSuccessMessage(null)} />}
-      {showExportModal && <ExportModal imageFile={fileToExport} onClose={() => setShowExportModal(false)} />}
+      {showExportModal && <ExportModal imageFile={fileToExport} defaultAltText={exportAltText} onClose={() => setShowExportModal(false)} />}
+      {showCacheModal && <CacheModal onClose={() => setShowCacheModal(false)} />}
+      {promptPreview && <DebugModal prompt={promptPreview} onClose={() => setPromptPreview(null)} />}
+      {generateImageModal}
+      {batchModal}
       
       <main className="w-full max-w-7xl flex-grow flex flex-col md:flex-row gap-4">
         {/* Left Panel */}
@@ -588,9 +1740,16 @@ const App: React.FC = () => {
                 activeLayerId={activeLayerId}
                 onLayerSelect={setActiveLayerId}
                 onLayerAdd={handleAddLayer}
+                onLayerGenerate={() => setShowGenerateModal(true)}
                 onLayerDelete={handleDeleteLayer}
                 onLayerReorder={handleReorderLayers}
                 onLayerOpacityChange={handleLayerOpacityChange}
+                onLayerBlendModeChange={handleLayerBlendModeChange}
+                onLayerMaskSelect={handleLayerMaskSelect}
+                onGroupCreate={handleCreateGroup}
+                onGroupUngroup={handleUngroup}
+                onGroupChange={handleGroupChange}
+                onGroupOpacityChange={handleGroupOpacityChange}
                 onLayerVisibilityChange={handleLayerVisibilityChange}
                 isLoading={isLoading}
             />
@@ -603,7 +1762,53 @@ const App: React.FC = () => {
                     </div>
                 </label>
                 <p className="text-xs text-gray-400">เมื่อเปิดใช้งาน, AI จะพยายามสร้างผลลัพธ์ที่มีพื้นหลังโปร่งใส (เหมาะสำหรับ 'ลบพื้นหลัง')</p>
+                <div className="flex items-center justify-between pt-2 mt-1 border-t border-gray-700">
+                    <span className="text-base font-semibold text-gray-300">จำนวนแบบ</span>
+                    <div className="flex items-center gap-1 bg-gray-900/50 p-1 rounded-lg">
+                        {Array.from({ length: MAX_VARIATIONS }, (_, i) => i + 1).map(count => (
+                            <button
+                                key={count}
+                                onClick={() => setVariationCount(count)}
+                                disabled={isLoading}
+                                className={`w-8 py-1 rounded-md text-sm font-semibold transition-colors disabled:opacity-50 ${variationCount === count ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-white/10'}`}
+                            >
+                                {count}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+                <p className="text-xs text-gray-400">สร้างผลลัพธ์หลายแบบพร้อมกัน แล้วเลือกแบบที่ชอบ</p>
+                <div className="flex items-center justify-between pt-2 mt-1 border-t border-gray-700">
+                    <label htmlFor="output-fit-mode" className="text-base font-semibold text-gray-300">เมื่อสัดส่วนไม่ตรง</label>
+                    <select
+                        id="output-fit-mode"
+                        value={outputFitMode}
+                        onChange={(e) => setOutputFitMode(e.target.value as OutputFitMode)}
+                        disabled={isLoading}
+                        className="bg-gray-900/50 border border-gray-600 text-gray-200 rounded-md p-1 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none disabled:opacity-50"
+                    >
+                        {(Object.keys(outputFitModeNames) as OutputFitMode[]).map(mode => (
+                            <option key={mode} value={mode}>{outputFitModeNames[mode]}</option>
+                        ))}
+                    </select>
+                </div>
+                <p className="text-xs text-gray-400">ผลลัพธ์จาก AI จะถูกปรับให้มีขนาดเท่ากับเลเยอร์เดิมเสมอ โหมดนี้ใช้เมื่อ AI ส่งภาพที่สัดส่วนต่างออกไป</p>
+                <label className="flex items-center justify-between cursor-pointer pt-2 mt-1 border-t border-gray-700">
+                    <span className="text-base font-semibold text-gray-300">ข้ามแคช</span>
+                    <div className="relative">
+                        <input type="checkbox" checked={isCacheBypassed} onChange={() => setIsCacheBypassed(!isCacheBypassed)} className="sr-only peer" />
+                        <div className="w-11 h-6 bg-gray-600 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-0.5 after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
+                    </div>
+                </label>
+                <p className="text-xs text-gray-400">คำสั่งที่เคยทำกับภาพเดิมจะใช้ผลลัพธ์จากแคช เปิดตัวเลือกนี้เพื่อให้ AI สร้างใหม่ทุกครั้ง</p>
+                <button onClick={() => setShowCacheModal(true)} className="self-start text-sm text-gray-400 hover:text-gray-200 underline underline-offset-2 transition-colors">
+                    จัดการแคช
+                </button>
+                <button onClick={() => setShowBatchModal(true)} className="self-start text-sm text-gray-400 hover:text-gray-200 underline underline-offset-2 transition-colors">
+                    ประมวลผลหลายภาพ
+                </button>
             </div>
+            {provider.id === 'gemini' && <UsagePanel />}
         </div>
 
         {/* Center Panel: Image and Toolbar */}
@@ -653,7 +1858,15 @@ const App: React.FC = () => {
             {isLoading && (
               <div className="absolute inset-0 bg-black/70 z-20 flex flex-col items-center justify-center gap-4 backdrop-blur-sm">
                 <Spinner />
-                <p className="text-lg font-semibold text-gray-300 animate-pulse">AI กำลังทำงาน...</p>
+                <p className="text-lg font-semibold text-gray-300 animate-pulse">{loadingMessage ?? 'AI กำลังทำงาน...'}</p>
+                {isCancellable && (
+                  <button
+                    onClick={handleCancelOperation}
+                    className="bg-white/10 text-gray-200 font-semibold py-2 px-6 rounded-lg transition-colors hover:bg-white/20"
+                  >
+                    ยกเลิก
+                  </button>
+                )}
               </div>
             )}
             
@@ -674,34 +1887,117 @@ const App: React.FC = () => {
                     />
                 </ReactCrop>
             ) : (
-                <div ref={imageContainerRef} className="relative w-full h-full" onClick={handleImageClick}>
-                    {currentLayersToDisplay.map(layer => (
-                        layer.isVisible && (
-                            <img
-                                key={layer.id}
-                                src={layer.objectUrl}
-                                alt={layer.name}
-                                style={{ opacity: layer.opacity / 100 }}
-                                className="absolute top-0 left-0 w-full h-full object-contain pointer-events-none"
+                <div ref={imageContainerRef} className="relative w-full h-full" onClick={handleImageClick} onDoubleClick={handleImageDoubleClick}>
+                  {documentRect && (
+                    <div
+                      ref={documentRef}
+                      className="absolute"
+                      style={{ left: documentRect.x, top: documentRect.y, width: documentRect.width, height: documentRect.height }}
+                    >
+                      <div className="absolute inset-0 overflow-hidden isolate">
+                        {buildLayerStack<Layer>(currentLayersToDisplay).map(item => item.kind === 'layer'
+                          ? item.layer.isVisible && renderLayerImage(item.layer, documentRect.scale)
+                          : item.group.isVisible && (
+                            <div
+                              key={item.group.id}
+                              className="absolute inset-0 isolate"
+                              style={{ opacity: item.group.opacity / 100, mixBlendMode: item.group.blendMode }}
+                            >
+                              {item.layers.map(layer => layer.isVisible && renderLayerImage(layer, documentRect.scale))}
+                            </div>
+                          ))}
+                        {activeTab === 'retouch' && !isChatMode && activePlacement && activeLayerSize && activeLayerDisplaySize && (
+                          <div className="absolute z-10" style={placementStyle(activePlacement, documentRect.scale)}>
+                            {retouchMode === 'mask' && !isComparing && (
+                              <MaskCanvas
+                                key={maskResetKey}
+                                width={activeLayerSize.width}
+                                height={activeLayerSize.height}
+                                brushSize={brushSize}
+                                isErasing={isErasing}
+                                toImagePoint={clientToActiveLayer}
+                                onMaskChange={setRetouchMask}
+                              />
+                            )}
+                            {retouchMode === 'box' && !isComparing && (
+                              <BoxSelector
+                                naturalSize={activeLayerSize}
+                                containerSize={activeLayerDisplaySize}
+                                box={editBox}
+                                onBoxChange={setEditBox}
+                                toImagePoint={clientToActiveLayer}
+                              />
+                            )}
+                            {retouchMode === 'point' && displayHotspot && (
+                              <div
+                                className="absolute z-10 pointer-events-none"
+                                style={{ left: `${displayHotspot.x}px`, top: `${displayHotspot.y}px`, transform: 'translate(-50%, -50%)' }}
+                              >
+                                <div className="w-8 h-8 rounded-full border-2 border-white bg-blue-500/50"></div>
+                                <div className="w-8 h-8 rounded-full border-2 border-white absolute top-0 left-0 animate-pulse-ring"></div>
+                              </div>
+                            )}
+                          </div>
+                        )}
+                        {activeTab === 'layer-mask' && activeLayer?.mask && activePlacement && activeLayerSize && !isComparing && (
+                          <div className="absolute z-10" style={placementStyle(activePlacement, documentRect.scale)}>
+                            <LayerMaskCanvas
+                              maskUrl={activeLayer.mask.objectUrl}
+                              width={activeLayerSize.width}
+                              height={activeLayerSize.height}
+                              brushSize={brushSize}
+                              isHiding={isMaskHiding}
+                              toImagePoint={clientToActiveLayer}
+                              onMaskChange={handleLayerMaskPaint}
                             />
-                        )
-                    ))}
-                    {displayHotspot && activeTab === 'retouch' && (
-                      <div
-                        className="absolute z-10 pointer-events-none"
-                        style={{ left: `${displayHotspot.x}px`, top: `${displayHotspot.y}px`, transform: 'translate(-50%, -50%)' }}
-                      >
-                        <div className="w-8 h-8 rounded-full border-2 border-white bg-blue-500/50"></div>
-                        <div className="w-8 h-8 rounded-full border-2 border-white absolute top-0 left-0 animate-pulse-ring"></div>
+                          </div>
+                        )}
                       </div>
-                    )}
+                      {activeTab === 'transform' && activeLayer && isLayerShown(activeLayer) && activePlacement && activeLayerSize && documentSize && !isComparing && !isLoading && (
+                        <TransformHandles
+                          placement={activePlacement}
+                          displayScale={documentRect.scale}
+                          naturalSize={activeLayerSize}
+                          documentSize={documentSize}
+                          onChange={transform => setTransformDraft({ layerId: activeLayer.id, transform })}
+                          onCommit={transform => handleLayerTransformChange(activeLayer.id, transform)}
+                        />
+                      )}
+                      {editingTextLayer?.text && activePlacement && activeLayerSize && (
+                        <div className="absolute z-10" style={placementStyle(activePlacement, documentRect.scale)}>
+                          <TextLayerEditor
+                            key={editingTextLayer.id}
+                            text={editingTextLayer.text}
+                            fontScale={activePlacement.width / activeLayerSize.width * documentRect.scale}
+                            onCommit={content => {
+                              setEditingTextLayerId(null);
+                              handleUpdateTextLayer(editingTextLayer.id, { ...editingTextLayer.text!, content });
+                            }}
+                            onCancel={() => setEditingTextLayerId(null)}
+                          />
+                        </div>
+                      )}
+                    </div>
+                  )}
                 </div>
             )}
           </div>
+          {pendingVariations && (
+            <VariationPicker
+                key={pendingVariations.results[0].url}
+                variationUrls={pendingVariations.results.map(r => r.url)}
+                previewIndex={previewVariationIndex}
+                onPreview={setPreviewVariationIndex}
+                onKeepOne={handleKeepVariation}
+                onKeepAsLayers={handleKeepVariationsAsLayers}
+                onDiscard={() => discardPendingVariations()}
+                isLoading={isLoading}
+            />
+          )}
         </div>
 
         {/* Right Panel */}
-        <div className="w-full md:w-96 flex-shrink-0 flex flex-col gap-4">
+        <div ref={toolPanelRef} className="w-full md:w-96 flex-shrink-0 flex flex-col gap-4">
             <div className="grid grid-cols-3 gap-1 bg-gray-800/50 border border-gray-700 rounded-lg p-1 backdrop-blur-sm">
                 {(Object.keys(tabDisplayNames) as Tab[]).map(tab => (
                     <button
@@ -714,82 +2010,200 @@ const App: React.FC = () => {
                     </button>
                 ))}
             </div>
+
+            {(activeTab === 'retouch' || activeTab === 'filters' || activeTab === 'adjust') && (
+              <ImageAnalysisPanel
+                analysis={activeImageAnalysis}
+                onAnalyze={handleAnalyzeImage}
+                onSelectObject={activeTab === 'retouch' ? handleSelectAnalyzedObject : undefined}
+                isLoading={isLoading}
+              />
+            )}
             
             {activeTab === 'retouch' && (
                 <div className="w-full bg-gray-800/50 border border-gray-700 rounded-lg p-4 flex flex-col gap-4 animate-fade-in backdrop-blur-sm">
                   <h3 className="text-lg font-semibold text-center text-gray-300">รีทัชด้วย AI</h3>
-                  <p className="text-sm text-center text-gray-400 -mt-2">คลิกบนภาพเพื่อเลือกพื้นที่ แล้วอธิบายการแก้ไขของคุณ</p>
-                  <div className="flex items-center gap-2">
-                    <textarea
-                      value={prompt}
-                      onChange={(e) => setPrompt(e.target.value)}
-                      placeholder="เช่น 'ลบคนนี้ออก' หรือ 'เพิ่มหมวกให้หน่อย'"
-                      className="flex-grow bg-gray-800 border border-gray-600 text-gray-200 rounded-lg p-4 focus:ring-2 focus:ring-blue-500 focus:outline-none transition w-full h-24 resize-none disabled:cursor-not-allowed disabled:opacity-60"
-                      disabled={isLoading}
-                    />
-                  </div>
-                  <input
-                      type="text"
-                      value={additionalPrompt}
-                      onChange={(e) => setAdditionalPrompt(e.target.value)}
-                      placeholder="คำสั่งเพิ่มเติม (ไม่บังคับ)"
-                      className="flex-grow bg-gray-800 border border-gray-600 text-gray-200 rounded-lg p-3 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none transition w-full disabled:cursor-not-allowed disabled:opacity-60"
-                      disabled={isLoading}
-                  />
-                  <div className="flex items-center gap-3">
-                      <label htmlFor="retouch-scale" className="text-sm font-medium text-gray-400">ขนาด:</label>
-                      <input id="retouch-scale" type="range" min="50" max="150" value={retouchScale} onChange={(e) => setRetouchScale(parseInt(e.target.value))} className="flex-grow" disabled={isLoading}/>
-                      <span className="text-sm font-mono text-gray-300">{retouchScale}%</span>
+                  <div className="grid grid-cols-2 gap-1 bg-gray-900/50 p-1 rounded-lg">
+                    {[false, true].map(chat => (
+                      <button
+                        key={String(chat)}
+                        onClick={() => setIsChatMode(chat)}
+                        disabled={isLoading}
+                        className={`w-full font-semibold py-2 rounded-md transition-all duration-200 text-sm ${isChatMode === chat ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-white/10'}`}
+                      >
+                        {chat ? 'โหมดสนทนา' : 'คำสั่งเดียว'}
+                      </button>
+                    ))}
                   </div>
-                  <button
-                    onClick={handleGenerate}
-                    className="w-full bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-4 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-blue-500/20 hover:shadow-xl hover:shadow-blue-500/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-blue-800 disabled:to-blue-700 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
-                    disabled={isLoading || !prompt.trim() || !editHotspot}
-                  >
-                    <div className="flex items-center justify-center gap-2">
-                      <MagicWandIcon className="w-5 h-5"/>
-                      <span>สร้างภาพ</span>
-                    </div>
-                  </button>
+                  {isChatMode ? (
+                    <>
+                      <p className="text-sm text-center text-gray-400 -mt-2">พิมพ์คำสั่งทีละขั้น AI จะจำภาพและคำสั่งก่อนหน้าในบทสนทนานี้</p>
+                      <ChatPanel
+                        session={chatSession?.layerId === activeLayer?.id ? chatSession : null}
+                        onSend={handleSendChatMessage}
+                        onBranch={handleChatBranch}
+                        onSwitchBranch={handleChatSwitchBranch}
+                        onReset={handleResetChat}
+                        isLoading={isLoading}
+                      />
+                    </>
+                  ) : (
+                    <>
+                      <p className="text-sm text-center text-gray-400 -mt-2">{retouchModeHints[retouchMode]}</p>
+                      <div className="grid grid-cols-3 gap-1 bg-gray-900/50 p-1 rounded-lg">
+                        {(Object.keys(retouchModeNames) as RetouchMode[]).map(mode => (
+                          <button
+                            key={mode}
+                            onClick={() => setRetouchMode(mode)}
+                            disabled={isLoading}
+                            className={`w-full font-semibold py-2 rounded-md transition-all duration-200 text-sm ${retouchMode === mode ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-white/10'}`}
+                          >
+                            {retouchModeNames[mode]}
+                          </button>
+                        ))}
+                      </div>
+                      {retouchMode === 'mask' && (
+                        <div className="flex flex-col gap-3 p-3 bg-gray-900/40 border border-gray-700/60 rounded-lg">
+                          <div className="flex items-center gap-3">
+                            <label htmlFor="brush-size" className="text-sm font-medium text-gray-400">แปรง:</label>
+                            <input id="brush-size" type="range" min="5" max="120" value={brushSize} onChange={(e) => setBrushSize(parseInt(e.target.value))} className="flex-grow" disabled={isLoading}/>
+                            <span className="text-sm font-mono text-gray-300">{brushSize}px</span>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <button
+                              onClick={() => setIsErasing(!isErasing)}
+                              disabled={isLoading}
+                              className={`flex-grow text-sm font-semibold py-2 rounded-md transition-colors disabled:opacity-50 ${isErasing ? 'bg-blue-600 text-white' : 'bg-white/10 text-gray-200 hover:bg-white/20'}`}
+                            >
+                              ยางลบ
+                            </button>
+                            <button
+                              onClick={() => { setRetouchMask(null); setMaskResetKey(key => key + 1); }}
+                              disabled={isLoading || !retouchMask}
+                              className="flex-grow text-sm font-semibold text-red-400 hover:text-red-300 bg-red-500/10 hover:bg-red-500/20 py-2 rounded-md transition-colors disabled:opacity-50"
+                            >
+                              ล้างมาสก์
+                            </button>
+                          </div>
+                        </div>
+                      )}
+                      <SuggestionChips
+                        suggestions={activeImageAnalysis?.suggestions.filter(suggestion => suggestion.tool === 'retouch') ?? []}
+                        onSelect={setPrompt}
+                        isLoading={isLoading}
+                      />
+                      <div className="flex items-center gap-2">
+                        <textarea
+                          value={prompt}
+                          onChange={(e) => setPrompt(e.target.value)}
+                          placeholder="เช่น 'ลบคนนี้ออก' หรือ 'เพิ่มหมวกให้หน่อย'"
+                          className="flex-grow bg-gray-800 border border-gray-600 text-gray-200 rounded-lg p-4 focus:ring-2 focus:ring-blue-500 focus:outline-none transition w-full h-24 resize-none disabled:cursor-not-allowed disabled:opacity-60"
+                          disabled={isLoading}
+                        />
+                      </div>
+                      <input
+                          type="text"
+                          value={additionalPrompt}
+                          onChange={(e) => setAdditionalPrompt(e.target.value)}
+                          placeholder="คำสั่งเพิ่มเติม (ไม่บังคับ)"
+                          className="flex-grow bg-gray-800 border border-gray-600 text-gray-200 rounded-lg p-3 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none transition w-full disabled:cursor-not-allowed disabled:opacity-60"
+                          disabled={isLoading}
+                      />
+                      <PromptPolicyNotice texts={[prompt, additionalPrompt]} />
+                      <div className="flex items-center gap-3">
+                          <label htmlFor="retouch-scale" className="text-sm font-medium text-gray-400">ขนาด:</label>
+                          <input id="retouch-scale" type="range" min="50" max="150" value={retouchScale} onChange={(e) => setRetouchScale(parseInt(e.target.value))} className="flex-grow" disabled={isLoading}/>
+                          <span className="text-sm font-mono text-gray-300">{retouchScale}%</span>
+                      </div>
+                      <button
+                        onClick={handleGenerate}
+                        className="w-full bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-4 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-blue-500/20 hover:shadow-xl hover:shadow-blue-500/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-blue-800 disabled:to-blue-700 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
+                        disabled={isLoading || !prompt.trim() || (retouchMode === 'point' ? !editHotspot : retouchMode === 'box' ? !editBox : !retouchMask)}
+                      >
+                        <div className="flex items-center justify-center gap-2">
+                          <MagicWandIcon className="w-5 h-5"/>
+                          <span>สร้างภาพ</span>
+                        </div>
+                      </button>
+                      <button onClick={handlePreviewEditPrompt} className="self-center text-sm text-gray-400 hover:text-gray-200 underline underline-offset-2 transition-colors">
+                        ดูพรอมต์ที่จะส่ง
+                      </button>
+                    </>
+                  )}
                 </div>
             )}
 
             {activeTab === 'faceswap' && (
-              <div className="w-full bg-gray-800/50 border border-gray-700 rounded-lg p-4 flex flex-col gap-4 animate-fade-in backdrop-blur-sm">
-                <h3 className="text-lg font-semibold text-center text-gray-300">สลับใบหน้า</h3>
-                <p className="text-sm text-center text-gray-400 -mt-2">อัปโหลดภาพที่มีใบหน้าที่คุณต้องการใช้ (ภาพต้นฉบับ)</p>
-                <label htmlFor="faceswap-upload" className="relative flex items-center justify-center w-full px-4 py-4 text-sm font-semibold text-gray-300 bg-white/5 rounded-md cursor-pointer group hover:bg-white/10 transition-colors border-2 border-dashed border-gray-600 hover:border-gray-500">
-                    <UploadIcon className="w-5 h-5 mr-2" />
-                    {secondaryImage ? 'เปลี่ยนภาพต้นฉบับ' : 'อัปโหลดภาพต้นฉบับ'}
-                    <input id="faceswap-upload" type="file" className="hidden" accept="image/*" onChange={(e) => e.target.files && setSecondaryImage(e.target.files[0])} disabled={isLoading} />
-                </label>
-                {secondaryImage && (
-                    <div className="flex items-center gap-3 p-2 bg-white/5 rounded-md">
-                        <img src={URL.createObjectURL(secondaryImage)} alt="Source face" className="w-14 h-14 object-cover rounded-md flex-shrink-0" />
-                        <div className="flex-grow overflow-hidden">
-                            <p className="text-sm font-medium text-gray-200 truncate">{secondaryImage.name}</p>
-                            <p className="text-xs text-gray-400">{`${(secondaryImage.size / 1024).toFixed(1)} KB`}</p>
-                        </div>
-                    </div>
-                )}
-                <input
-                      type="text"
-                      value={additionalPrompt}
-                      onChange={(e) => setAdditionalPrompt(e.target.value)}
-                      placeholder="คำสั่งเพิ่มเติม (ไม่บังคับ)"
-                      className="flex-grow bg-gray-800 border border-gray-600 text-gray-200 rounded-lg p-3 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none transition w-full disabled:cursor-not-allowed disabled:opacity-60"
-                      disabled={isLoading}
-                  />
-                <button onClick={handleApplyFaceSwap} disabled={isLoading || !secondaryImage || !activeLayer} className="w-full bg-gradient-to-br from-purple-600 to-purple-500 text-white font-bold py-4 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-purple-500/20 hover:shadow-xl hover:shadow-purple-500/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-purple-800 disabled:to-purple-700 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none">
-                  สลับใบหน้า
-                </button>
-              </div>
+              <FaceSwapPanel
+                direction={faceSwapDirection}
+                onDirectionChange={handleFaceSwapDirectionChange}
+                uploadedImage={secondaryImage}
+                onUploadImage={setSecondaryImage}
+                sourceFaces={activeFaceDetection?.sourceFaces ?? null}
+                targetFaces={activeFaceDetection?.targetFaces ?? null}
+                pairings={facePairings}
+                onPairingChange={handleFacePairingChange}
+                onDetectFaces={handleDetectFaces}
+                onApplyFaceSwap={handleApplyFaceSwap}
+                onPreviewPrompt={handlePreviewFaceSwapPrompt}
+                hasActiveLayer={!!activeLayer}
+                isLoading={isLoading}
+              />
             )}
 
-            {activeTab === 'filters' && <FilterPanel onApplyFilter={handleApplyFilter} isLoading={isLoading} />}
-            {activeTab === 'adjust' && <AdjustmentPanel onApplyAdjustment={handleApplyAdjustment} isLoading={isLoading} secondaryImage={secondaryImage} onSecondaryImageUpload={setSecondaryImage} onClearSecondaryImage={() => setSecondaryImage(null)} />}
+            {activeTab === 'filters' && <FilterPanel suggestions={activeImageAnalysis?.suggestions.filter(suggestion => suggestion.tool === 'filter') ?? []} onApplyFilter={handleApplyFilter} onPreviewPrompt={handlePreviewFilterPrompt} isLoading={isLoading} />}
+            {activeTab === 'adjust' && <AdjustmentPanel suggestions={activeImageAnalysis?.suggestions.filter(suggestion => suggestion.tool === 'adjust') ?? []} onApplyAdjustment={handleApplyAdjustment} onPreviewPrompt={handlePreviewAdjustmentPrompt} isLoading={isLoading} secondaryImage={secondaryImage} onSecondaryImageUpload={setSecondaryImage} onClearSecondaryImage={() => setSecondaryImage(null)} />}
+            {activeTab === 'transform' && (
+              <TransformPanel
+                transform={activeLayer?.transform ?? null}
+                documentSize={documentSize}
+                onTransformChange={transform => activeLayer && handleLayerTransformChange(activeLayer.id, transform)}
+                isLoading={isLoading}
+              />
+            )}
+            {activeTab === 'layer-mask' && (
+              <LayerMaskPanel
+                mask={activeLayer?.mask ?? null}
+                hasLayer={!!activeLayer && !!activeLayerSize}
+                brushSize={brushSize}
+                onBrushSizeChange={setBrushSize}
+                isHiding={isMaskHiding}
+                onHidingChange={setIsMaskHiding}
+                onAddMask={handleAddLayerMask}
+                hasSelection={!!retouchSelection}
+                onFillFromSelection={handleFillLayerMaskFromSelection}
+                onFillFromSubject={handleFillLayerMaskFromSubject}
+                onInvert={handleInvertLayerMask}
+                onToggleEnabled={handleToggleLayerMask}
+                onApply={handleApplyLayerMask}
+                onDelete={() => updateActiveLayerMask(null)}
+                isLoading={isLoading}
+              />
+            )}
+            {activeTab === 'text' && (
+              <TextPanel
+                text={activeLayer?.text ?? null}
+                onAddText={handleAddTextLayer}
+                onUpdateText={text => activeLayer && handleUpdateTextLayer(activeLayer.id, text)}
+                onRasterize={() => activeLayer && handleRasterizeLayer(activeLayer.id)}
+                isLoading={isLoading}
+              />
+            )}
             {activeTab === 'crop' && <CropPanel onApplyCrop={handleApplyCrop} onSetAspect={setAspect} isLoading={isLoading} isCropping={!!completedCrop} />}
-            {activeTab === 'remove-bg' && <RemoveBackgroundPanel onApplyRemoveBackground={handleRemoveBackground} isLoading={isLoading} />}
+            {activeTab === 'extend' && <ExtendPanel documentSize={documentSize} onApplyExtend={handleApplyExtend} onPreviewPrompt={handlePreviewOutpaintPrompt} isLoading={isLoading} />}
+            {activeTab === 'upscale' && <UpscalePanel layerSize={activeLayerSize} documentSize={documentSize} isAiProvider={provider.id !== 'local'} onApplyUpscale={handleApplyUpscale} isLoading={isLoading} />}
+            {activeTab === 'remove-bg' && (
+                <>
+                    <SelectSubjectPanel
+                        refinement={activeSubjectSelection?.refinement ?? null}
+                        onSelectSubject={handleSelectSubject}
+                        onRefine={handleRefineSelection}
+                        onPreviewPrompt={handlePreviewSubjectMaskPrompt}
+                        isLoading={isLoading}
+                    />
+                    <RemoveBackgroundPanel onApplyRemoveBackground={handleRemoveBackground} onPreviewPrompt={handlePreviewRemoveBackgroundPrompt} isLoading={isLoading} />
+                </>
+            )}
         </div>
       </main>
     </div>
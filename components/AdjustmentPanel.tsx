@@ -5,16 +5,23 @@
 
 import React, { useState, useEffect } from 'react';
 import { UploadIcon } from './icons';
+import { adjustmentPresets } from '../services/promptTemplates';
+import PromptPolicyNotice from './PromptPolicyNotice';
+import SuggestionChips from './SuggestionChips';
+import type { EditSuggestion } from '../services/imageAnalysis';
 
 interface AdjustmentPanelProps {
   onApplyAdjustment: (prompt: string, additionalPrompt: string) => void;
+  onPreviewPrompt: (prompt: string, additionalPrompt: string) => void;
   isLoading: boolean;
+  // Edits suggested by analyzing the active layer, offered as ready-made prompts
+  suggestions: EditSuggestion[];
   secondaryImage: File | null;
   onSecondaryImageUpload: (file: File) => void;
   onClearSecondaryImage: () => void;
 }
 
-const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ onApplyAdjustment, isLoading, secondaryImage, onSecondaryImageUpload, onClearSecondaryImage }) => {
+const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ onApplyAdjustment, onPreviewPrompt, isLoading, suggestions, secondaryImage, onSecondaryImageUpload, onClearSecondaryImage }) => {
   const [selectedPresetPrompt, setSelectedPresetPrompt] = useState<string | null>(null);
   const [customPrompt, setCustomPrompt] = useState('');
   const [additionalPrompt, setAdditionalPrompt] = useState('');
@@ -29,14 +36,6 @@ const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ onApplyAdjustment, is
     setSecondaryImageUrl(null);
   }, [secondaryImage]);
 
-
-  const presets = [
-    { name: 'ปรับปรุงตามข้อความ', prompt: 'Imaginatively enhance this photo. Improve the overall quality (lighting, colors, sharpness) and creatively elevate the scene to be more dramatic, vibrant, and visually stunning. Produce a masterpiece that looks like a professional, artistic edit.' },
-    { name: 'บลอพื้นหลัง', prompt: 'Apply a realistic depth-of-field effect, making the background blurry while keeping the main subject in sharp focus.' },
-    { name: 'เพิ่มความคมชัด', prompt: 'Slightly enhance the sharpness and details of the image without making it look unnatural.' },
-    { name: 'จัดแสงสตูดิโอ', prompt: 'Add dramatic, professional studio lighting to the main subject.' },
-  ];
-
   const activePrompt = selectedPresetPrompt || customPrompt;
 
   const handlePresetClick = (prompt: string) => {
@@ -48,6 +47,11 @@ const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ onApplyAdjustment, is
     setCustomPrompt(e.target.value);
     setSelectedPresetPrompt(null);
   };
+
+  const handleSuggestionSelect = (prompt: string) => {
+    setCustomPrompt(prompt);
+    setSelectedPresetPrompt(null);
+  };
   
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
@@ -62,14 +66,18 @@ const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ onApplyAdjustment, is
     }
   };
 
+  const handlePreview = () => {
+    onPreviewPrompt(activePrompt, additionalPrompt);
+  };
+
   return (
     <div className="w-full bg-gray-800/50 border border-gray-700 rounded-lg p-4 flex flex-col gap-4 animate-fade-in backdrop-blur-sm">
       <h3 className="text-lg font-semibold text-center text-gray-300">ปรับแต่งภาพระดับมืออาชีพ</h3>
       
       <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
-        {presets.map(preset => (
+        {adjustmentPresets.map(preset => (
           <button
-            key={preset.name}
+            key={preset.id}
             onClick={() => handlePresetClick(preset.prompt)}
             disabled={isLoading}
             className={`w-full text-center bg-white/10 border border-transparent text-gray-200 font-semibold py-3 px-4 rounded-md transition-all duration-200 ease-in-out hover:bg-white/20 hover:border-white/20 active:scale-95 text-base disabled:opacity-50 disabled:cursor-not-allowed ${selectedPresetPrompt === preset.prompt ? 'ring-2 ring-offset-2 ring-offset-gray-800 ring-blue-500' : ''}`}
@@ -105,6 +113,7 @@ const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ onApplyAdjustment, is
         )}
       </div>
 
+      <SuggestionChips suggestions={suggestions} onSelect={handleSuggestionSelect} isLoading={isLoading} />
       <input
         type="text"
         value={customPrompt}
@@ -121,6 +130,7 @@ const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ onApplyAdjustment, is
         className="flex-grow bg-gray-800 border border-gray-600 text-gray-200 rounded-lg p-3 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none transition w-full disabled:cursor-not-allowed disabled:opacity-60"
         disabled={isLoading}
       />
+      <PromptPolicyNotice texts={[customPrompt, additionalPrompt]} />
 
       {(activePrompt || secondaryImage) && (
         <div className="animate-fade-in flex flex-col gap-4 pt-2">
@@ -131,6 +141,12 @@ const AdjustmentPanel: React.FC<AdjustmentPanelProps> = ({ onApplyAdjustment, is
             >
                 ใช้การปรับแต่งนี้
             </button>
+            <button
+              onClick={handlePreview}
+              className="self-center text-sm text-gray-400 hover:text-gray-200 underline underline-offset-2 transition-colors"
+            >
+              ดูพรอมต์ที่จะส่ง
+            </button>
         </div>
       )}
     </div>
@@ -0,0 +1,358 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { CloseIcon, UploadIcon } from './icons';
+import type { ImageEditProvider } from '../services/imageEditProvider';
+import type { OutputFitMode } from '../services/outputReconciliation';
+import { adjustmentPresets, filterPresets } from '../services/promptTemplates';
+import { toGenerationError } from '../services/generationError';
+import { dataURLtoFile } from '../services/imageUtils';
+import { createZip } from '../services/zip';
+import {
+  batchOperationNames,
+  batchResultName,
+  getBatchOptions,
+  runBatchOperation,
+  runWithConcurrency,
+  type BatchItemStatus,
+  type BatchOperation,
+  type BatchOperationKind,
+} from '../services/batchQueue';
+
+interface BatchModalProps {
+  provider: ImageEditProvider;
+  isTransparent: boolean;
+  outputFitMode: OutputFitMode;
+  onClose: () => void;
+}
+
+interface BatchItem {
+  id: string;
+  file: File;
+  previewUrl: string;
+  status: BatchItemStatus;
+  result?: File;
+  resultUrl?: string;
+  error?: string;
+}
+
+const statusNames: Record<BatchItemStatus, string> = {
+  queued: 'รอคิว',
+  running: 'กำลังทำงาน',
+  cancelling: 'กำลังยกเลิก',
+  done: 'เสร็จแล้ว',
+  failed: 'ไม่สำเร็จ',
+};
+
+const statusColors: Record<BatchItemStatus, string> = {
+  queued: 'text-gray-400',
+  running: 'text-blue-400',
+  cancelling: 'text-yellow-400',
+  done: 'text-green-400',
+  failed: 'text-red-400',
+};
+
+const BatchModal: React.FC<BatchModalProps> = ({ provider, isTransparent, outputFitMode, onClose }) => {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [kind, setKind] = useState<BatchOperationKind>('filter');
+  const [filterPrompt, setFilterPrompt] = useState(filterPresets[0].prompt);
+  const [adjustmentPrompt, setAdjustmentPrompt] = useState(adjustmentPresets[0].prompt);
+  const [referenceImage, setReferenceImage] = useState<File | null>(null);
+  const [additionalPrompt, setAdditionalPrompt] = useState('');
+  const [isRunning, setIsRunning] = useState(false);
+  const [isZipping, setIsZipping] = useState(false);
+  const modalRef = useRef<HTMLDivElement>(null);
+  // One controller per run still in progress; Stop aborts them all
+  const controllersRef = useRef(new Set<AbortController>());
+  const itemsRef = useRef<BatchItem[]>([]);
+
+  useEffect(() => {
+    itemsRef.current = items;
+  }, [items]);
+
+  // Closing the dialog cancels the run and releases every preview
+  useEffect(() => () => {
+    controllersRef.current.forEach(controller => controller.abort());
+    itemsRef.current.forEach(item => {
+      URL.revokeObjectURL(item.previewUrl);
+      if (item.resultUrl) URL.revokeObjectURL(item.resultUrl);
+    });
+  }, []);
+
+  const updateItem = useCallback((id: string, changes: Partial<BatchItem>) => {
+    setItems(current => current.map(item => item.id === id ? { ...item, ...changes } : item));
+  }, []);
+
+  const buildOperation = (): BatchOperation | null => {
+    switch (kind) {
+      case 'filter':
+        return filterPrompt.trim() ? { kind, prompt: filterPrompt, additionalPrompt } : null;
+      case 'adjustment':
+        return adjustmentPrompt.trim() || referenceImage ? { kind, prompt: adjustmentPrompt, referenceImage, additionalPrompt } : null;
+      case 'remove-background':
+        return { kind, additionalPrompt };
+    }
+  };
+  const operation = buildOperation();
+
+  const handleAddFiles = (files: FileList | null) => {
+    if (!files) return;
+    const added = Array.from(files)
+      .filter(file => file.type.startsWith('image/'))
+      .map((file, i): BatchItem => ({
+        id: `batch-${Date.now()}-${i}`,
+        file,
+        previewUrl: URL.createObjectURL(file),
+        status: 'queued',
+      }));
+    setItems(current => [...current, ...added]);
+  };
+
+  const handleRemoveItem = (id: string) => {
+    const item = items.find(i => i.id === id);
+    if (!item) return;
+    URL.revokeObjectURL(item.previewUrl);
+    if (item.resultUrl) URL.revokeObjectURL(item.resultUrl);
+    setItems(current => current.filter(i => i.id !== id));
+  };
+
+  const processItems = useCallback(async (toRun: BatchItem[], batchOperation: BatchOperation) => {
+    const controller = new AbortController();
+    controllersRef.current.add(controller);
+    setIsRunning(true);
+    toRun.forEach(item => updateItem(item.id, { status: 'queued', error: undefined }));
+
+    await runWithConcurrency(toRun, async item => {
+      updateItem(item.id, { status: 'running' });
+      try {
+        const url = await runBatchOperation(provider, item.file, batchOperation, isTransparent, outputFitMode, controller.signal);
+        const result = dataURLtoFile(url, batchResultName(item.file, batchOperation.kind));
+        if (item.resultUrl) URL.revokeObjectURL(item.resultUrl);
+        updateItem(item.id, { status: 'done', result, resultUrl: URL.createObjectURL(result) });
+      } catch (err) {
+        const generationError = toGenerationError(err);
+        console.error(`Batch item ${item.file.name} failed`, generationError);
+        updateItem(item.id, { status: 'failed', error: controller.signal.aborted ? 'ยกเลิกการทำงานแล้ว' : generationError.userMessage });
+      }
+    }, getBatchOptions().concurrency, controller.signal);
+
+    // A stopped run was already removed, and must not end a newer one
+    if (controllersRef.current.delete(controller) && controllersRef.current.size === 0) {
+      setIsRunning(false);
+    }
+  }, [provider, isTransparent, outputFitMode, updateItem]);
+
+  const handleStart = () => {
+    if (isRunning || !operation) return;
+    processItems(items.filter(item => item.status === 'queued' || item.status === 'failed'), operation);
+  };
+
+  const handleRetry = (item: BatchItem) => {
+    if (isRunning || !operation) return;
+    processItems([item], operation);
+  };
+
+  // Items that never started stay queued. Ones already in flight are marked as cancelling until
+  // their request settles, so they can't be started again while it is still running
+  const handleStop = () => {
+    controllersRef.current.forEach(controller => controller.abort());
+    controllersRef.current.clear();
+    setIsRunning(false);
+    setItems(current => current.map(item => item.status === 'running' ? { ...item, status: 'cancelling' } : item));
+  };
+
+  const handleDownloadZip = async () => {
+    setIsZipping(true);
+    try {
+      // Two inputs with the same name would otherwise overwrite each other when extracted
+      const usedNames = new Map<string, number>();
+      const entries = items.flatMap(item => {
+        if (!item.result) return [];
+        const count = (usedNames.get(item.result.name) ?? 0) + 1;
+        usedNames.set(item.result.name, count);
+        const name = count === 1 ? item.result.name : item.result.name.replace(/\.png$/, ` (${count}).png`);
+        return [{ name, data: item.result }];
+      });
+      const zip = await createZip(entries);
+      const url = URL.createObjectURL(zip);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `batch-${Date.now()}.zip`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to create the ZIP archive:', error);
+    } finally {
+      setIsZipping(false);
+    }
+  };
+
+  // Handle closing modal on Escape key press
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  // Handle closing modal on outside click
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (modalRef.current && !modalRef.current.contains(event.target as Node)) {
+        onClose();
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [onClose]);
+
+  const doneCount = items.filter(item => item.status === 'done').length;
+  const pendingCount = items.filter(item => item.status === 'queued' || item.status === 'failed').length;
+
+  return (
+    <div className="fixed inset-0 bg-black/70 z-50 flex items-center justify-center p-4 animate-fade-in backdrop-blur-sm" role="dialog" aria-modal="true" aria-labelledby="batch-title">
+      <div ref={modalRef} className="relative bg-gray-800 border border-gray-700 rounded-xl p-8 w-full max-w-2xl max-h-[90vh] flex flex-col gap-4 shadow-2xl">
+        <div className="flex items-center justify-between">
+          <h2 id="batch-title" className="text-2xl font-bold text-white">ประมวลผลหลายภาพ</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors" aria-label="Close modal">
+            <CloseIcon className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-3 gap-1 bg-gray-900/50 p-1 rounded-lg">
+          {(Object.keys(batchOperationNames) as BatchOperationKind[]).map(value => (
+            <button
+              key={value}
+              onClick={() => setKind(value)}
+              disabled={isRunning}
+              className={`py-2 rounded-md text-sm font-semibold transition-colors disabled:opacity-50 ${kind === value ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-white/10'}`}
+            >
+              {batchOperationNames[value]}
+            </button>
+          ))}
+        </div>
+
+        {kind === 'filter' && (
+          <select
+            value={filterPrompt}
+            onChange={(e) => setFilterPrompt(e.target.value)}
+            disabled={isRunning}
+            className="bg-gray-900/50 border border-gray-600 text-gray-200 rounded-lg p-3 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none disabled:opacity-50"
+          >
+            {filterPresets.map(preset => <option key={preset.id} value={preset.prompt}>{preset.name}</option>)}
+          </select>
+        )}
+        {kind === 'adjustment' && (
+          <div className="flex flex-col gap-2">
+            <select
+              value={adjustmentPresets.some(preset => preset.prompt === adjustmentPrompt) ? adjustmentPrompt : ''}
+              onChange={(e) => setAdjustmentPrompt(e.target.value)}
+              disabled={isRunning}
+              className="bg-gray-900/50 border border-gray-600 text-gray-200 rounded-lg p-3 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none disabled:opacity-50"
+            >
+              {adjustmentPresets.map(preset => <option key={preset.id} value={preset.prompt}>{preset.name}</option>)}
+              <option value="">กำหนดเอง</option>
+            </select>
+            {!adjustmentPresets.some(preset => preset.prompt === adjustmentPrompt) && (
+              <input
+                type="text"
+                value={adjustmentPrompt}
+                onChange={(e) => setAdjustmentPrompt(e.target.value)}
+                placeholder="อธิบายการปรับแต่ง (เช่น 'ทำให้พื้นหลังเป็นสีขาว')"
+                className="bg-gray-800 border border-gray-600 text-gray-200 rounded-lg p-3 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none w-full disabled:opacity-60"
+                disabled={isRunning}
+              />
+            )}
+            <div className="flex items-center gap-3">
+              <label htmlFor="batch-reference" className="flex items-center gap-2 text-sm text-gray-300 bg-white/5 hover:bg-white/10 rounded-md px-3 py-2 cursor-pointer transition-colors">
+                <UploadIcon className="w-4 h-4" />
+                {referenceImage ? 'เปลี่ยนภาพอ้างอิง' : 'ภาพอ้างอิง (ไม่บังคับ)'}
+                <input id="batch-reference" type="file" className="hidden" accept="image/*" onChange={(e) => setReferenceImage(e.target.files?.[0] ?? null)} disabled={isRunning} />
+              </label>
+              {referenceImage && (
+                <>
+                  <span className="text-xs text-gray-400 truncate flex-grow">{referenceImage.name}</span>
+                  <button onClick={() => setReferenceImage(null)} disabled={isRunning} className="text-xs text-gray-400 hover:text-gray-200 underline">ลบ</button>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+        <input
+          type="text"
+          value={additionalPrompt}
+          onChange={(e) => setAdditionalPrompt(e.target.value)}
+          placeholder="คำสั่งเพิ่มเติม (ไม่บังคับ)"
+          className="bg-gray-800 border border-gray-600 text-gray-200 rounded-lg p-3 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none w-full disabled:opacity-60"
+          disabled={isRunning}
+        />
+
+        <label htmlFor="batch-upload" className="flex items-center justify-center w-full px-4 py-3 text-sm font-semibold text-gray-300 bg-white/5 rounded-md cursor-pointer hover:bg-white/10 transition-colors border-2 border-dashed border-gray-600 hover:border-gray-500">
+          <UploadIcon className="w-5 h-5 mr-2" />
+          เพิ่มภาพ
+          <input id="batch-upload" type="file" className="hidden" accept="image/*" multiple onChange={(e) => { handleAddFiles(e.target.files); e.target.value = ''; }} />
+        </label>
+
+        <div className="flex-grow overflow-y-auto flex flex-col gap-2 min-h-0">
+          {items.length === 0 && <p className="text-sm text-center text-gray-500 py-6">ยังไม่มีภาพในคิว</p>}
+          {items.map(item => (
+            <div key={item.id} className="flex items-center gap-3 p-2 bg-white/5 rounded-md">
+              <img src={item.resultUrl ?? item.previewUrl} alt={item.file.name} className="w-12 h-12 object-cover rounded-md flex-shrink-0 bg-gray-900" />
+              <div className="flex-grow overflow-hidden">
+                <p className="text-sm font-medium text-gray-200 truncate">{item.file.name}</p>
+                <p className={`text-xs ${statusColors[item.status]}`} title={item.error}>
+                  {statusNames[item.status]}{item.error && ` · ${item.error}`}
+                </p>
+              </div>
+              {item.status === 'failed' && (
+                <button onClick={() => handleRetry(item)} disabled={isRunning || !operation} className="text-sm text-blue-400 hover:text-blue-300 disabled:opacity-50">
+                  ลองใหม่
+                </button>
+              )}
+              <button onClick={() => handleRemoveItem(item.id)} disabled={isRunning || item.status === 'cancelling'} className="text-gray-400 hover:text-white disabled:opacity-50" aria-label={`Remove ${item.file.name}`}>
+                <CloseIcon className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <p className="text-xs text-gray-400">
+          เสร็จแล้ว {doneCount}/{items.length} ภาพ · ทำงานพร้อมกันสูงสุด {getBatchOptions().concurrency} ภาพ
+        </p>
+
+        <div className="flex items-center justify-end gap-3">
+          <button
+            onClick={handleDownloadZip}
+            disabled={doneCount === 0 || isZipping}
+            className="bg-white/10 text-gray-200 font-semibold py-3 px-6 rounded-lg transition-colors hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isZipping ? 'กำลังสร้าง ZIP...' : 'ดาวน์โหลด ZIP'}
+          </button>
+          {isRunning ? (
+            <button onClick={handleStop} className="bg-red-600/80 text-white font-bold py-3 px-6 rounded-lg transition-colors hover:bg-red-600">
+              หยุด
+            </button>
+          ) : (
+            <button
+              onClick={handleStart}
+              disabled={!operation || pendingCount === 0}
+              className="bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-3 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-blue-500/20 hover:shadow-xl hover:shadow-blue-500/40 hover:-translate-y-px active:scale-95 disabled:from-blue-800 disabled:to-blue-700 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
+            >
+              เริ่ม ({pendingCount} ภาพ)
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BatchModal;
@@ -0,0 +1,76 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useRef, useState } from 'react';
+import { clampToImage, imageRectToContainer, rectFromPoints, type Point, type Rect, type Size } from '../services/coordinates';
+
+interface BoxSelectorProps {
+  // Natural size of the layer the box is drawn on
+  naturalSize: Size;
+  containerSize: Size;
+  // Current selection in image pixels
+  box: Rect | null;
+  onBoxChange: (box: Rect | null) => void;
+  // Maps a pointer position into the layer's natural pixels, undoing the layer's transform
+  toImagePoint: (client: Point) => Point | null;
+}
+
+// Drags smaller than this (in image pixels) are treated as a click that clears the box
+const MIN_BOX_SIZE = 4;
+
+const BoxSelector: React.FC<BoxSelectorProps> = ({ naturalSize, containerSize, box, onBoxChange, toImagePoint }) => {
+  const dragStart = useRef<Point | null>(null);
+  const [draft, setDraft] = useState<Rect | null>(null);
+
+  const toPointerImagePoint = (e: React.PointerEvent<HTMLDivElement>) => {
+    const point = toImagePoint({ x: e.clientX, y: e.clientY });
+    return point && clampToImage(point, naturalSize);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    const point = toPointerImagePoint(e);
+    if (!point) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragStart.current = point;
+    setDraft(null);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragStart.current) return;
+    const point = toPointerImagePoint(e);
+    if (!point) return;
+    setDraft(rectFromPoints(dragStart.current, point));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragStart.current) return;
+    const point = toPointerImagePoint(e);
+    const rect = point && rectFromPoints(dragStart.current, point);
+    dragStart.current = null;
+    setDraft(null);
+    onBoxChange(rect && rect.width >= MIN_BOX_SIZE && rect.height >= MIN_BOX_SIZE ? rect : null);
+  };
+
+  const shown = draft ?? box;
+  const shownOnScreen = shown && imageRectToContainer(shown, containerSize, naturalSize);
+
+  return (
+    <div
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      className="absolute inset-0 cursor-crosshair touch-none z-10"
+    >
+      {shownOnScreen && (
+        <div
+          className="absolute border-2 border-dashed border-white bg-blue-500/20 pointer-events-none"
+          style={{ left: shownOnScreen.x, top: shownOnScreen.y, width: shownOnScreen.width, height: shownOnScreen.height }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default BoxSelector;
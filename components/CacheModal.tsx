@@ -0,0 +1,129 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { CloseIcon } from './icons';
+import { clearResultCache, deleteCachedResult, getCacheOptions, listCacheEntries, type CacheEntry } from '../services/resultCache';
+
+interface CacheModalProps {
+  onClose: () => void;
+}
+
+const formatMegabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const CacheModal: React.FC<CacheModalProps> = ({ onClose }) => {
+  const [entries, setEntries] = useState<CacheEntry[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const modalRef = useRef<HTMLDivElement>(null);
+  const { maxEntries, maxBytes } = getCacheOptions();
+
+  const refresh = useCallback(async () => {
+    try {
+      // Most recently used first
+      setEntries((await listCacheEntries()).reverse());
+      setLoadError(null);
+    } catch (error) {
+      console.error('Failed to read the result cache:', error);
+      setLoadError('ไม่สามารถอ่านแคชได้');
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleDelete = useCallback(async (key: string) => {
+    await deleteCachedResult(key);
+    refresh();
+  }, [refresh]);
+
+  const handleClear = useCallback(async () => {
+    await clearResultCache();
+    refresh();
+  }, [refresh]);
+
+  // Handle closing modal on Escape key press
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  // Handle closing modal on outside click
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (modalRef.current && !modalRef.current.contains(event.target as Node)) {
+        onClose();
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [onClose]);
+
+  const totalBytes = entries?.reduce((total, entry) => total + entry.size, 0) ?? 0;
+
+  return (
+    <div className="fixed inset-0 bg-black/70 z-50 flex items-center justify-center p-4 animate-fade-in backdrop-blur-sm" role="dialog" aria-modal="true" aria-labelledby="cache-title">
+      <div ref={modalRef} className="relative bg-gray-800 border border-gray-700 rounded-xl p-8 w-full max-w-lg flex flex-col gap-4 shadow-2xl">
+        <div className="flex items-center justify-between">
+          <h2 id="cache-title" className="text-2xl font-bold text-white">แคชผลลัพธ์</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors" aria-label="Close modal">
+            <CloseIcon className="w-6 h-6" />
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-400">
+          ผลลัพธ์ที่เคยสร้างจะถูกเก็บไว้ในเบราว์เซอร์ เมื่อทำคำสั่งเดิมกับภาพเดิมซ้ำจะได้ผลทันทีโดยไม่เสียค่าใช้จ่าย
+        </p>
+        <p className="text-sm font-mono text-gray-300">
+          {entries?.length ?? 0} / {maxEntries} รายการ · {formatMegabytes(totalBytes)} / {formatMegabytes(maxBytes)}
+        </p>
+
+        {loadError && <p className="text-sm text-red-400">{loadError}</p>}
+
+        <div className="max-h-[50vh] overflow-y-auto flex flex-col gap-2">
+          {entries?.length === 0 && <p className="text-sm text-center text-gray-500 py-4">ยังไม่มีผลลัพธ์ในแคช</p>}
+          {entries?.map(entry => (
+            <div key={entry.key} className="flex items-center gap-3 p-2 bg-white/5 rounded-md">
+              <img src={entry.dataUrl} alt={entry.label} className="w-12 h-12 object-cover rounded-md flex-shrink-0" />
+              <div className="flex-grow overflow-hidden">
+                <p className="text-sm font-medium text-gray-200 truncate">{entry.label}</p>
+                <p className="text-xs text-gray-400">{`${(entry.size / 1024).toFixed(1)} KB · ใช้ล่าสุด ${new Date(entry.lastUsedAt).toLocaleString('th-TH')}`}</p>
+              </div>
+              <button
+                onClick={() => handleDelete(entry.key)}
+                className="text-sm font-semibold text-red-400 hover:text-red-300 bg-red-500/10 hover:bg-red-500/20 px-3 py-2 rounded-md transition-colors"
+              >
+                ลบ
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-end gap-3 pt-2">
+          <button
+            onClick={handleClear}
+            disabled={!entries?.length}
+            className="bg-white/10 text-gray-200 font-semibold py-3 px-6 rounded-lg transition-colors hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            ล้างแคชทั้งหมด
+          </button>
+          <button
+            onClick={onClose}
+            className="bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-3 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-blue-500/20 hover:shadow-xl hover:shadow-blue-500/40 hover:-translate-y-px active:scale-95"
+          >
+            ปิด
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CacheModal;
@@ -0,0 +1,105 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { MagicWandIcon } from './icons';
+import { getChatChildren, getChatThread, type ChatSession, type ChatTurn } from '../services/chatSession';
+import PromptPolicyNotice from './PromptPolicyNotice';
+
+interface ChatPanelProps {
+  session: ChatSession | null;
+  // Resolves to true once the message has produced a new turn
+  onSend: (instruction: string) => Promise<boolean>;
+  // Moves the conversation (and the canvas) back to a turn, or to the start image with null
+  onBranch: (turnId: string | null) => void;
+  // Switches to another branch that starts at the given turn
+  onSwitchBranch: (turnId: string) => void;
+  onReset: () => void;
+  isLoading: boolean;
+}
+
+const ChatPanel: React.FC<ChatPanelProps> = ({ session, onSend, onBranch, onSwitchBranch, onReset, isLoading }) => {
+  const [message, setMessage] = useState('');
+
+  const thread = session ? getChatThread(session) : [];
+
+  const handleSend = async () => {
+    if (!message.trim()) return;
+    if (await onSend(message)) {
+      setMessage('');
+    }
+  };
+
+  const renderBranchSwitcher = (turn: ChatTurn) => {
+    const siblings = getChatChildren(session!, turn.parentId);
+    if (siblings.length < 2) return null;
+    const index = siblings.findIndex(sibling => sibling.id === turn.id);
+    return (
+      <div className="flex items-center gap-1 text-xs text-gray-400">
+        <button onClick={() => onSwitchBranch(siblings[index - 1].id)} disabled={isLoading || index === 0} className="px-1 hover:text-gray-200 disabled:opacity-30" aria-label="Previous branch">‹</button>
+        <span className="font-mono">{index + 1}/{siblings.length}</span>
+        <button onClick={() => onSwitchBranch(siblings[index + 1].id)} disabled={isLoading || index === siblings.length - 1} className="px-1 hover:text-gray-200 disabled:opacity-30" aria-label="Next branch">›</button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="max-h-96 overflow-y-auto flex flex-col gap-3 p-3 bg-gray-900/40 border border-gray-700/60 rounded-lg">
+        {!session && <p className="text-sm text-center text-gray-500 py-4">พิมพ์คำสั่งแรกเพื่อเริ่มบทสนทนากับภาพในเลเยอร์นี้</p>}
+        {session && (
+          <div className="flex items-center gap-2">
+            <img src={session.startUrl} alt="Start" className="w-12 h-12 object-cover rounded-md flex-shrink-0" />
+            <span className="flex-grow text-xs text-gray-400">ภาพเริ่มต้น · ประวัติ #{session.startHistoryIndex + 1}</span>
+            {session.tipId !== null && (
+              <button onClick={() => onBranch(null)} disabled={isLoading} className="text-xs text-blue-400 hover:text-blue-300 disabled:opacity-50">แตกแขนงจากตรงนี้</button>
+            )}
+          </div>
+        )}
+        {thread.map(turn => (
+          <div key={turn.id} className="flex flex-col gap-2">
+            <div className="flex items-start justify-end gap-2">
+              {renderBranchSwitcher(turn)}
+              <p className="max-w-[80%] bg-blue-600/80 text-white text-sm rounded-lg rounded-br-none px-3 py-2">{turn.instruction}</p>
+            </div>
+            <div className="flex items-center gap-2">
+              <img src={turn.resultUrl} alt={turn.instruction} className="w-16 h-16 object-cover rounded-md flex-shrink-0 border border-gray-600" />
+              <span className="flex-grow text-xs text-gray-400">ประวัติ #{turn.historyIndex + 1}</span>
+              {turn.id !== session?.tipId && (
+                <button onClick={() => onBranch(turn.id)} disabled={isLoading} className="text-xs text-blue-400 hover:text-blue-300 disabled:opacity-50">แตกแขนงจากตรงนี้</button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <textarea
+        value={message}
+        onChange={(e) => setMessage(e.target.value)}
+        placeholder={thread.length > 0 ? "เช่น 'เปลี่ยนหมวกเป็นสีแดง'" : "เช่น 'ใส่หมวกให้หน่อย'"}
+        className="flex-grow bg-gray-800 border border-gray-600 text-gray-200 rounded-lg p-4 focus:ring-2 focus:ring-blue-500 focus:outline-none transition w-full h-20 resize-none disabled:cursor-not-allowed disabled:opacity-60"
+        disabled={isLoading}
+      />
+      <PromptPolicyNotice texts={[message]} />
+      <button
+        onClick={handleSend}
+        className="w-full bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-4 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-blue-500/20 hover:shadow-xl hover:shadow-blue-500/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-blue-800 disabled:to-blue-700 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
+        disabled={isLoading || !message.trim()}
+      >
+        <div className="flex items-center justify-center gap-2">
+          <MagicWandIcon className="w-5 h-5"/>
+          <span>ส่ง</span>
+        </div>
+      </button>
+      {session && (
+        <button onClick={onReset} disabled={isLoading} className="self-center text-sm text-gray-400 hover:text-gray-200 underline underline-offset-2 transition-colors disabled:opacity-50">
+          เริ่มบทสนทนาใหม่
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ChatPanel;
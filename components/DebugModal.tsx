@@ -2,3 +2,86 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+
+import React, { useState, useEffect, useRef } from 'react';
+import { CloseIcon } from './icons';
+import { describePrompt, type RenderedPrompt } from '../services/promptTemplates';
+
+interface DebugModalProps {
+  prompt: RenderedPrompt;
+  onClose: () => void;
+}
+
+// Shows the fully rendered prompt so it can be checked or copied before anything is sent
+const DebugModal: React.FC<DebugModalProps> = ({ prompt, onClose }) => {
+  const [isCopied, setIsCopied] = useState(false);
+  const modalRef = useRef<HTMLDivElement>(null);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(prompt.text);
+      setIsCopied(true);
+    } catch (error) {
+      console.error('Failed to copy prompt:', error);
+    }
+  };
+
+  // Handle closing modal on Escape key press
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  // Handle closing modal on outside click
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (modalRef.current && !modalRef.current.contains(event.target as Node)) {
+        onClose();
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [onClose]);
+
+  return (
+    <div className="fixed inset-0 bg-black/70 z-50 flex items-center justify-center p-4 animate-fade-in backdrop-blur-sm" role="dialog" aria-modal="true" aria-labelledby="prompt-preview-title">
+      <div ref={modalRef} className="relative bg-gray-800 border border-gray-700 rounded-xl p-8 w-full max-w-2xl flex flex-col gap-4 shadow-2xl">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 id="prompt-preview-title" className="text-2xl font-bold text-white">พรอมต์ที่จะส่ง</h2>
+            <p className="text-sm font-mono text-gray-400">{describePrompt(prompt)}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors" aria-label="Close modal">
+            <CloseIcon className="w-6 h-6" />
+          </button>
+        </div>
+
+        <pre className="max-h-[60vh] overflow-auto whitespace-pre-wrap bg-gray-900/50 border border-gray-600 text-gray-200 rounded-lg p-4 text-sm font-mono">
+          {prompt.text}
+        </pre>
+
+        <div className="flex items-center justify-end gap-3">
+          <button
+            onClick={handleCopy}
+            className="bg-white/10 text-gray-200 font-semibold py-3 px-6 rounded-lg transition-colors hover:bg-white/20"
+          >
+            {isCopied ? 'คัดลอกแล้ว' : 'คัดลอก'}
+          </button>
+          <button
+            onClick={onClose}
+            className="bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-3 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-blue-500/20 hover:shadow-xl hover:shadow-blue-500/40 hover:-translate-y-px active:scale-95"
+          >
+            ปิด
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DebugModal;
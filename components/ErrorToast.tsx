@@ -5,13 +5,24 @@
 
 import React, { useEffect } from 'react';
 import { CloseIcon, ErrorIcon } from './icons';
+import type { GenerationErrorAction } from '../services/generationError';
 
 interface ErrorToastProps {
   message: string;
+  // Raw detail from the backend, e.g. the block or finish reason
+  reason?: string;
+  action?: GenerationErrorAction;
+  onAction?: () => void;
   onClose: () => void;
 }
 
-const ErrorToast: React.FC<ErrorToastProps> = ({ message, onClose }) => {
+const actionLabels: Record<GenerationErrorAction, string> = {
+  retry: 'ลองอีกครั้ง',
+  rephrase: 'แก้ไขคำสั่ง',
+  rasterize: 'แปลงเป็นภาพ',
+};
+
+const ErrorToast: React.FC<ErrorToastProps> = ({ message, reason, action, onAction, onClose }) => {
   useEffect(() => {
     const timer = setTimeout(() => {
       onClose();
@@ -22,6 +33,11 @@ const ErrorToast: React.FC<ErrorToastProps> = ({ message, onClose }) => {
     };
   }, [onClose]);
 
+  const handleAction = () => {
+    onClose();
+    onAction?.();
+  };
+
   return (
     <div
       className="fixed top-24 left-1/2 -translate-x-1/2 w-full max-w-lg p-4 bg-red-600/95 border border-red-500/50 text-white rounded-xl shadow-2xl z-[100] animate-fade-in backdrop-blur-sm flex items-start gap-4"
@@ -33,6 +49,15 @@ const ErrorToast: React.FC<ErrorToastProps> = ({ message, onClose }) => {
       <div className="flex-grow">
         <p className="font-bold text-lg">เกิดข้อผิดพลาด</p>
         <p className="text-sm text-red-100">{message}</p>
+        {reason && <p className="text-xs text-red-200/80 mt-1 break-words">{reason}</p>}
+        {action && onAction && (
+          <button
+            onClick={handleAction}
+            className="mt-3 text-sm font-semibold bg-white/15 hover:bg-white/25 px-3 py-1.5 rounded-md transition-colors"
+          >
+            {actionLabels[action]}
+          </button>
+        )}
       </div>
       <button
         onClick={onClose}
@@ -8,14 +8,18 @@ import { CloseIcon } from './icons';
 
 interface ExportModalProps {
   imageFile: File | null;
+  // Prefilled alt text, e.g. the caption from analyzing the image
+  defaultAltText: string;
   onClose: () => void;
 }
 
-const ExportModal: React.FC<ExportModalProps> = ({ imageFile, onClose }) => {
+const ExportModal: React.FC<ExportModalProps> = ({ imageFile, defaultAltText, onClose }) => {
   const defaultFileName = `edited-${imageFile?.name.split('.').slice(0, -1).join('.') || 'image'}`;
   const [fileName, setFileName] = useState<string>(defaultFileName);
   const [format, setFormat] = useState<'png' | 'jpeg'>('png');
   const [isProcessing, setIsProcessing] = useState(false);
+  const [altText, setAltText] = useState<string>(defaultAltText);
+  const [isAltTextCopied, setIsAltTextCopied] = useState(false);
   const modalRef = useRef<HTMLDivElement>(null);
 
   const handleDownload = useCallback(async () => {
@@ -63,6 +67,15 @@ const ExportModal: React.FC<ExportModalProps> = ({ imageFile, onClose }) => {
     }
   }, [imageFile, fileName, format, onClose]);
 
+  const handleCopyAltText = useCallback(async () => {
+    try {
+      await navigator.clipboard.writeText(altText);
+      setIsAltTextCopied(true);
+    } catch (error) {
+      console.error('Failed to copy the alt text:', error);
+    }
+  }, [altText]);
+
   // Handle closing modal on Escape key press
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
@@ -107,6 +120,26 @@ const ExportModal: React.FC<ExportModalProps> = ({ imageFile, onClose }) => {
           />
         </div>
 
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <label htmlFor="alt-text" className="block text-sm font-medium text-gray-300">ข้อความแทนภาพ (alt text)</label>
+            <button
+              onClick={handleCopyAltText}
+              disabled={!altText.trim()}
+              className="text-sm text-gray-400 hover:text-gray-200 underline underline-offset-2 transition-colors disabled:opacity-50 disabled:no-underline"
+            >
+              {isAltTextCopied ? 'คัดลอกแล้ว' : 'คัดลอก'}
+            </button>
+          </div>
+          <textarea
+            id="alt-text"
+            value={altText}
+            onChange={(e) => { setAltText(e.target.value); setIsAltTextCopied(false); }}
+            className="w-full bg-gray-900/50 border border-gray-600 text-gray-200 rounded-lg p-3 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none transition h-20 resize-none"
+            placeholder="คำอธิบายภาพสำหรับผู้พิการทางสายตา ใช้ปุ่ม 'วิเคราะห์' เพื่อให้ AI ช่วยเขียน"
+          />
+        </div>
+
         <fieldset>
             <legend className="block text-sm font-medium text-gray-300 mb-2">รูปแบบไฟล์</legend>
             <div className="grid grid-cols-2 gap-2 bg-gray-900/50 p-1 rounded-lg">
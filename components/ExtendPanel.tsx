@@ -0,0 +1,129 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import type { Size } from '../services/coordinates';
+import { aspectRatioNames, getAspectRatioValue, type AspectRatio } from '../services/textToImage';
+import { hasPadding, paddedSize, paddingForAspectRatio, type CanvasPadding } from '../services/outpaint';
+
+interface ExtendPanelProps {
+  documentSize: Size | null;
+  onApplyExtend: (padding: CanvasPadding, additionalPrompt: string) => void;
+  onPreviewPrompt: (additionalPrompt: string) => void;
+  isLoading: boolean;
+}
+
+type ExtendMode = 'padding' | 'aspect';
+
+const sideNames: Record<keyof CanvasPadding, string> = {
+  top: 'บน',
+  right: 'ขวา',
+  bottom: 'ล่าง',
+  left: 'ซ้าย',
+};
+
+const ExtendPanel: React.FC<ExtendPanelProps> = ({ documentSize, onApplyExtend, onPreviewPrompt, isLoading }) => {
+  const [mode, setMode] = useState<ExtendMode>('padding');
+  const [sidePadding, setSidePadding] = useState<CanvasPadding>({ top: 0, right: 0, bottom: 0, left: 0 });
+  const [aspectRatio, setAspectRatio] = useState<AspectRatio>('16:9');
+  const [additionalPrompt, setAdditionalPrompt] = useState('');
+
+  const padding = mode === 'aspect' && documentSize
+    ? paddingForAspectRatio(documentSize, getAspectRatioValue(aspectRatio))
+    : sidePadding;
+  const newSize = documentSize ? paddedSize(documentSize, padding) : null;
+
+  const handleSideChange = (side: keyof CanvasPadding, value: string) => {
+    const parsed = parseInt(value, 10);
+    setSidePadding(current => ({ ...current, [side]: Number.isFinite(parsed) && parsed > 0 ? parsed : 0 }));
+  };
+
+  const handleApply = () => {
+    onApplyExtend(padding, additionalPrompt);
+  };
+
+  return (
+    <div className="w-full bg-gray-800/50 border border-gray-700 rounded-lg p-4 flex flex-col gap-4 animate-fade-in backdrop-blur-sm">
+      <h3 className="text-lg font-semibold text-center text-gray-300">ขยายภาพ</h3>
+      <p className="text-sm text-center text-gray-400 -mt-2">เพิ่มพื้นที่รอบภาพ แล้วให้ AI เติมฉากต่อจากขอบเดิม</p>
+
+      <div className="grid grid-cols-2 gap-1 bg-gray-900/50 p-1 rounded-lg">
+        {([['padding', 'กำหนดขอบ'], ['aspect', 'ตามสัดส่วน']] as const).map(([value, label]) => (
+          <button
+            key={value}
+            onClick={() => setMode(value)}
+            disabled={isLoading}
+            className={`py-2 rounded-md text-sm font-semibold transition-colors disabled:opacity-50 ${mode === value ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-white/10'}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {mode === 'padding' ? (
+        <div className="grid grid-cols-2 gap-2">
+          {(Object.keys(sideNames) as (keyof CanvasPadding)[]).map(side => (
+            <label key={side} className="flex items-center justify-between gap-2 text-sm text-gray-300">
+              <span>{sideNames[side]}</span>
+              <input
+                type="number"
+                min="0"
+                step="16"
+                value={sidePadding[side]}
+                onChange={(e) => handleSideChange(side, e.target.value)}
+                disabled={isLoading}
+                className="w-24 bg-gray-900/50 border border-gray-600 text-gray-200 rounded-md p-1 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none"
+              />
+            </label>
+          ))}
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 gap-2">
+          {(Object.keys(aspectRatioNames) as AspectRatio[]).map(ratio => (
+            <button
+              key={ratio}
+              onClick={() => setAspectRatio(ratio)}
+              disabled={isLoading}
+              className={`py-2 rounded-md text-sm font-semibold transition-colors disabled:opacity-50 ${aspectRatio === ratio ? 'bg-blue-600 text-white' : 'bg-white/10 text-gray-200 hover:bg-white/20'}`}
+            >
+              {aspectRatioNames[ratio]}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {documentSize && newSize && (
+        <p className="text-xs text-center font-mono text-gray-400">
+          {documentSize.width} × {documentSize.height} → {newSize.width} × {newSize.height} px
+        </p>
+      )}
+
+      <input
+        type="text"
+        value={additionalPrompt}
+        onChange={(e) => setAdditionalPrompt(e.target.value)}
+        placeholder="คำสั่งเพิ่มเติม (เช่น 'ต่อทะเลและท้องฟ้าออกไป')"
+        className="flex-grow bg-gray-800 border border-gray-600 text-gray-200 rounded-lg p-4 focus:ring-2 focus:ring-blue-500 focus:outline-none transition w-full disabled:cursor-not-allowed disabled:opacity-60 text-base"
+        disabled={isLoading}
+      />
+
+      <button
+        onClick={handleApply}
+        className="w-full bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-4 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-blue-500/20 hover:shadow-xl hover:shadow-blue-500/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-blue-800 disabled:to-blue-700 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
+        disabled={isLoading || !documentSize || !hasPadding(padding)}
+      >
+        ขยายภาพ
+      </button>
+      <button
+        onClick={() => onPreviewPrompt(additionalPrompt)}
+        className="self-center text-sm text-gray-400 hover:text-gray-200 underline underline-offset-2 transition-colors"
+      >
+        ดูพรอมต์ที่จะส่ง
+      </button>
+    </div>
+  );
+};
+
+export default ExtendPanel;
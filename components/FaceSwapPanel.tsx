@@ -0,0 +1,175 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { UploadIcon } from './icons';
+import type { DetectedFace, FaceSwapDirection } from '../services/faces';
+
+interface FaceSwapPanelProps {
+  direction: FaceSwapDirection;
+  onDirectionChange: (direction: FaceSwapDirection) => void;
+  uploadedImage: File | null;
+  onUploadImage: (file: File) => void;
+  // Detected faces of the current source and target, or null until detection has run for them
+  sourceFaces: DetectedFace[] | null;
+  targetFaces: DetectedFace[] | null;
+  // For each target face, the index of the source face that replaces it, or null to leave it
+  pairings: (number | null)[];
+  onPairingChange: (targetIndex: number, sourceIndex: number | null) => void;
+  onDetectFaces: () => void;
+  onApplyFaceSwap: (additionalPrompt: string) => void;
+  onPreviewPrompt: (additionalPrompt: string) => void;
+  hasActiveLayer: boolean;
+  isLoading: boolean;
+}
+
+const directionNames: Record<FaceSwapDirection, string> = {
+  'into-layer': 'ใบหน้าจากภาพ → เลเยอร์',
+  'from-layer': 'ใบหน้าจากเลเยอร์ → ภาพ',
+};
+
+const directionHints: Record<FaceSwapDirection, string> = {
+  'into-layer': 'ใบหน้าจากภาพที่อัปโหลดจะถูกใส่ลงบนเลเยอร์ที่เลือก และผลลัพธ์จะแทนที่เลเยอร์นั้น',
+  'from-layer': 'ใบหน้าจากเลเยอร์ที่เลือกจะถูกใส่ลงบนภาพที่อัปโหลด และผลลัพธ์จะถูกเพิ่มเป็นเลเยอร์ใหม่',
+};
+
+const FaceThumbnail: React.FC<{ face: DetectedFace; label: string; isSelected?: boolean }> = ({ face, label, isSelected = false }) => (
+  <div className="flex flex-col items-center gap-1">
+    <img src={face.thumbnailUrl} alt={label} className={`w-14 h-14 rounded-md object-cover border-2 ${isSelected ? 'border-purple-500' : 'border-transparent'}`} />
+    <span className="text-xs text-gray-400">{label}</span>
+  </div>
+);
+
+const FaceSwapPanel: React.FC<FaceSwapPanelProps> = ({
+  direction,
+  onDirectionChange,
+  uploadedImage,
+  onUploadImage,
+  sourceFaces,
+  targetFaces,
+  pairings,
+  onPairingChange,
+  onDetectFaces,
+  onApplyFaceSwap,
+  onPreviewPrompt,
+  hasActiveLayer,
+  isLoading,
+}) => {
+  const [additionalPrompt, setAdditionalPrompt] = useState('');
+
+  const uploadRole = direction === 'into-layer' ? 'ภาพใบหน้าที่จะใช้' : 'ภาพที่จะใส่ใบหน้า';
+  const isDetected = !!sourceFaces && !!targetFaces;
+  const hasPair = pairings.some(choice => choice !== null);
+  const canApply = hasActiveLayer && !!uploadedImage && (!isDetected || hasPair);
+
+  return (
+    <div className="w-full bg-gray-800/50 border border-gray-700 rounded-lg p-4 flex flex-col gap-4 animate-fade-in backdrop-blur-sm">
+      <h3 className="text-lg font-semibold text-center text-gray-300">สลับใบหน้า</h3>
+
+      <div className="grid grid-cols-2 gap-1 bg-gray-900/50 p-1 rounded-lg">
+        {(Object.keys(directionNames) as FaceSwapDirection[]).map(value => (
+          <button
+            key={value}
+            onClick={() => onDirectionChange(value)}
+            disabled={isLoading}
+            className={`py-2 rounded-md text-sm font-semibold transition-colors disabled:opacity-50 ${direction === value ? 'bg-purple-600 text-white' : 'text-gray-300 hover:bg-white/10'}`}
+          >
+            {directionNames[value]}
+          </button>
+        ))}
+      </div>
+      <p className="text-sm text-center text-gray-400 -mt-2">{directionHints[direction]}</p>
+
+      <label htmlFor="faceswap-upload" className="relative flex items-center justify-center w-full px-4 py-4 text-sm font-semibold text-gray-300 bg-white/5 rounded-md cursor-pointer group hover:bg-white/10 transition-colors border-2 border-dashed border-gray-600 hover:border-gray-500">
+        <UploadIcon className="w-5 h-5 mr-2" />
+        {uploadedImage ? `เปลี่ยน${uploadRole}` : `อัปโหลด${uploadRole}`}
+        <input id="faceswap-upload" type="file" className="hidden" accept="image/*" onChange={(e) => e.target.files?.[0] && onUploadImage(e.target.files[0])} disabled={isLoading} />
+      </label>
+      {uploadedImage && (
+        <div className="flex items-center gap-3 p-2 bg-white/5 rounded-md">
+          <img src={URL.createObjectURL(uploadedImage)} alt={uploadRole} className="w-14 h-14 object-cover rounded-md flex-shrink-0" />
+          <div className="flex-grow overflow-hidden">
+            <p className="text-sm font-medium text-gray-200 truncate">{uploadedImage.name}</p>
+            <p className="text-xs text-gray-400">{`${(uploadedImage.size / 1024).toFixed(1)} KB`}</p>
+          </div>
+        </div>
+      )}
+
+      <button
+        onClick={onDetectFaces}
+        disabled={isLoading || !uploadedImage || !hasActiveLayer}
+        className="w-full bg-white/10 text-gray-200 font-semibold py-3 px-6 rounded-lg transition-colors hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isDetected ? 'ตรวจหาใบหน้าอีกครั้ง' : 'ตรวจหาใบหน้า'}
+      </button>
+      {!isDetected && (
+        <p className="text-xs text-center text-gray-500 -mt-2">หากไม่ตรวจหาใบหน้า AI จะเลือกใบหน้าหลักของแต่ละภาพเอง</p>
+      )}
+
+      {sourceFaces && targetFaces && (
+        <div className="flex flex-col gap-3 pt-3 border-t border-gray-700">
+          <div className="flex flex-col gap-2">
+            <span className="text-sm font-semibold text-gray-300">ใบหน้าต้นทาง</span>
+            {sourceFaces.length === 0
+              ? <p className="text-xs text-amber-400">ไม่พบใบหน้าในภาพต้นทาง</p>
+              : (
+                <div className="flex flex-wrap gap-2">
+                  {sourceFaces.map((face, i) => <FaceThumbnail key={i} face={face} label={`#${i + 1}`} isSelected={pairings.includes(i)} />)}
+                </div>
+              )}
+          </div>
+          <div className="flex flex-col gap-2">
+            <span className="text-sm font-semibold text-gray-300">ใบหน้าปลายทาง</span>
+            {targetFaces.length === 0 && <p className="text-xs text-amber-400">ไม่พบใบหน้าในภาพปลายทาง</p>}
+            {targetFaces.map((face, i) => (
+              <div key={i} className="flex items-center gap-3 p-2 bg-white/5 rounded-md">
+                <FaceThumbnail face={face} label={`#${i + 1}`} />
+                <span className="text-gray-400">←</span>
+                <select
+                  value={pairings[i] ?? ''}
+                  onChange={(e) => onPairingChange(i, e.target.value === '' ? null : Number(e.target.value))}
+                  disabled={isLoading || sourceFaces.length === 0}
+                  className="flex-grow bg-gray-800 border border-gray-600 text-gray-200 rounded-lg p-2 text-sm focus:ring-2 focus:ring-purple-500 focus:outline-none disabled:opacity-60"
+                >
+                  <option value="">ไม่สลับ</option>
+                  {sourceFaces.map((_, sourceIndex) => (
+                    <option key={sourceIndex} value={sourceIndex}>ใบหน้าต้นทาง #{sourceIndex + 1}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+          {!hasPair && targetFaces.length > 0 && sourceFaces.length > 0 && (
+            <p className="text-xs text-amber-400">เลือกใบหน้าต้นทางให้ใบหน้าปลายทางอย่างน้อยหนึ่งใบหน้า</p>
+          )}
+        </div>
+      )}
+
+      <input
+        type="text"
+        value={additionalPrompt}
+        onChange={(e) => setAdditionalPrompt(e.target.value)}
+        placeholder="คำสั่งเพิ่มเติม (ไม่บังคับ)"
+        className="flex-grow bg-gray-800 border border-gray-600 text-gray-200 rounded-lg p-3 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none transition w-full disabled:cursor-not-allowed disabled:opacity-60"
+        disabled={isLoading}
+      />
+      <button
+        onClick={() => onApplyFaceSwap(additionalPrompt)}
+        disabled={isLoading || !canApply}
+        className="w-full bg-gradient-to-br from-purple-600 to-purple-500 text-white font-bold py-4 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-purple-500/20 hover:shadow-xl hover:shadow-purple-500/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-purple-800 disabled:to-purple-700 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
+      >
+        สลับใบหน้า
+      </button>
+      <button
+        onClick={() => onPreviewPrompt(additionalPrompt)}
+        className="self-center text-sm text-gray-400 hover:text-gray-200 underline underline-offset-2 transition-colors"
+      >
+        ดูพรอมต์ที่จะส่ง
+      </button>
+    </div>
+  );
+};
+
+export default FaceSwapPanel;
@@ -4,23 +4,23 @@
 */
 
 import React, { useState } from 'react';
+import { filterPresets } from '../services/promptTemplates';
+import PromptPolicyNotice from './PromptPolicyNotice';
+import SuggestionChips from './SuggestionChips';
+import type { EditSuggestion } from '../services/imageAnalysis';
 
 interface FilterPanelProps {
   onApplyFilter: (prompt: string, additionalPrompt: string) => void;
+  onPreviewPrompt: (prompt: string, additionalPrompt: string) => void;
   isLoading: boolean;
+  // Edits suggested by analyzing the active layer, offered as ready-made prompts
+  suggestions: EditSuggestion[];
 }
 
-const FilterPanel: React.FC<FilterPanelProps> = ({ onApplyFilter, isLoading }) => {
+const FilterPanel: React.FC<FilterPanelProps> = ({ onApplyFilter, onPreviewPrompt, isLoading, suggestions }) => {
   const [selectedPresetPrompt, setSelectedPresetPrompt] = useState<string | null>(null);
   const [customPrompt, setCustomPrompt] = useState('');
   const [additionalPrompt, setAdditionalPrompt] = useState('');
-
-  const presets = [
-    { name: 'ซินธ์เวฟ', prompt: 'Transform the image with a retro 80s synthwave aesthetic. Add vibrant neon glows, especially magenta, cyan, and electric blue. Incorporate a subtle grid pattern on the floor or background if appropriate, and finish with a slight CRT scan line effect for that authentic retro-futuristic feel.' },
-    { name: 'อนิเมะ', prompt: 'Convert the photo into a vibrant, high-quality Japanese anime style. Emphasize expressive eyes, apply clean, bold outlines, use cel-shading for dramatic lighting, and boost color saturation to create a lively, animated look reminiscent of a modern anime film.' },
-    { name: 'โลโม่', prompt: 'Apply a classic Lomography film effect. Create high-contrast, heavily saturated colors with a strong cross-processed look. Introduce a heavy, dark vignette around the edges and a bit of light leak for an authentic, unpredictable, and artistic analog camera feel.' },
-    { name: 'กลิตช์', prompt: 'Induce a futuristic digital glitch effect. Introduce artifacts like datamoshing, pixel sorting, and screen tearing. Add prominent chromatic aberration (RGB color separation) and scan lines to make it look like a corrupted digital file or a malfunctioning holographic projection.' },
-  ];
   
   const activePrompt = selectedPresetPrompt || customPrompt;
 
@@ -34,20 +34,29 @@ const FilterPanel: React.FC<FilterPanelProps> = ({ onApplyFilter, isLoading }) =
     setSelectedPresetPrompt(null);
   };
 
+  const handleSuggestionSelect = (prompt: string) => {
+    setCustomPrompt(prompt);
+    setSelectedPresetPrompt(null);
+  };
+
   const handleApply = () => {
     if (activePrompt) {
       onApplyFilter(activePrompt, additionalPrompt);
     }
   };
 
+  const handlePreview = () => {
+    onPreviewPrompt(activePrompt, additionalPrompt);
+  };
+
   return (
     <div className="w-full bg-gray-800/50 border border-gray-700 rounded-lg p-4 flex flex-col gap-4 animate-fade-in backdrop-blur-sm">
       <h3 className="text-lg font-semibold text-center text-gray-300">เลือกฟิลเตอร์</h3>
       
       <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
-        {presets.map(preset => (
+        {filterPresets.map(preset => (
           <button
-            key={preset.name}
+            key={preset.id}
             onClick={() => handlePresetClick(preset.prompt)}
             disabled={isLoading}
             className={`w-full text-center bg-white/10 border border-transparent text-gray-200 font-semibold py-3 px-4 rounded-md transition-all duration-200 ease-in-out hover:bg-white/20 hover:border-white/20 active:scale-95 text-base disabled:opacity-50 disabled:cursor-not-allowed ${selectedPresetPrompt === preset.prompt ? 'ring-2 ring-offset-2 ring-offset-gray-800 ring-blue-500' : ''}`}
@@ -57,6 +66,7 @@ const FilterPanel: React.FC<FilterPanelProps> = ({ onApplyFilter, isLoading }) =
         ))}
       </div>
 
+      <SuggestionChips suggestions={suggestions} onSelect={handleSuggestionSelect} isLoading={isLoading} />
       <input
         type="text"
         value={customPrompt}
@@ -73,6 +83,7 @@ const FilterPanel: React.FC<FilterPanelProps> = ({ onApplyFilter, isLoading }) =
         className="flex-grow bg-gray-800 border border-gray-600 text-gray-200 rounded-lg p-3 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none transition w-full disabled:cursor-not-allowed disabled:opacity-60"
         disabled={isLoading}
       />
+      <PromptPolicyNotice texts={[customPrompt, additionalPrompt]} />
       
       {activePrompt && (
         <div className="animate-fade-in flex flex-col gap-4 pt-2">
@@ -83,6 +94,12 @@ const FilterPanel: React.FC<FilterPanelProps> = ({ onApplyFilter, isLoading }) =
           >
             ใช้ฟิลเตอร์นี้
           </button>
+          <button
+            onClick={handlePreview}
+            className="self-center text-sm text-gray-400 hover:text-gray-200 underline underline-offset-2 transition-colors"
+          >
+            ดูพรอมต์ที่จะส่ง
+          </button>
         </div>
       )}
     </div>
@@ -0,0 +1,178 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect, useRef } from 'react';
+import { CloseIcon, MagicWandIcon } from './icons';
+import { aspectRatioNames, type AspectRatio } from '../services/textToImage';
+import PromptPolicyNotice from './PromptPolicyNotice';
+
+export type GenerateTarget = 'layer' | 'document';
+
+export interface TextToImageRequest {
+  prompt: string;
+  // 'document' matches the open document, which is only offered for new layers
+  aspectRatio: AspectRatio | 'document';
+  target: GenerateTarget;
+  layerName: string;
+}
+
+interface GenerateImageModalProps {
+  // Whether a document is open that the result can be added to
+  canAddLayer: boolean;
+  defaultLayerName: string;
+  isTransparent: boolean;
+  onTransparentChange: (isTransparent: boolean) => void;
+  isLoading: boolean;
+  onGenerate: (request: TextToImageRequest) => void;
+  onClose: () => void;
+}
+
+const GenerateImageModal: React.FC<GenerateImageModalProps> = ({ canAddLayer, defaultLayerName, isTransparent, onTransparentChange, isLoading, onGenerate, onClose }) => {
+  const [prompt, setPrompt] = useState('');
+  const [target, setTarget] = useState<GenerateTarget>(canAddLayer ? 'layer' : 'document');
+  const [aspectRatio, setAspectRatio] = useState<TextToImageRequest['aspectRatio']>(canAddLayer ? 'document' : '1:1');
+  const [layerName, setLayerName] = useState('');
+  const modalRef = useRef<HTMLDivElement>(null);
+
+  // Handle closing modal on Escape key press
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  // Handle closing modal on outside click
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (modalRef.current && !modalRef.current.contains(event.target as Node)) {
+        onClose();
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [onClose]);
+
+  const handleTargetChange = (newTarget: GenerateTarget) => {
+    setTarget(newTarget);
+    if (newTarget === 'document' && aspectRatio === 'document') {
+      setAspectRatio('1:1');
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!prompt.trim()) return;
+    onGenerate({ prompt: prompt.trim(), aspectRatio, target, layerName: layerName.trim() || defaultLayerName });
+  };
+
+  const ratioOptions: TextToImageRequest['aspectRatio'][] = [
+    ...(target === 'layer' ? ['document' as const] : []),
+    ...(Object.keys(aspectRatioNames) as AspectRatio[]),
+  ];
+
+  return (
+    <div className="fixed inset-0 bg-black/70 z-50 flex items-center justify-center p-4 animate-fade-in backdrop-blur-sm" role="dialog" aria-modal="true" aria-labelledby="generate-title">
+      <form ref={modalRef} onSubmit={handleSubmit} className="relative bg-gray-800 border border-gray-700 rounded-xl p-8 w-full max-w-lg flex flex-col gap-4 shadow-2xl">
+        <div className="flex items-center justify-between">
+          <h2 id="generate-title" className="text-2xl font-bold text-white">สร้างภาพจากข้อความ</h2>
+          <button type="button" onClick={onClose} className="text-gray-400 hover:text-white transition-colors" aria-label="Close modal">
+            <CloseIcon className="w-6 h-6" />
+          </button>
+        </div>
+
+        <textarea
+          value={prompt}
+          onChange={(e) => setPrompt(e.target.value)}
+          placeholder="เช่น 'แมวส้มนอนบนโซฟาสีเขียว แสงยามเช้า'"
+          className="bg-gray-900/50 border border-gray-600 text-gray-200 rounded-lg p-4 focus:ring-2 focus:ring-blue-500 focus:outline-none transition w-full h-28 resize-none disabled:opacity-60"
+          disabled={isLoading}
+          autoFocus
+        />
+        <PromptPolicyNotice texts={[prompt]} />
+
+        {canAddLayer && (
+          <div className="flex items-center gap-1 bg-gray-900/50 p-1 rounded-lg">
+            {([['layer', 'เพิ่มเป็นเลเยอร์ใหม่'], ['document', 'เริ่มเอกสารใหม่']] as const).map(([value, label]) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => handleTargetChange(value)}
+                disabled={isLoading}
+                className={`flex-1 py-2 rounded-md text-sm font-semibold transition-colors disabled:opacity-50 ${target === value ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-white/10'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        )}
+        {canAddLayer && target === 'document' && (
+          <p className="text-xs text-amber-400">เลเยอร์และประวัติการแก้ไขทั้งหมดของเอกสารปัจจุบันจะถูกแทนที่</p>
+        )}
+
+        <label className="flex items-center justify-between gap-2">
+          <span className="text-sm font-semibold text-gray-300">สัดส่วนภาพ</span>
+          <select
+            value={aspectRatio}
+            onChange={(e) => setAspectRatio(e.target.value as TextToImageRequest['aspectRatio'])}
+            disabled={isLoading}
+            className="bg-gray-900/50 border border-gray-600 text-gray-200 rounded-md p-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none"
+          >
+            {ratioOptions.map(ratio => (
+              <option key={ratio} value={ratio}>{ratio === 'document' ? 'เท่ากับเอกสาร' : aspectRatioNames[ratio]}</option>
+            ))}
+          </select>
+        </label>
+
+        {target === 'layer' && (
+          <label className="flex items-center justify-between gap-2">
+            <span className="text-sm font-semibold text-gray-300">ชื่อเลเยอร์</span>
+            <input
+              type="text"
+              value={layerName}
+              onChange={(e) => setLayerName(e.target.value)}
+              placeholder={defaultLayerName}
+              disabled={isLoading}
+              className="w-48 bg-gray-900/50 border border-gray-600 text-gray-200 rounded-md p-2 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none"
+            />
+          </label>
+        )}
+
+        <label className="flex items-center justify-between cursor-pointer">
+          <span className="text-sm font-semibold text-gray-300">พื้นหลังโปร่งใส</span>
+          <div className="relative">
+            <input type="checkbox" checked={isTransparent} onChange={() => onTransparentChange(!isTransparent)} disabled={isLoading} className="sr-only peer" />
+            <div className="w-11 h-6 bg-gray-600 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-0.5 after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
+          </div>
+        </label>
+
+        <div className="flex items-center justify-end gap-3 pt-2">
+          <button
+            type="button"
+            onClick={onClose}
+            className="bg-white/10 text-gray-200 font-semibold py-3 px-6 rounded-lg transition-colors hover:bg-white/20"
+          >
+            {isLoading ? 'ยกเลิก' : 'ปิด'}
+          </button>
+          <button
+            type="submit"
+            disabled={isLoading || !prompt.trim()}
+            className="bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-3 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-blue-500/20 hover:shadow-xl hover:shadow-blue-500/40 hover:-translate-y-px active:scale-95 disabled:from-blue-800 disabled:to-blue-700 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
+          >
+            <div className="flex items-center justify-center gap-2">
+              <MagicWandIcon className="w-5 h-5" />
+              <span>{isLoading ? 'กำลังสร้าง...' : 'สร้างภาพ'}</span>
+            </div>
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default GenerateImageModal;
@@ -4,12 +4,22 @@
 */
 import React from 'react';
 
-const Header: React.FC = () => {
+interface HeaderProps {
+  // Shown as a badge when the app is not talking to the live AI backend
+  providerName?: string;
+}
+
+const Header: React.FC<HeaderProps> = ({ providerName }) => {
   return (
     <header className="w-full max-w-7xl text-center py-4 mb-4">
       <h1 className="text-3xl font-bold bg-gradient-to-br from-cyan-400 to-purple-500 bg-clip-text text-transparent">
         🌟 ✨ 💫 ⭐ 🌠กันต์ เกล้า🌟 ✨ 💫 ⭐ 🌠
       </h1>
+      {providerName && (
+        <span className="inline-block mt-2 px-3 py-1 text-xs font-semibold text-amber-200 bg-amber-500/20 border border-amber-500/40 rounded-full">
+          {providerName}
+        </span>
+      )}
     </header>
   );
 };
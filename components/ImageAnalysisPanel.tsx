@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import type { DetectedObject, ImageAnalysis } from '../services/imageAnalysis';
+
+interface ImageAnalysisPanelProps {
+  // The analysis of the active layer, or null until it has been analyzed
+  analysis: ImageAnalysis | null;
+  onAnalyze: () => void;
+  // When given, objects can be clicked, e.g. to make one the retouch target
+  onSelectObject?: (object: DetectedObject) => void;
+  isLoading: boolean;
+}
+
+const ImageAnalysisPanel: React.FC<ImageAnalysisPanelProps> = ({ analysis, onAnalyze, onSelectObject, isLoading }) => (
+  <div className="w-full bg-gray-800/50 border border-gray-700 rounded-lg p-3 flex flex-col gap-2 animate-fade-in backdrop-blur-sm">
+    <div className="flex items-center justify-between gap-2">
+      <span className="text-sm font-semibold text-gray-300">วิเคราะห์ภาพ</span>
+      <button
+        onClick={onAnalyze}
+        disabled={isLoading}
+        className="text-sm font-semibold text-gray-200 bg-white/10 hover:bg-white/20 px-3 py-1.5 rounded-md transition-colors disabled:opacity-50"
+      >
+        {analysis ? 'วิเคราะห์อีกครั้ง' : 'วิเคราะห์'}
+      </button>
+    </div>
+    {!analysis && (
+      <p className="text-xs text-gray-400">ให้ AI อธิบายภาพ ระบุวัตถุ และแนะนำการแก้ไขที่น่าลอง</p>
+    )}
+    {analysis && (
+      <>
+        <p className="text-sm text-gray-200">{analysis.caption}</p>
+        {analysis.objects.length > 0 && (
+          <div className="flex flex-wrap gap-1.5">
+            {analysis.objects.map((object, i) => onSelectObject ? (
+              <button
+                key={i}
+                onClick={() => onSelectObject(object)}
+                disabled={isLoading}
+                title="ใช้เป็นกรอบพื้นที่แก้ไข"
+                className="text-xs text-gray-300 bg-white/5 hover:bg-white/15 border border-gray-600 px-2 py-1 rounded-md transition-colors disabled:opacity-50"
+              >
+                {object.label}
+              </button>
+            ) : (
+              <span key={i} className="text-xs text-gray-400 bg-white/5 border border-gray-700 px-2 py-1 rounded-md">{object.label}</span>
+            ))}
+          </div>
+        )}
+      </>
+    )}
+  </div>
+);
+
+export default ImageAnalysisPanel;
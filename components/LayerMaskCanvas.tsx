@@ -0,0 +1,123 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef } from 'react';
+import { canvasToFile, loadImage } from '../services/imageUtils';
+import { getContainedRect, type Point } from '../services/coordinates';
+
+interface LayerMaskCanvasProps {
+  // The mask being painted; strokes are added on top of it
+  maskUrl: string;
+  // Natural size of the masked layer
+  width: number;
+  height: number;
+  // Brush diameter in screen pixels
+  brushSize: number;
+  // Whether strokes hide the layer (paint black) or reveal it again (paint white)
+  isHiding: boolean;
+  // Maps a pointer position into the layer's natural pixels, undoing the layer's transform
+  toImagePoint: (client: Point) => Point | null;
+  // Called after every stroke with the updated mask
+  onMaskChange: (mask: File) => void;
+}
+
+// Hidden areas are tinted so the user can see what the mask covers
+const HIDDEN_TINT = [239, 68, 68];
+
+/**
+ * Paints into a layer mask. The mask itself is kept on an offscreen canvas,
+ * and what is shown is a tint over the hidden areas, since the layer preview
+ * underneath already reflects the mask.
+ */
+const LayerMaskCanvas: React.FC<LayerMaskCanvasProps> = ({ maskUrl, width, height, brushSize, isHiding, toImagePoint, onMaskChange }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const maskRef = useRef<HTMLCanvasElement | null>(null);
+  const lastPoint = useRef<Point | null>(null);
+
+  // Loads the mask and draws its tint whenever it changes outside this canvas, e.g. on undo
+  useEffect(() => {
+    let cancelled = false;
+    loadImage(maskUrl).then(img => {
+      const overlay = canvasRef.current;
+      const overlayCtx = overlay?.getContext('2d');
+      if (cancelled || !overlay || !overlayCtx) return;
+
+      const mask = document.createElement('canvas');
+      mask.width = width;
+      mask.height = height;
+      const maskCtx = mask.getContext('2d')!;
+      maskCtx.drawImage(img, 0, 0, width, height);
+      maskRef.current = mask;
+
+      const { data } = maskCtx.getImageData(0, 0, width, height);
+      const tint = overlayCtx.createImageData(width, height);
+      for (let i = 0; i < data.length; i += 4) {
+        tint.data[i] = HIDDEN_TINT[0];
+        tint.data[i + 1] = HIDDEN_TINT[1];
+        tint.data[i + 2] = HIDDEN_TINT[2];
+        tint.data[i + 3] = 255 - data[i];
+      }
+      overlayCtx.putImageData(tint, 0, 0);
+    }).catch(err => console.error('Could not load layer mask', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [maskUrl, width, height]);
+
+  const drawTo = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const overlayCtx = canvasRef.current?.getContext('2d');
+    const maskCtx = maskRef.current?.getContext('2d');
+    const point = toImagePoint({ x: e.clientX, y: e.clientY });
+    if (!overlayCtx || !maskCtx || !point) return;
+    const { scale } = getContainedRect({ width: e.currentTarget.offsetWidth, height: e.currentTarget.offsetHeight }, { width, height });
+    const from = lastPoint.current ?? point;
+
+    for (const ctx of [overlayCtx, maskCtx]) {
+      ctx.lineWidth = brushSize / scale;
+      ctx.lineCap = 'round';
+      ctx.lineJoin = 'round';
+      ctx.beginPath();
+      ctx.moveTo(from.x, from.y);
+      ctx.lineTo(point.x, point.y);
+    }
+    maskCtx.strokeStyle = isHiding ? '#000' : '#fff';
+    maskCtx.stroke();
+    overlayCtx.globalCompositeOperation = isHiding ? 'source-over' : 'destination-out';
+    overlayCtx.strokeStyle = `rgb(${HIDDEN_TINT.join(',')})`;
+    overlayCtx.stroke();
+    lastPoint.current = point;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    lastPoint.current = null;
+    drawTo(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.buttons !== 1) return;
+    drawTo(e);
+  };
+
+  const handlePointerUp = async () => {
+    if (!lastPoint.current || !maskRef.current) return;
+    lastPoint.current = null;
+    onMaskChange(await canvasToFile(maskRef.current, `layer-mask-${Date.now()}.png`));
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={width}
+      height={height}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      className="absolute top-0 left-0 w-full h-full opacity-40 cursor-crosshair touch-none z-10"
+    />
+  );
+};
+
+export default LayerMaskCanvas;
@@ -0,0 +1,118 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import type { LayerMask } from '../services/layerMask';
+
+interface LayerMaskPanelProps {
+  // The active layer's mask, or null when it has none
+  mask: LayerMask | null;
+  hasLayer: boolean;
+  brushSize: number;
+  onBrushSizeChange: (size: number) => void;
+  isHiding: boolean;
+  onHidingChange: (isHiding: boolean) => void;
+  // Adds a mask that starts out showing (true) or hiding (false) the whole layer
+  onAddMask: (reveal: boolean) => void;
+  // Whether a box or painted mask is selected in the retouch tab
+  hasSelection: boolean;
+  onFillFromSelection: () => void;
+  onFillFromSubject: () => void;
+  onInvert: () => void;
+  onToggleEnabled: () => void;
+  // Bakes the mask into the layer's pixels and removes it
+  onApply: () => void;
+  onDelete: () => void;
+  isLoading: boolean;
+}
+
+const secondaryButton = 'flex-grow text-sm font-semibold py-2 rounded-md transition-colors disabled:opacity-50';
+
+const LayerMaskPanel: React.FC<LayerMaskPanelProps> = ({
+  mask,
+  hasLayer,
+  brushSize,
+  onBrushSizeChange,
+  isHiding,
+  onHidingChange,
+  onAddMask,
+  hasSelection,
+  onFillFromSelection,
+  onFillFromSubject,
+  onInvert,
+  onToggleEnabled,
+  onApply,
+  onDelete,
+  isLoading,
+}) => (
+  <div className="w-full bg-gray-800/50 border border-gray-700 rounded-lg p-4 flex flex-col gap-4 animate-fade-in backdrop-blur-sm">
+    <h3 className="text-lg font-semibold text-center text-gray-300">มาสก์เลเยอร์</h3>
+    <p className="text-sm text-center text-gray-400 -mt-2">ซ่อนบางส่วนของเลเยอร์โดยไม่แก้ไขภาพต้นฉบับ ปรับแก้หรือนำออกได้ทุกเมื่อ</p>
+
+    {!mask ? (
+      <div className="grid grid-cols-2 gap-2">
+        <button onClick={() => onAddMask(true)} disabled={isLoading || !hasLayer} className={`${secondaryButton} bg-white/10 text-gray-200 hover:bg-white/20`}>
+          เพิ่มมาสก์ (แสดงทั้งหมด)
+        </button>
+        <button onClick={() => onAddMask(false)} disabled={isLoading || !hasLayer} className={`${secondaryButton} bg-white/10 text-gray-200 hover:bg-white/20`}>
+          เพิ่มมาสก์ (ซ่อนทั้งหมด)
+        </button>
+      </div>
+    ) : (
+      <>
+        <div className="flex flex-col gap-3 p-3 bg-gray-900/40 border border-gray-700/60 rounded-lg">
+          <div className="flex items-center gap-3">
+            <label htmlFor="layer-mask-brush-size" className="text-sm font-medium text-gray-400">แปรง:</label>
+            <input id="layer-mask-brush-size" type="range" min="5" max="120" value={brushSize} onChange={(e) => onBrushSizeChange(parseInt(e.target.value))} className="flex-grow" disabled={isLoading}/>
+            <span className="text-sm font-mono text-gray-300">{brushSize}px</span>
+          </div>
+          <div className="grid grid-cols-2 gap-1 bg-gray-900/50 p-1 rounded-lg">
+            {([[true, 'ระบายเพื่อซ่อน'], [false, 'ยางลบ (แสดงคืน)']] as const).map(([value, label]) => (
+              <button
+                key={label}
+                onClick={() => onHidingChange(value)}
+                disabled={isLoading}
+                className={`py-2 rounded-md text-sm font-semibold transition-colors disabled:opacity-50 ${isHiding === value ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-white/10'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <button
+            onClick={onFillFromSelection}
+            disabled={isLoading || !hasSelection}
+            title="ใช้กรอบหรือมาสก์ที่เลือกไว้ในแท็บรีทัช"
+            className={`${secondaryButton} bg-white/10 text-gray-200 hover:bg-white/20`}
+          >
+            เติมจากส่วนที่เลือก
+          </button>
+          <button onClick={onFillFromSubject} disabled={isLoading} className={`${secondaryButton} bg-white/10 text-gray-200 hover:bg-white/20`}>
+            เลือกวัตถุด้วย AI
+          </button>
+          <button onClick={onInvert} disabled={isLoading} className={`${secondaryButton} bg-white/10 text-gray-200 hover:bg-white/20`}>
+            กลับด้านมาสก์
+          </button>
+          <button onClick={onToggleEnabled} disabled={isLoading} className={`${secondaryButton} bg-white/10 text-gray-200 hover:bg-white/20`}>
+            {mask.enabled ? 'ปิดมาสก์ชั่วคราว' : 'เปิดมาสก์'}
+          </button>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <button onClick={onApply} disabled={isLoading || !mask.enabled} className={`${secondaryButton} bg-blue-600 text-white hover:bg-blue-500`}>
+            ใช้มาสก์กับภาพ
+          </button>
+          <button onClick={onDelete} disabled={isLoading} className={`${secondaryButton} text-red-400 hover:text-red-300 bg-red-500/10 hover:bg-red-500/20`}>
+            ลบมาสก์
+          </button>
+        </div>
+      </>
+    )}
+  </div>
+);
+
+export default LayerMaskPanel;
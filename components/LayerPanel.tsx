@@ -3,19 +3,31 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useRef } from 'react';
+import React, { useRef, useState } from 'react';
 import type { Layer } from '../App';
-import { PlusIcon, TrashIcon, EyeIcon, EyeSlashIcon } from './icons';
+import { PlusIcon, TrashIcon, EyeIcon, EyeSlashIcon, MagicWandIcon, FolderIcon, ChevronRightIcon } from './icons';
+import { blendModeNames, type BlendMode } from '../services/blendModes';
+import { buildLayerStack, moveInStack, type LayerGroup, type StackDropTarget, type StackItemRef } from '../services/layerGroups';
 
 interface LayerPanelProps {
   layers: Layer[];
   activeLayerId: string | null;
   onLayerSelect: (id: string) => void;
   onLayerAdd: (file: File) => void;
+  // Opens the text-to-image dialog
+  onLayerGenerate: () => void;
   onLayerDelete: (id: string) => void;
   // FIX: Renamed prop from onReorderLayers to onLayerReorder for consistency and to fix type error.
   onLayerReorder: (newLayers: Layer[]) => void;
   onLayerOpacityChange: (id: string, opacity: number) => void;
+  onLayerBlendModeChange: (id: string, blendMode: BlendMode) => void;
+  // Selects the layer and opens its mask for editing
+  onLayerMaskSelect: (id: string) => void;
+  // Puts the active layer in a new group
+  onGroupCreate: () => void;
+  onGroupUngroup: (groupId: string) => void;
+  onGroupChange: (groupId: string, changes: Partial<LayerGroup>) => void;
+  onGroupOpacityChange: (groupId: string, opacity: number) => void;
   onLayerVisibilityChange: (id: string) => void;
   isLoading: boolean;
 }
@@ -25,16 +37,25 @@ const LayerPanel: React.FC<LayerPanelProps> = ({
   activeLayerId,
   onLayerSelect,
   onLayerAdd,
+  onLayerGenerate,
   onLayerDelete,
   // FIX: Renamed prop from onReorderLayers to onLayerReorder for consistency and to fix type error.
   onLayerReorder,
   onLayerOpacityChange,
+  onLayerBlendModeChange,
+  onLayerMaskSelect,
+  onGroupCreate,
+  onGroupUngroup,
+  onGroupChange,
+  onGroupOpacityChange,
   onLayerVisibilityChange,
   isLoading,
 }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const dragItem = useRef<number | null>(null);
-  const dragOverItem = useRef<number | null>(null);
+  const dragItem = useRef<StackItemRef | null>(null);
+  const [dropTarget, setDropTarget] = useState<StackDropTarget | null>(null);
+  // Collapsing is only a view setting, so it isn't part of the layers or history
+  const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(new Set());
 
   const handleAddLayerClick = () => {
     fileInputRef.current?.click();
@@ -47,46 +68,255 @@ const LayerPanel: React.FC<LayerPanelProps> = ({
     e.target.value = ''; // Reset file input
   };
 
-  const reversedLayers = [...layers].reverse();
+  const toggleCollapsed = (groupId: string) => {
+    setCollapsedGroups(current => {
+      const next = new Set(current);
+      if (!next.delete(groupId)) next.add(groupId);
+      return next;
+    });
+  };
+
+  // The panel lists the top of the stack first
+  const stack = buildLayerStack<Layer>(layers).reverse();
+  const activeLayer = layers.find(l => l.id === activeLayerId);
 
-  const handleDragStart = (e: React.DragEvent<HTMLLIElement>, index: number) => {
-    dragItem.current = index;
-    // Set a lower opacity drag image for better UX
+  const handleDragStart = (e: React.DragEvent<HTMLLIElement>, item: StackItemRef) => {
+    e.stopPropagation();
+    dragItem.current = item;
     if (e.dataTransfer) {
         e.dataTransfer.effectAllowed = 'move';
     }
   };
 
-  const handleDragEnter = (e: React.DragEvent<HTMLLIElement>, index: number) => {
+  // The upper half of a row drops above it, the lower half below it (or into a group)
+  const handleDragOver = (e: React.DragEvent<HTMLLIElement>, item: StackItemRef) => {
+    if (!dragItem.current) return;
     e.preventDefault();
-    dragOverItem.current = index;
+    const bounds = e.currentTarget.getBoundingClientRect();
+    const position = e.clientY < bounds.top + bounds.height / 2 ? 'above' : 'below';
+    if (dropTarget?.kind !== item.kind || dropTarget.id !== item.id || dropTarget.position !== position) {
+      setDropTarget({ ...item, position });
+    }
   };
 
   const handleDragEnd = () => {
-    if (dragItem.current !== null && dragOverItem.current !== null && dragItem.current !== dragOverItem.current) {
-        const reorderedLayers = [...reversedLayers];
-        const [draggedItemContent] = reorderedLayers.splice(dragItem.current, 1);
-        reorderedLayers.splice(dragOverItem.current, 0, draggedItemContent);
-        // FIX: Renamed prop from onReorderLayers to onLayerReorder for consistency and to fix type error.
-        onLayerReorder(reorderedLayers.reverse());
-    }
     dragItem.current = null;
-    dragOverItem.current = null;
+    setDropTarget(null);
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLLIElement>) => {
+    e.preventDefault();
+    if (dragItem.current && dropTarget) {
+      const reordered = moveInStack(layers, dragItem.current, dropTarget);
+      if (reordered !== layers) onLayerReorder(reordered);
+    }
+    handleDragEnd();
+  };
+
+  const dropIndicator = (item: StackItemRef) => {
+    if (dropTarget?.kind !== item.kind || dropTarget.id !== item.id) return '';
+    return dropTarget.position === 'above' ? 'border-t-2 border-t-blue-400' : 'border-b-2 border-b-blue-400';
+  };
+
+  const renderLayer = (layer: Layer, isInGroup: boolean) => {
+    const ref: StackItemRef = { kind: 'layer', id: layer.id };
+    return (
+      <li
+        key={layer.id}
+        draggable={!isLoading}
+        onDragStart={(e) => handleDragStart(e, ref)}
+        onDragOver={(e) => handleDragOver(e, ref)}
+        onDrop={handleDrop}
+        onDragEnd={handleDragEnd}
+        onClick={() => onLayerSelect(layer.id)}
+        className={`flex flex-col gap-2 p-2 rounded-lg cursor-pointer transition-all duration-200 ${isInGroup ? 'ml-4' : ''} ${dropIndicator(ref)} ${
+          activeLayerId === layer.id
+            ? 'bg-blue-600/30 ring-2 ring-blue-500'
+            : 'bg-gray-900/40 hover:bg-gray-900/80'
+        }`}
+      >
+        <div className="flex items-center gap-3">
+          <img src={layer.objectUrl} alt={layer.name} className="w-12 h-12 object-cover rounded-md flex-shrink-0 bg-white/5" />
+          {layer.mask && (
+            <button
+              onClick={(e) => { e.stopPropagation(); onLayerMaskSelect(layer.id); }}
+              disabled={isLoading}
+              className="relative flex-shrink-0 rounded-md hover:ring-2 hover:ring-blue-400 disabled:opacity-40"
+              aria-label="Edit layer mask"
+              title={layer.mask.enabled ? 'แก้ไขมาสก์เลเยอร์' : 'มาสก์เลเยอร์ (ปิดอยู่)'}
+            >
+              <img src={layer.mask.objectUrl} alt="" className={`w-12 h-12 object-cover rounded-md ${layer.mask.enabled ? '' : 'opacity-40'}`} />
+              {!layer.mask.enabled && (
+                <span className="absolute inset-0 flex items-center justify-center text-red-400 text-2xl font-bold pointer-events-none">×</span>
+              )}
+            </button>
+          )}
+          <div className="flex-grow overflow-hidden">
+            <p className="text-sm font-semibold text-gray-100 truncate">{layer.name}</p>
+          </div>
+          <div className="flex items-center gap-1">
+            <button
+                onClick={(e) => { e.stopPropagation(); onLayerVisibilityChange(layer.id); }}
+                disabled={isLoading}
+                className="p-2 rounded-md hover:bg-white/10 disabled:opacity-40"
+                aria-label={layer.isVisible ? "Hide layer" : "Show layer"}
+            >
+                {layer.isVisible ? <EyeIcon className="w-5 h-5" /> : <EyeSlashIcon className="w-5 h-5 text-gray-400" />}
+            </button>
+            <button
+              onClick={(e) => { e.stopPropagation(); onLayerDelete(layer.id); }}
+              disabled={isLoading || layers.length <= 1}
+              className="p-2 rounded-md text-red-400 hover:bg-red-500/20 disabled:opacity-40 disabled:cursor-not-allowed disabled:text-gray-500 disabled:hover:bg-transparent"
+              aria-label="Delete layer"
+            >
+              <TrashIcon className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+        {/* Opacity slider */}
+        <div className="flex items-center gap-2 px-1">
+            <label htmlFor={`opacity-${layer.id}`} className="text-xs text-gray-400">ความทึบ</label>
+            <input
+                id={`opacity-${layer.id}`}
+                type="range"
+                min="0"
+                max="100"
+                value={layer.opacity}
+                onChange={(e) => { e.stopPropagation(); onLayerOpacityChange(layer.id, parseInt(e.target.value, 10)); }}
+                disabled={isLoading}
+                className="flex-grow h-1 bg-gray-600 rounded-lg appearance-none cursor-pointer range-sm"
+                onClick={(e) => e.stopPropagation()} // Prevent layer selection when clicking slider
+            />
+            <span className="text-xs font-mono text-gray-300 w-8 text-right">{layer.opacity}%</span>
+        </div>
+        <div className="flex items-center gap-2 px-1">
+            <label htmlFor={`blend-${layer.id}`} className="text-xs text-gray-400">การผสม</label>
+            <select
+                id={`blend-${layer.id}`}
+                value={layer.blendMode}
+                onChange={(e) => onLayerBlendModeChange(layer.id, e.target.value as BlendMode)}
+                disabled={isLoading}
+                className="flex-grow bg-gray-900/50 border border-gray-600 text-gray-200 rounded-md p-1 text-xs focus:ring-2 focus:ring-blue-500 focus:outline-none disabled:opacity-50"
+                onClick={(e) => e.stopPropagation()} // Prevent layer selection when opening the list
+            >
+                {(Object.keys(blendModeNames) as BlendMode[]).map(mode => (
+                    <option key={mode} value={mode}>{blendModeNames[mode]}</option>
+                ))}
+            </select>
+        </div>
+      </li>
+    );
+  };
+
+  const renderGroup = (group: LayerGroup, members: Layer[]) => {
+    const ref: StackItemRef = { kind: 'group', id: group.id };
+    const isCollapsed = collapsedGroups.has(group.id);
+    return (
+      <React.Fragment key={group.id}>
+        <li
+          draggable={!isLoading}
+          onDragStart={(e) => handleDragStart(e, ref)}
+          onDragOver={(e) => handleDragOver(e, ref)}
+          onDrop={handleDrop}
+          onDragEnd={handleDragEnd}
+          onClick={() => toggleCollapsed(group.id)}
+          className={`flex flex-col gap-2 p-2 rounded-lg cursor-pointer bg-gray-900/60 border border-gray-700 hover:bg-gray-900/80 transition-all duration-200 ${dropIndicator(ref)}`}
+        >
+          <div className="flex items-center gap-2">
+            <ChevronRightIcon className={`w-4 h-4 text-gray-400 flex-shrink-0 transition-transform ${isCollapsed ? '' : 'rotate-90'}`} />
+            <FolderIcon className="w-6 h-6 text-blue-300 flex-shrink-0" />
+            <div className="flex-grow overflow-hidden">
+              <p className="text-sm font-semibold text-gray-100 truncate">{group.name}</p>
+              <p className="text-xs text-gray-400">{members.length} เลเยอร์</p>
+            </div>
+            <div className="flex items-center gap-1">
+              <button
+                  onClick={(e) => { e.stopPropagation(); onGroupChange(group.id, { isVisible: !group.isVisible }); }}
+                  disabled={isLoading}
+                  className="p-2 rounded-md hover:bg-white/10 disabled:opacity-40"
+                  aria-label={group.isVisible ? "Hide group" : "Show group"}
+              >
+                  {group.isVisible ? <EyeIcon className="w-5 h-5" /> : <EyeSlashIcon className="w-5 h-5 text-gray-400" />}
+              </button>
+              <button
+                onClick={(e) => { e.stopPropagation(); onGroupUngroup(group.id); }}
+                disabled={isLoading}
+                className="text-xs font-semibold text-gray-300 px-2 py-1 rounded-md hover:bg-white/10 disabled:opacity-40"
+                title="นำเลเยอร์ออกจากกลุ่มโดยไม่ลบเลเยอร์"
+              >
+                ยกเลิกกลุ่ม
+              </button>
+            </div>
+          </div>
+          <div className="flex items-center gap-2 px-1">
+              <label htmlFor={`opacity-${group.id}`} className="text-xs text-gray-400">ความทึบ</label>
+              <input
+                  id={`opacity-${group.id}`}
+                  type="range"
+                  min="0"
+                  max="100"
+                  value={group.opacity}
+                  onChange={(e) => onGroupOpacityChange(group.id, parseInt(e.target.value, 10))}
+                  disabled={isLoading}
+                  className="flex-grow h-1 bg-gray-600 rounded-lg appearance-none cursor-pointer range-sm"
+                  onClick={(e) => e.stopPropagation()} // Prevent collapsing when clicking slider
+              />
+              <span className="text-xs font-mono text-gray-300 w-8 text-right">{group.opacity}%</span>
+          </div>
+          <div className="flex items-center gap-2 px-1">
+              <label htmlFor={`blend-${group.id}`} className="text-xs text-gray-400">การผสม</label>
+              <select
+                  id={`blend-${group.id}`}
+                  value={group.blendMode}
+                  onChange={(e) => onGroupChange(group.id, { blendMode: e.target.value as BlendMode })}
+                  disabled={isLoading}
+                  className="flex-grow bg-gray-900/50 border border-gray-600 text-gray-200 rounded-md p-1 text-xs focus:ring-2 focus:ring-blue-500 focus:outline-none disabled:opacity-50"
+                  onClick={(e) => e.stopPropagation()} // Prevent collapsing when opening the list
+              >
+                  {(Object.keys(blendModeNames) as BlendMode[]).map(mode => (
+                      <option key={mode} value={mode}>{blendModeNames[mode]}</option>
+                  ))}
+              </select>
+          </div>
+        </li>
+        {!isCollapsed && [...members].reverse().map(layer => renderLayer(layer, true))}
+      </React.Fragment>
+    );
   };
 
   return (
     <div className="w-full bg-gray-800/50 border border-gray-700 rounded-lg p-4 flex flex-col gap-4 animate-fade-in backdrop-blur-sm">
       <div className="flex items-center justify-between">
         <h3 className="text-lg font-semibold text-gray-300">เลเยอร์</h3>
-        <button
-          onClick={handleAddLayerClick}
-          disabled={isLoading}
-          className="flex items-center gap-2 p-2 rounded-md bg-white/10 hover:bg-white/20 disabled:opacity-40 disabled:cursor-not-allowed transition-colors text-sm"
-          aria-label="Add new layer"
-        >
-          <PlusIcon className="w-5 h-5" />
-          <span>เพิ่มเลเยอร์</span>
-        </button>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={onLayerGenerate}
+            disabled={isLoading}
+            className="p-2 rounded-md bg-white/10 hover:bg-white/20 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+            aria-label="Generate new layer from text"
+            title="สร้างเลเยอร์จากข้อความ"
+          >
+            <MagicWandIcon className="w-5 h-5" />
+          </button>
+          <button
+            onClick={onGroupCreate}
+            disabled={isLoading || !activeLayer || !!activeLayer.group}
+            className="p-2 rounded-md bg-white/10 hover:bg-white/20 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+            aria-label="Group the selected layer"
+            title="ย้ายเลเยอร์ที่เลือกไปไว้ในกลุ่มใหม่"
+          >
+            <FolderIcon className="w-5 h-5" />
+          </button>
+          <button
+            onClick={handleAddLayerClick}
+            disabled={isLoading}
+            className="flex items-center gap-2 p-2 rounded-md bg-white/10 hover:bg-white/20 disabled:opacity-40 disabled:cursor-not-allowed transition-colors text-sm"
+            aria-label="Add new layer"
+          >
+            <PlusIcon className="w-5 h-5" />
+            <span>เพิ่มเลเยอร์</span>
+          </button>
+        </div>
         <input
           type="file"
           ref={fileInputRef}
@@ -97,63 +327,7 @@ const LayerPanel: React.FC<LayerPanelProps> = ({
       </div>
 
       <ul className="flex flex-col gap-2">
-        {reversedLayers.map((layer, index) => (
-          <li
-            key={layer.id}
-            draggable={!isLoading}
-            onDragStart={(e) => handleDragStart(e, index)}
-            onDragEnter={(e) => handleDragEnter(e, index)}
-            onDragEnd={handleDragEnd}
-            onDragOver={(e) => e.preventDefault()}
-            onClick={() => onLayerSelect(layer.id)}
-            className={`flex flex-col gap-2 p-2 rounded-lg cursor-pointer transition-all duration-200 ${
-              activeLayerId === layer.id
-                ? 'bg-blue-600/30 ring-2 ring-blue-500'
-                : 'bg-gray-900/40 hover:bg-gray-900/80'
-            }`}
-          >
-            <div className="flex items-center gap-3">
-              <img src={layer.objectUrl} alt={layer.name} className="w-12 h-12 object-cover rounded-md flex-shrink-0 bg-white/5" />
-              <div className="flex-grow overflow-hidden">
-                <p className="text-sm font-semibold text-gray-100 truncate">{layer.name}</p>
-              </div>
-              <div className="flex items-center gap-1">
-                <button
-                    onClick={(e) => { e.stopPropagation(); onLayerVisibilityChange(layer.id); }}
-                    disabled={isLoading}
-                    className="p-2 rounded-md hover:bg-white/10 disabled:opacity-40"
-                    aria-label={layer.isVisible ? "Hide layer" : "Show layer"}
-                >
-                    {layer.isVisible ? <EyeIcon className="w-5 h-5" /> : <EyeSlashIcon className="w-5 h-5 text-gray-400" />}
-                </button>
-                <button
-                  onClick={(e) => { e.stopPropagation(); onLayerDelete(layer.id); }}
-                  disabled={isLoading || layers.length <= 1}
-                  className="p-2 rounded-md text-red-400 hover:bg-red-500/20 disabled:opacity-40 disabled:cursor-not-allowed disabled:text-gray-500 disabled:hover:bg-transparent"
-                  aria-label="Delete layer"
-                >
-                  <TrashIcon className="w-5 h-5" />
-                </button>
-              </div>
-            </div>
-            {/* Opacity slider */}
-            <div className="flex items-center gap-2 px-1">
-                <label htmlFor={`opacity-${layer.id}`} className="text-xs text-gray-400">ความทึบ</label>
-                <input
-                    id={`opacity-${layer.id}`}
-                    type="range"
-                    min="0"
-                    max="100"
-                    value={layer.opacity}
-                    onChange={(e) => { e.stopPropagation(); onLayerOpacityChange(layer.id, parseInt(e.target.value, 10)); }}
-                    disabled={isLoading}
-                    className="flex-grow h-1 bg-gray-600 rounded-lg appearance-none cursor-pointer range-sm"
-                    onClick={(e) => e.stopPropagation()} // Prevent layer selection when clicking slider
-                />
-                <span className="text-xs font-mono text-gray-300 w-8 text-right">{layer.opacity}%</span>
-            </div>
-          </li>
-        ))}
+        {stack.map(item => item.kind === 'layer' ? renderLayer(item.layer, false) : renderGroup(item.group, item.layers))}
       </ul>
     </div>
   );
@@ -0,0 +1,105 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useRef } from 'react';
+import { canvasToFile, createCanvas } from '../services/imageUtils';
+import { getContainedRect, type Point } from '../services/coordinates';
+
+interface MaskCanvasProps {
+  // Natural size of the layer being masked
+  width: number;
+  height: number;
+  // Brush diameter in screen pixels
+  brushSize: number;
+  isErasing: boolean;
+  // Maps a pointer position into the layer's natural pixels, undoing the layer's transform
+  toImagePoint: (client: Point) => Point | null;
+  // Called after every stroke with a white-on-black mask, or null when empty
+  onMaskChange: (mask: File | null) => void;
+}
+
+const STROKE_COLOR = '#ef4444';
+
+/**
+ * A paintable overlay sized to the layer's natural pixels and placed over the
+ * layer with the same transform, so strokes line up with what is on screen.
+ */
+const MaskCanvas: React.FC<MaskCanvasProps> = ({ width, height, brushSize, isErasing, toImagePoint, onMaskChange }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPoint = useRef<{ x: number, y: number } | null>(null);
+
+  const drawTo = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    const point = toImagePoint({ x: e.clientX, y: e.clientY });
+    if (!ctx || !point) return;
+    // Layout sizes rather than the bounding box, which grows when the layer is rotated
+    const { scale } = getContainedRect({ width: e.currentTarget.offsetWidth, height: e.currentTarget.offsetHeight }, { width, height });
+    const from = lastPoint.current ?? point;
+
+    ctx.globalCompositeOperation = isErasing ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = STROKE_COLOR;
+    ctx.lineWidth = brushSize / scale;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(point.x, point.y);
+    ctx.stroke();
+    lastPoint.current = point;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    lastPoint.current = null;
+    drawTo(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.buttons !== 1) return;
+    drawTo(e);
+  };
+
+  const handlePointerUp = async () => {
+    lastPoint.current = null;
+    const source = canvasRef.current;
+    if (!source) return;
+
+    const sourceCtx = source.getContext('2d');
+    const { data } = sourceCtx!.getImageData(0, 0, width, height);
+    let isEmpty = true;
+    for (let i = 3; i < data.length; i += 4) {
+      if (data[i] > 0) {
+        isEmpty = false;
+        break;
+      }
+    }
+    if (isEmpty) {
+      onMaskChange(null);
+      return;
+    }
+
+    // Flatten the red overlay into a white-on-black mask
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, width, height);
+    ctx.filter = 'brightness(0) invert(1)';
+    ctx.drawImage(source, 0, 0);
+    onMaskChange(await canvasToFile(canvas, `mask-${Date.now()}.png`));
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={width}
+      height={height}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      className="absolute top-0 left-0 w-full h-full object-contain opacity-50 cursor-crosshair touch-none z-10"
+    />
+  );
+};
+
+export default MaskCanvas;
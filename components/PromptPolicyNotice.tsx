@@ -0,0 +1,30 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { checkPromptPolicy } from '../services/promptPolicy';
+
+interface PromptPolicyNoticeProps {
+  // The user-written parts of the request, checked as they are typed
+  texts: string[];
+}
+
+const PromptPolicyNotice: React.FC<PromptPolicyNoticeProps> = ({ texts }) => {
+  const violations = checkPromptPolicy(texts);
+  if (violations.length === 0) return null;
+
+  const explanations = [...new Map(violations.map(violation => [violation.explanation, violation])).values()];
+  return (
+    <div className="flex flex-col gap-1" role="status">
+      {explanations.map(violation => (
+        <p key={violation.explanation} className={`text-xs ${violation.severity === 'block' ? 'text-red-400' : 'text-amber-400'}`}>
+          {violation.severity === 'block' ? 'คำสั่งนี้จะไม่ถูกส่ง: ' : 'คำเตือน: '}{violation.explanation}
+        </p>
+      ))}
+    </div>
+  );
+};
+
+export default PromptPolicyNotice;
@@ -7,16 +7,21 @@ import React, { useState } from 'react';
 
 interface RemoveBackgroundPanelProps {
   onApplyRemoveBackground: (additionalPrompt: string) => void;
+  onPreviewPrompt: (additionalPrompt: string) => void;
   isLoading: boolean;
 }
 
-const RemoveBackgroundPanel: React.FC<RemoveBackgroundPanelProps> = ({ onApplyRemoveBackground, isLoading }) => {
+const RemoveBackgroundPanel: React.FC<RemoveBackgroundPanelProps> = ({ onApplyRemoveBackground, onPreviewPrompt, isLoading }) => {
   const [additionalPrompt, setAdditionalPrompt] = useState('');
 
   const handleApply = () => {
     onApplyRemoveBackground(additionalPrompt);
   };
 
+  const handlePreview = () => {
+    onPreviewPrompt(additionalPrompt);
+  };
+
   return (
     <div className="w-full bg-gray-800/50 border border-gray-700 rounded-lg p-4 flex flex-col items-center gap-4 animate-fade-in backdrop-blur-sm">
       <h3 className="text-lg font-semibold text-center text-gray-300">ลบพื้นหลัง</h3>
@@ -38,6 +43,12 @@ const RemoveBackgroundPanel: React.FC<RemoveBackgroundPanelProps> = ({ onApplyRe
       >
         ลบพื้นหลัง
       </button>
+      <button
+        onClick={handlePreview}
+        className="self-center text-sm text-gray-400 hover:text-gray-200 underline underline-offset-2 transition-colors"
+      >
+        ดูพรอมต์ที่จะส่ง
+      </button>
     </div>
   );
 };
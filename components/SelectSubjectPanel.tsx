@@ -0,0 +1,84 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect } from 'react';
+import { defaultMaskRefinement, type MaskRefinement } from '../services/mask';
+
+interface SelectSubjectPanelProps {
+  // The refinement of the active layer's current selection, or null when it has none
+  refinement: MaskRefinement | null;
+  onSelectSubject: (additionalPrompt: string) => void;
+  onRefine: (refinement: MaskRefinement) => void;
+  onPreviewPrompt: (additionalPrompt: string) => void;
+  isLoading: boolean;
+}
+
+const SelectSubjectPanel: React.FC<SelectSubjectPanelProps> = ({ refinement, onSelectSubject, onRefine, onPreviewPrompt, isLoading }) => {
+  const [additionalPrompt, setAdditionalPrompt] = useState('');
+  const [draft, setDraft] = useState<MaskRefinement>(refinement ?? defaultMaskRefinement);
+
+  // Start from whatever the layer's selection currently uses
+  useEffect(() => {
+    setDraft(refinement ?? defaultMaskRefinement);
+  }, [refinement]);
+
+  const isDirty = !!refinement && (draft.invert !== refinement.invert || draft.grow !== refinement.grow || draft.featherPx !== refinement.featherPx);
+
+  return (
+    <div className="w-full bg-gray-800/50 border border-gray-700 rounded-lg p-4 flex flex-col gap-4 animate-fade-in backdrop-blur-sm">
+      <h3 className="text-lg font-semibold text-center text-gray-300">เลือกวัตถุ</h3>
+      <p className="text-sm text-center text-gray-400 -mt-2">AI สร้างเฉพาะมาสก์ของวัตถุ แล้วตัดพื้นหลังออกโดยคงพิกเซลเดิมไว้ทั้งหมด</p>
+
+      <input
+        type="text"
+        value={additionalPrompt}
+        onChange={(e) => setAdditionalPrompt(e.target.value)}
+        placeholder="ระบุวัตถุ (เช่น 'คนทางซ้าย')"
+        className="flex-grow bg-gray-800 border border-gray-600 text-gray-200 rounded-lg p-4 focus:ring-2 focus:ring-blue-500 focus:outline-none transition w-full disabled:cursor-not-allowed disabled:opacity-60 text-base"
+        disabled={isLoading}
+      />
+      <button
+        onClick={() => onSelectSubject(additionalPrompt)}
+        className="w-full bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-4 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-blue-500/20 hover:shadow-xl hover:shadow-blue-500/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-blue-800 disabled:to-blue-700 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
+        disabled={isLoading}
+      >
+        เลือกวัตถุ
+      </button>
+      <button
+        onClick={() => onPreviewPrompt(additionalPrompt)}
+        className="self-center text-sm text-gray-400 hover:text-gray-200 underline underline-offset-2 transition-colors"
+      >
+        ดูพรอมต์ที่จะส่ง
+      </button>
+
+      {refinement && (
+        <div className="flex flex-col gap-3 pt-3 border-t border-gray-700">
+          <span className="text-sm font-semibold text-gray-300">ปรับขอบมาสก์</span>
+          <label className="flex items-center justify-between text-sm text-gray-300">
+            <span>กลับด้าน (เก็บพื้นหลัง)</span>
+            <input type="checkbox" checked={draft.invert} onChange={(e) => setDraft({ ...draft, invert: e.target.checked })} disabled={isLoading} />
+          </label>
+          <label className="flex flex-col gap-1 text-sm text-gray-300">
+            <span className="flex justify-between"><span>ขยาย/หดขอบ</span><span className="font-mono">{draft.grow > 0 ? '+' : ''}{draft.grow} px</span></span>
+            <input type="range" min="-20" max="20" value={draft.grow} onChange={(e) => setDraft({ ...draft, grow: Number(e.target.value) })} disabled={isLoading} />
+          </label>
+          <label className="flex flex-col gap-1 text-sm text-gray-300">
+            <span className="flex justify-between"><span>ขอบนุ่ม</span><span className="font-mono">{draft.featherPx} px</span></span>
+            <input type="range" min="0" max="20" value={draft.featherPx} onChange={(e) => setDraft({ ...draft, featherPx: Number(e.target.value) })} disabled={isLoading} />
+          </label>
+          <button
+            onClick={() => onRefine(draft)}
+            disabled={isLoading || !isDirty}
+            className="w-full bg-white/10 text-gray-200 font-semibold py-3 px-6 rounded-lg transition-colors hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            ใช้การปรับขอบ
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SelectSubjectPanel;
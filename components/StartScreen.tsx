@@ -4,13 +4,15 @@
 */
 
 import React, { useCallback, useState } from 'react';
-import { UploadIcon } from './icons';
+import { MagicWandIcon, UploadIcon } from './icons';
 
 interface StartScreenProps {
   onFileSelect: (files: FileList | null) => void;
+  onGenerate: () => void;
+  onBatch: () => void;
 }
 
-const StartScreen: React.FC<StartScreenProps> = ({ onFileSelect }) => {
+const StartScreen: React.FC<StartScreenProps> = ({ onFileSelect, onGenerate, onBatch }) => {
   const [isDragging, setIsDragging] = useState(false);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -88,6 +90,16 @@ const StartScreen: React.FC<StartScreenProps> = ({ onFileSelect }) => {
           </label>
           <input id="file-upload" type="file" className="hidden" accept="image/*" onChange={handleFileChange} />
         </div>
+        <div className="mt-6 animate-fade-in-down" style={{ animationDelay: '0.6s' }}>
+          <button onClick={onGenerate} className="inline-flex items-center gap-2 text-gray-300 hover:text-white font-semibold py-3 px-6 rounded-lg bg-white/10 hover:bg-white/20 transition-colors">
+            <MagicWandIcon className="w-5 h-5" />
+            <span>หรือสร้างภาพใหม่จากข้อความ</span>
+          </button>
+          <button onClick={onBatch} className="ml-3 inline-flex items-center gap-2 text-gray-300 hover:text-white font-semibold py-3 px-6 rounded-lg bg-white/10 hover:bg-white/20 transition-colors">
+            <UploadIcon className="w-5 h-5" />
+            <span>ประมวลผลหลายภาพพร้อมกัน</span>
+          </button>
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,41 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { MagicWandIcon } from './icons';
+import type { EditSuggestion } from '../services/imageAnalysis';
+
+interface SuggestionChipsProps {
+  suggestions: EditSuggestion[];
+  // Receives the suggestion's prompt, to fill in the tab's prompt field
+  onSelect: (prompt: string) => void;
+  isLoading: boolean;
+}
+
+const SuggestionChips: React.FC<SuggestionChipsProps> = ({ suggestions, onSelect, isLoading }) => {
+  if (suggestions.length === 0) return null;
+
+  return (
+    <div className="flex flex-col gap-2">
+      <span className="text-xs font-semibold text-gray-400">คำแนะนำจากการวิเคราะห์ภาพ</span>
+      <div className="flex flex-wrap gap-2">
+        {suggestions.map(suggestion => (
+          <button
+            key={suggestion.prompt}
+            onClick={() => onSelect(suggestion.prompt)}
+            disabled={isLoading}
+            title={suggestion.prompt}
+            className="inline-flex items-center gap-1 text-xs font-semibold text-blue-200 bg-blue-500/15 hover:bg-blue-500/25 border border-blue-500/30 px-3 py-1.5 rounded-full transition-colors disabled:opacity-50"
+          >
+            <MagicWandIcon className="w-3.5 h-3.5" />
+            {suggestion.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SuggestionChips;
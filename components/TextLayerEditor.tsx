@@ -0,0 +1,96 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef } from 'react';
+import { TEXT_LINE_HEIGHT, type TextLayerContent } from '../services/textLayer';
+
+interface TextLayerEditorProps {
+  text: TextLayerContent;
+  // Screen pixels per font pixel, so the editor matches the rendered layer
+  fontScale: number;
+  // Called with the new content when editing ends; not called when nothing changed
+  onCommit: (content: string) => void;
+  onCancel: () => void;
+}
+
+const alignPositions = {
+  left: { left: 0 },
+  center: { left: '50%', transform: 'translateX(-50%)' },
+  right: { right: 0 },
+};
+
+/**
+ * Edits a text layer's content on the canvas. It is laid over the layer, in
+ * the layer's placement, styled like the rendered text, and grows as the
+ * text does. Leaving the editor keeps the change; Escape throws it away.
+ */
+const TextLayerEditor: React.FC<TextLayerEditorProps> = ({ text, fontScale, onCommit, onCancel }) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const isCancelled = useRef(false);
+
+  const fitToContent = () => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    textarea.style.width = '0';
+    textarea.style.height = '0';
+    textarea.style.width = `${textarea.scrollWidth}px`;
+    textarea.style.height = `${textarea.scrollHeight}px`;
+  };
+
+  useEffect(() => {
+    fitToContent();
+    textareaRef.current?.focus();
+    textareaRef.current?.select();
+  }, []);
+
+  const handleBlur = (e: React.FocusEvent<HTMLTextAreaElement>) => {
+    const content = e.currentTarget.value;
+    if (isCancelled.current || !content.trim() || content === text.content) {
+      onCancel();
+    } else {
+      onCommit(content);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Escape') {
+      isCancelled.current = true;
+      e.currentTarget.blur();
+    } else if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+      e.currentTarget.blur();
+    }
+  };
+
+  const hasShadow = text.shadowBlur > 0 || text.shadowOffsetX !== 0 || text.shadowOffsetY !== 0;
+
+  return (
+    <textarea
+      ref={textareaRef}
+      defaultValue={text.content}
+      onInput={fitToContent}
+      onBlur={handleBlur}
+      onKeyDown={handleKeyDown}
+      wrap="off"
+      spellCheck={false}
+      className="absolute top-0 min-w-full min-h-full bg-black/20 outline-dashed outline-1 outline-blue-400 resize-none overflow-hidden m-0 border-0"
+      style={{
+        ...alignPositions[text.align],
+        font: `${text.fontWeight} ${text.fontSize * fontScale}px ${text.fontFamily}`,
+        lineHeight: TEXT_LINE_HEIGHT,
+        color: text.color,
+        caretColor: text.color,
+        textAlign: text.align,
+        padding: text.strokeWidth * fontScale,
+        WebkitTextStroke: text.strokeWidth > 0 ? `${text.strokeWidth * 2 * fontScale}px ${text.strokeColor}` : undefined,
+        paintOrder: 'stroke fill',
+        textShadow: hasShadow
+          ? `${text.shadowOffsetX * fontScale}px ${text.shadowOffsetY * fontScale}px ${text.shadowBlur * fontScale}px ${text.shadowColor}`
+          : undefined,
+      }}
+    />
+  );
+};
+
+export default TextLayerEditor;
@@ -0,0 +1,159 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useState } from 'react';
+import { defaultTextLayerContent, textFontFamilies, textFontWeights, type TextAlign, type TextLayerContent } from '../services/textLayer';
+
+interface TextPanelProps {
+  // The active layer's text, or null when the active layer isn't a text layer
+  text: TextLayerContent | null;
+  onAddText: (text: TextLayerContent) => void;
+  onUpdateText: (text: TextLayerContent) => void;
+  // Turns the active text layer into a plain image layer
+  onRasterize: () => void;
+  isLoading: boolean;
+}
+
+const alignNames: Record<TextAlign, string> = {
+  left: 'ชิดซ้าย',
+  center: 'กึ่งกลาง',
+  right: 'ชิดขวา',
+};
+
+const fieldClass = 'bg-gray-900/50 border border-gray-600 text-gray-200 rounded-md p-1 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none disabled:opacity-50';
+const colorClass = 'w-10 h-8 bg-transparent border border-gray-600 rounded-md cursor-pointer disabled:opacity-50';
+
+const TextPanel: React.FC<TextPanelProps> = ({ text, onAddText, onUpdateText, onRasterize, isLoading }) => {
+  const [draft, setDraft] = useState<TextLayerContent>(text ?? defaultTextLayerContent);
+
+  // Start from the selected text layer; otherwise keep the last style for the next new layer
+  useEffect(() => {
+    if (text) setDraft(text);
+  }, [text]);
+
+  const isDirty = !!text && (Object.keys(draft) as (keyof TextLayerContent)[]).some(key => draft[key] !== text[key]);
+  const update = (changes: Partial<TextLayerContent>) => setDraft(current => ({ ...current, ...changes }));
+  const updateNumber = (key: keyof TextLayerContent, value: string, min: number) => {
+    const parsed = parseFloat(value);
+    update({ [key]: Number.isFinite(parsed) ? Math.max(min, parsed) : min });
+  };
+
+  return (
+    <div className="w-full bg-gray-800/50 border border-gray-700 rounded-lg p-4 flex flex-col gap-4 animate-fade-in backdrop-blur-sm">
+      <h3 className="text-lg font-semibold text-center text-gray-300">ข้อความ</h3>
+      <p className="text-sm text-center text-gray-400 -mt-2">
+        {text ? 'ดับเบิลคลิกที่ข้อความบนภาพเพื่อแก้ไขในตำแหน่ง' : 'พิมพ์ข้อความแล้วเพิ่มเป็นเลเยอร์ใหม่ ย้ายและหมุนได้ในแท็บจัดวาง'}
+      </p>
+
+      <textarea
+        value={draft.content}
+        onChange={(e) => update({ content: e.target.value })}
+        rows={3}
+        disabled={isLoading}
+        className="w-full bg-gray-800 border border-gray-600 text-gray-200 rounded-lg p-3 focus:ring-2 focus:ring-blue-500 focus:outline-none transition disabled:opacity-60 text-base resize-none"
+        style={{ fontFamily: draft.fontFamily, fontWeight: draft.fontWeight }}
+      />
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="flex flex-col gap-1 text-xs text-gray-400">
+          แบบอักษร
+          <select value={draft.fontFamily} onChange={(e) => update({ fontFamily: e.target.value })} disabled={isLoading} className={fieldClass}>
+            {Object.entries(textFontFamilies).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-gray-400">
+          น้ำหนัก
+          <select value={draft.fontWeight} onChange={(e) => update({ fontWeight: parseInt(e.target.value, 10) })} disabled={isLoading} className={fieldClass}>
+            {Object.entries(textFontWeights).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-gray-400">
+          ขนาด (px)
+          <input type="number" min="4" value={draft.fontSize} onChange={(e) => updateNumber('fontSize', e.target.value, 4)} disabled={isLoading} className={fieldClass} />
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-gray-400">
+          สี
+          <input type="color" value={draft.color} onChange={(e) => update({ color: e.target.value })} disabled={isLoading} className={colorClass} />
+        </label>
+      </div>
+
+      <div className="grid grid-cols-3 gap-1 bg-gray-900/50 p-1 rounded-lg">
+        {(Object.keys(alignNames) as TextAlign[]).map(align => (
+          <button
+            key={align}
+            onClick={() => update({ align })}
+            disabled={isLoading}
+            className={`py-2 rounded-md text-sm font-semibold transition-colors disabled:opacity-50 ${draft.align === align ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-white/10'}`}
+          >
+            {alignNames[align]}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-col gap-2 p-3 bg-gray-900/40 border border-gray-700/60 rounded-lg">
+        <span className="text-sm font-semibold text-gray-300">เส้นขอบ</span>
+        <div className="flex items-center gap-2">
+          <label className="flex items-center gap-2 text-xs text-gray-400 flex-grow">
+            ความหนา
+            <input type="number" min="0" value={draft.strokeWidth} onChange={(e) => updateNumber('strokeWidth', e.target.value, 0)} disabled={isLoading} className={`${fieldClass} w-20`} />
+          </label>
+          <input type="color" value={draft.strokeColor} onChange={(e) => update({ strokeColor: e.target.value })} disabled={isLoading} className={colorClass} aria-label="Stroke color" />
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-2 p-3 bg-gray-900/40 border border-gray-700/60 rounded-lg">
+        <span className="text-sm font-semibold text-gray-300">เงา</span>
+        <div className="grid grid-cols-3 gap-2">
+          <label className="flex flex-col gap-1 text-xs text-gray-400">
+            ความฟุ้ง
+            <input type="number" min="0" value={draft.shadowBlur} onChange={(e) => updateNumber('shadowBlur', e.target.value, 0)} disabled={isLoading} className={fieldClass} />
+          </label>
+          <label className="flex flex-col gap-1 text-xs text-gray-400">
+            เลื่อน X
+            <input type="number" value={draft.shadowOffsetX} onChange={(e) => updateNumber('shadowOffsetX', e.target.value, -Infinity)} disabled={isLoading} className={fieldClass} />
+          </label>
+          <label className="flex flex-col gap-1 text-xs text-gray-400">
+            เลื่อน Y
+            <input type="number" value={draft.shadowOffsetY} onChange={(e) => updateNumber('shadowOffsetY', e.target.value, -Infinity)} disabled={isLoading} className={fieldClass} />
+          </label>
+        </div>
+        <input type="color" value={draft.shadowColor} onChange={(e) => update({ shadowColor: e.target.value })} disabled={isLoading} className={colorClass} aria-label="Shadow color" />
+      </div>
+
+      {text && (
+        <button
+          onClick={() => onUpdateText(draft)}
+          className="w-full bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-3 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-blue-500/20 hover:shadow-xl hover:shadow-blue-500/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-blue-800 disabled:to-blue-700 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
+          disabled={isLoading || !isDirty || !draft.content.trim()}
+        >
+          ใช้การเปลี่ยนแปลง
+        </button>
+      )}
+      <button
+        onClick={() => onAddText(draft)}
+        disabled={isLoading || !draft.content.trim()}
+        className={`w-full font-semibold py-3 rounded-lg transition-colors disabled:opacity-50 ${text ? 'bg-white/10 text-gray-200 hover:bg-white/20' : 'bg-gradient-to-br from-blue-600 to-blue-500 text-white'}`}
+      >
+        เพิ่มเป็นเลเยอร์ข้อความใหม่
+      </button>
+      {text && (
+        <button
+          onClick={onRasterize}
+          disabled={isLoading}
+          title="จำเป็นก่อนใช้เครื่องมือ AI กับเลเยอร์นี้ หลังจากนั้นจะแก้ไขข้อความไม่ได้อีก"
+          className="self-center text-sm text-gray-400 hover:text-gray-200 underline underline-offset-2 transition-colors disabled:opacity-50"
+        >
+          แปลงเป็นภาพ
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default TextPanel;
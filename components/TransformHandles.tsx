@@ -0,0 +1,129 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useRef } from 'react';
+import type { Point, Size } from '../services/coordinates';
+import { normalizeRotation, placementStyle, transformForPlacement, type LayerPlacement, type LayerTransform } from '../services/layerTransform';
+
+interface TransformHandlesProps {
+  // The active layer's placement, in document pixels
+  placement: LayerPlacement;
+  // Screen pixels per document pixel
+  displayScale: number;
+  naturalSize: Size;
+  documentSize: Size;
+  // Called on every pointer move, to preview the transform while dragging
+  onChange: (transform: LayerTransform) => void;
+  // Called once when a drag ends
+  onCommit: (transform: LayerTransform) => void;
+}
+
+type DragMode = 'move' | 'scale' | 'rotate';
+
+interface DragState {
+  mode: DragMode;
+  start: Point;
+  startPlacement: LayerPlacement;
+  // The layer's centre on screen
+  center: Point;
+  transform: LayerTransform | null;
+}
+
+// Holding Shift while rotating snaps to this many degrees
+const ROTATION_SNAP = 15;
+
+const corners = [
+  'top-0 left-0 -translate-x-1/2 -translate-y-1/2 cursor-nwse-resize',
+  'top-0 right-0 translate-x-1/2 -translate-y-1/2 cursor-nesw-resize',
+  'bottom-0 right-0 translate-x-1/2 translate-y-1/2 cursor-nwse-resize',
+  'bottom-0 left-0 -translate-x-1/2 translate-y-1/2 cursor-nesw-resize',
+];
+
+/**
+ * A frame around the active layer with handles to move it (drag inside),
+ * resize it (drag a corner) and rotate it (drag the knob above the frame).
+ */
+const TransformHandles: React.FC<TransformHandlesProps> = ({ placement, displayScale, naturalSize, documentSize, onChange, onCommit }) => {
+  const rootRef = useRef<HTMLDivElement>(null);
+  const drag = useRef<DragState | null>(null);
+
+  const startDrag = (mode: DragMode) => (e: React.PointerEvent<HTMLDivElement>) => {
+    const bounds = rootRef.current?.getBoundingClientRect();
+    if (!bounds) return;
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drag.current = {
+      mode,
+      start: { x: e.clientX, y: e.clientY },
+      startPlacement: placement,
+      center: { x: bounds.left + placement.centerX * displayScale, y: bounds.top + placement.centerY * displayScale },
+      transform: null,
+    };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const state = drag.current;
+    if (!state) return;
+    const { start, startPlacement, center } = state;
+    let next = startPlacement;
+
+    if (state.mode === 'move') {
+      next = {
+        ...startPlacement,
+        centerX: startPlacement.centerX + (e.clientX - start.x) / displayScale,
+        centerY: startPlacement.centerY + (e.clientY - start.y) / displayScale,
+      };
+    } else if (state.mode === 'scale') {
+      const ratio = Math.hypot(e.clientX - center.x, e.clientY - center.y) / Math.max(1, Math.hypot(start.x - center.x, start.y - center.y));
+      next = { ...startPlacement, width: startPlacement.width * ratio, height: startPlacement.height * ratio };
+    } else {
+      const angle = Math.atan2(e.clientY - center.y, e.clientX - center.x) - Math.atan2(start.y - center.y, start.x - center.x);
+      let rotation = startPlacement.rotation + angle * 180 / Math.PI;
+      if (e.shiftKey) rotation = Math.round(rotation / ROTATION_SNAP) * ROTATION_SNAP;
+      next = { ...startPlacement, rotation: normalizeRotation(rotation) };
+    }
+
+    if (next.width < 1 || next.height < 1) return;
+    state.transform = transformForPlacement(naturalSize, documentSize, next);
+    onChange(state.transform);
+  };
+
+  const handlePointerUp = () => {
+    const transform = drag.current?.transform;
+    drag.current = null;
+    if (transform) onCommit(transform);
+  };
+
+  // Flips are left out so the handles keep their usual places
+  const frameStyle = placementStyle({ ...placement, flipX: false, flipY: false }, displayScale);
+
+  return (
+    <div ref={rootRef} className="absolute inset-0 pointer-events-none z-20">
+      <div
+        onPointerDown={startDrag('move')}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        className="absolute border-2 border-blue-400 pointer-events-auto cursor-move touch-none"
+        style={frameStyle}
+      >
+        {corners.map(className => (
+          <div
+            key={className}
+            onPointerDown={startDrag('scale')}
+            className={`absolute w-3 h-3 bg-white border-2 border-blue-500 rounded-sm ${className}`}
+          />
+        ))}
+        <div className="absolute left-1/2 -top-6 w-px h-6 bg-blue-400 pointer-events-none" />
+        <div
+          onPointerDown={startDrag('rotate')}
+          title="ลากเพื่อหมุน (กด Shift ค้างไว้เพื่อหมุนทีละ 15°)"
+          className="absolute left-1/2 -top-8 w-4 h-4 -translate-x-1/2 bg-white border-2 border-blue-500 rounded-full cursor-grab"
+        />
+      </div>
+    </div>
+  );
+};
+
+export default TransformHandles;
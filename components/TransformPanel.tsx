@@ -0,0 +1,131 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import type { Size } from '../services/coordinates';
+import { identityTransform, normalizeRotation, type LayerTransform } from '../services/layerTransform';
+
+interface TransformPanelProps {
+  // The active layer's transform, or null when no layer is selected
+  transform: LayerTransform | null;
+  documentSize: Size | null;
+  onTransformChange: (transform: LayerTransform) => void;
+  isLoading: boolean;
+}
+
+interface NumberFieldProps {
+  label: string;
+  unit: string;
+  value: number;
+  onCommit: (value: number) => void;
+  disabled: boolean;
+}
+
+// Commits on Enter or blur, so typing a number adds one history entry rather than one per key
+const NumberField: React.FC<NumberFieldProps> = ({ label, unit, value, onCommit, disabled }) => {
+  const commit = (e: React.FocusEvent<HTMLInputElement>) => {
+    const parsed = parseFloat(e.target.value);
+    if (Number.isFinite(parsed) && parsed !== value) {
+      onCommit(parsed);
+    } else {
+      e.target.value = String(value);
+    }
+  };
+
+  return (
+    <label className="flex items-center justify-between gap-2 text-sm text-gray-300">
+      <span>{label}</span>
+      <span className="flex items-center gap-1">
+        <input
+          key={value}
+          type="number"
+          defaultValue={value}
+          onBlur={commit}
+          onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+          disabled={disabled}
+          className="w-20 bg-gray-900/50 border border-gray-600 text-gray-200 rounded-md p-1 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none"
+        />
+        <span className="w-4 text-xs text-gray-400">{unit}</span>
+      </span>
+    </label>
+  );
+};
+
+const TransformPanel: React.FC<TransformPanelProps> = ({ transform, documentSize, onTransformChange, isLoading }) => {
+  if (!transform || !documentSize) {
+    return (
+      <div className="w-full bg-gray-800/50 border border-gray-700 rounded-lg p-4 text-center text-sm text-gray-400 animate-fade-in backdrop-blur-sm">
+        เลือกเลเยอร์ที่ต้องการจัดวาง
+      </div>
+    );
+  }
+
+  const update = (changes: Partial<LayerTransform>) => onTransformChange({ ...transform, ...changes });
+
+  return (
+    <div className="w-full bg-gray-800/50 border border-gray-700 rounded-lg p-4 flex flex-col gap-4 animate-fade-in backdrop-blur-sm">
+      <h3 className="text-lg font-semibold text-center text-gray-300">จัดวางเลเยอร์</h3>
+      <p className="text-sm text-center text-gray-400 -mt-2">ลากบนภาพเพื่อย้าย ลากมุมเพื่อปรับขนาด และลากจุดด้านบนเพื่อหมุน</p>
+
+      <div className="grid grid-cols-2 gap-2">
+        <NumberField
+          label="X"
+          unit="px"
+          value={Math.round(transform.x * documentSize.width)}
+          onCommit={value => update({ x: value / documentSize.width })}
+          disabled={isLoading}
+        />
+        <NumberField
+          label="Y"
+          unit="px"
+          value={Math.round(transform.y * documentSize.height)}
+          onCommit={value => update({ y: value / documentSize.height })}
+          disabled={isLoading}
+        />
+        <NumberField
+          label="ขนาด"
+          unit="%"
+          value={Math.round(transform.scale * 1000) / 10}
+          onCommit={value => value > 0 && update({ scale: value / 100 })}
+          disabled={isLoading}
+        />
+        <NumberField
+          label="หมุน"
+          unit="°"
+          value={Math.round(transform.rotation * 10) / 10}
+          onCommit={value => update({ rotation: normalizeRotation(value) })}
+          disabled={isLoading}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <button
+          onClick={() => update({ flipX: !transform.flipX })}
+          disabled={isLoading}
+          className={`py-2 rounded-md text-sm font-semibold transition-colors disabled:opacity-50 ${transform.flipX ? 'bg-blue-600 text-white' : 'bg-white/10 text-gray-200 hover:bg-white/20'}`}
+        >
+          พลิกแนวนอน
+        </button>
+        <button
+          onClick={() => update({ flipY: !transform.flipY })}
+          disabled={isLoading}
+          className={`py-2 rounded-md text-sm font-semibold transition-colors disabled:opacity-50 ${transform.flipY ? 'bg-blue-600 text-white' : 'bg-white/10 text-gray-200 hover:bg-white/20'}`}
+        >
+          พลิกแนวตั้ง
+        </button>
+      </div>
+
+      <button
+        onClick={() => onTransformChange(identityTransform)}
+        disabled={isLoading}
+        className="self-center text-sm text-gray-400 hover:text-gray-200 underline underline-offset-2 transition-colors disabled:opacity-50"
+      >
+        คืนค่าตำแหน่งเดิม
+      </button>
+    </div>
+  );
+};
+
+export default TransformPanel;
@@ -0,0 +1,91 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import type { Size } from '../services/coordinates';
+import { canUpscale, getUpscaleOptions, planUpscaleTiles, type UpscaleFactor } from '../services/upscale';
+
+export type UpscaleTarget = 'layer' | 'composite';
+
+interface UpscalePanelProps {
+  layerSize: Size | null;
+  documentSize: Size | null;
+  // Whether the AI provider is in use, or the local resampling fallback
+  isAiProvider: boolean;
+  onApplyUpscale: (target: UpscaleTarget, factor: UpscaleFactor) => void;
+  isLoading: boolean;
+}
+
+const targetNames: Record<UpscaleTarget, string> = {
+  layer: 'เลเยอร์ที่เลือก',
+  composite: 'ภาพรวมทุกเลเยอร์',
+};
+
+const UpscalePanel: React.FC<UpscalePanelProps> = ({ layerSize, documentSize, isAiProvider, onApplyUpscale, isLoading }) => {
+  const [factor, setFactor] = useState<UpscaleFactor>(2);
+  const [target, setTarget] = useState<UpscaleTarget>('layer');
+
+  const size = target === 'layer' ? layerSize : documentSize;
+  const fits = size ? canUpscale(size, factor) : false;
+  const tileCount = size ? planUpscaleTiles(size, factor).length : 0;
+
+  return (
+    <div className="w-full bg-gray-800/50 border border-gray-700 rounded-lg p-4 flex flex-col gap-4 animate-fade-in backdrop-blur-sm">
+      <h3 className="text-lg font-semibold text-center text-gray-300">เพิ่มความละเอียด</h3>
+      <p className="text-sm text-center text-gray-400 -mt-2">
+        {isAiProvider ? 'AI จะขยายภาพและเติมรายละเอียดให้คมชัดขึ้น' : 'โหมดออฟไลน์จะขยายภาพด้วยการคำนวณแบบ Lanczos โดยไม่เติมรายละเอียดใหม่'}
+      </p>
+
+      <div className="grid grid-cols-2 gap-1 bg-gray-900/50 p-1 rounded-lg">
+        {([2, 4] as const).map(value => (
+          <button
+            key={value}
+            onClick={() => setFactor(value)}
+            disabled={isLoading}
+            className={`py-2 rounded-md text-sm font-semibold transition-colors disabled:opacity-50 ${factor === value ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-white/10'}`}
+          >
+            {value}×
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-1 bg-gray-900/50 p-1 rounded-lg">
+        {(Object.keys(targetNames) as UpscaleTarget[]).map(value => (
+          <button
+            key={value}
+            onClick={() => setTarget(value)}
+            disabled={isLoading}
+            className={`py-2 rounded-md text-sm font-semibold transition-colors disabled:opacity-50 ${target === value ? 'bg-blue-600 text-white' : 'text-gray-300 hover:bg-white/10'}`}
+          >
+            {targetNames[value]}
+          </button>
+        ))}
+      </div>
+      {target === 'composite' && (
+        <p className="text-xs text-amber-400">ทุกเลเยอร์จะถูกรวมเป็นเลเยอร์เดียว</p>
+      )}
+
+      {size && (
+        <p className="text-xs text-center font-mono text-gray-400">
+          {size.width} × {size.height} → {size.width * factor} × {size.height * factor} px
+          {isAiProvider && tileCount > 1 && ` · ${tileCount} ส่วน (เรียก AI ${tileCount} ครั้ง)`}
+        </p>
+      )}
+      {size && !fits && (
+        <p className="text-xs text-center text-red-400">ภาพใหญ่เกินไป ขนาดสูงสุดคือ {getUpscaleOptions().maxOutputDimension} px ต่อด้าน</p>
+      )}
+
+      <button
+        onClick={() => onApplyUpscale(target, factor)}
+        className="w-full bg-gradient-to-br from-blue-600 to-blue-500 text-white font-bold py-4 px-6 rounded-lg transition-all duration-300 ease-in-out shadow-lg shadow-blue-500/20 hover:shadow-xl hover:shadow-blue-500/40 hover:-translate-y-px active:scale-95 active:shadow-inner text-base disabled:from-blue-800 disabled:to-blue-700 disabled:shadow-none disabled:cursor-not-allowed disabled:transform-none"
+        disabled={isLoading || !fits}
+      >
+        เพิ่มความละเอียด {factor}×
+      </button>
+    </div>
+  );
+};
+
+export default UpscalePanel;
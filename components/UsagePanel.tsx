@@ -0,0 +1,129 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect } from 'react';
+import {
+  clearUsageHistory,
+  getBudgetStatus,
+  getBudgetUsage,
+  getSessionUsage,
+  getTodayUsage,
+  getUsageBudgets,
+  setUsageBudgets,
+  subscribeToUsage,
+  type BudgetScope,
+  type UsageBudgets,
+  type UsageTotals,
+} from '../services/usageTracker';
+
+const formatUsd = (usd: number) => `$${usd.toFixed(usd < 1 ? 3 : 2)}`;
+
+const budgetStatusStyles = {
+  ok: 'bg-blue-500',
+  warning: 'bg-amber-500',
+  exceeded: 'bg-red-500',
+};
+
+const parseBudget = (value: string): number | null => {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+};
+
+const budgetScopeNames: Record<BudgetScope, { spent: string; exceeded: string }> = {
+  session: { spent: 'เซสชันนี้', exceeded: 'ถึงงบประมาณสูงสุดของเซสชันแล้ว การเรียก AI ถูกระงับจนกว่าจะโหลดหน้าใหม่' },
+  daily: { spent: 'วันนี้', exceeded: 'ถึงงบประมาณสูงสุดแล้ว การเรียก AI ถูกระงับจนถึงพรุ่งนี้' },
+};
+
+const budgetFields: { key: keyof UsageBudgets; label: string }[] = [
+  { key: 'softSessionUsd', label: 'เตือนเมื่อเกิน (USD/เซสชัน)' },
+  { key: 'hardSessionUsd', label: 'หยุดเมื่อเกิน (USD/เซสชัน)' },
+  { key: 'softDailyUsd', label: 'เตือนเมื่อเกิน (USD/วัน)' },
+  { key: 'hardDailyUsd', label: 'หยุดเมื่อเกิน (USD/วัน)' },
+];
+
+// Progress towards one scope's budget; hidden while it has none
+const BudgetBar: React.FC<{ scope: BudgetScope }> = ({ scope }) => {
+  const { spentUsd, softUsd, hardUsd } = getBudgetUsage(scope);
+  const limit = hardUsd ?? softUsd;
+  if (limit === null) return null;
+  const status = getBudgetStatus(scope);
+  return (
+    <div className="flex flex-col gap-1">
+      <div className="w-full h-2 bg-gray-700 rounded-full overflow-hidden">
+        <div className={`h-full ${budgetStatusStyles[status]}`} style={{ width: `${Math.min(100, (spentUsd / limit) * 100)}%` }} />
+      </div>
+      <span className="text-xs text-gray-400">
+        {status === 'exceeded' ? budgetScopeNames[scope].exceeded : `${budgetScopeNames[scope].spent}ใช้ไป ${formatUsd(spentUsd)} จาก ${formatUsd(limit)}`}
+      </span>
+    </div>
+  );
+};
+
+const TotalsColumn: React.FC<{ title: string; totals: UsageTotals }> = ({ title, totals }) => (
+  <div className="flex flex-col gap-1 bg-gray-900/40 rounded-md p-2">
+    <span className="text-xs font-semibold text-gray-400">{title}</span>
+    <span className="text-lg font-bold text-gray-100">{formatUsd(totals.estimatedCostUsd)}</span>
+    <span className="text-xs text-gray-400">{totals.calls} ครั้ง · แคช {totals.cached} · ล้มเหลว {totals.failed}</span>
+    <span className="text-xs text-gray-400">{(totals.promptTokens + totals.outputTokens).toLocaleString()} โทเคน</span>
+  </div>
+);
+
+const UsagePanel: React.FC = () => {
+  // Bumped on every tracker change so the totals below are recomputed
+  const [, setRevision] = useState(0);
+
+  useEffect(() => subscribeToUsage(() => setRevision(revision => revision + 1)), []);
+
+  const session = getSessionUsage();
+  const today = getTodayUsage();
+  const budgets = getUsageBudgets();
+
+  return (
+    <div className="w-full bg-gray-800/50 border border-gray-700 rounded-lg p-4 flex flex-col gap-3 animate-fade-in backdrop-blur-sm">
+      <h3 className="text-base font-semibold text-gray-300">การใช้งาน AI (ประมาณการ)</h3>
+      <div className="grid grid-cols-2 gap-2">
+        <TotalsColumn title="เซสชันนี้" totals={session} />
+        <TotalsColumn title="วันนี้" totals={today} />
+      </div>
+
+      <BudgetBar scope="session" />
+      <BudgetBar scope="daily" />
+
+      <details className="text-sm text-gray-300">
+        <summary className="cursor-pointer text-gray-400 hover:text-gray-200">รายละเอียดและงบประมาณ</summary>
+        <div className="flex flex-col gap-3 pt-3">
+          <ul className="flex flex-col gap-1">
+            {Object.entries(today.byOperation).map(([operation, totals]) => (
+              <li key={operation} className="flex justify-between text-xs">
+                <span className="text-gray-400">{operation}</span>
+                <span className="font-mono">{totals.calls} ครั้ง · {formatUsd(totals.estimatedCostUsd)}</span>
+              </li>
+            ))}
+            {today.calls === 0 && <li className="text-xs text-gray-500">วันนี้ยังไม่มีการเรียกใช้</li>}
+            {today.calls > 0 && <li className="text-xs text-gray-500">เวลาตอบกลับเฉลี่ย {(today.averageLatencyMs / 1000).toFixed(1)} วินาที</li>}
+          </ul>
+          {budgetFields.map(({ key, label }) => (
+            <label key={key} className="flex items-center justify-between gap-2">
+              <span className="text-xs text-gray-400">{label}</span>
+              <input
+                type="number"
+                min="0"
+                step="0.1"
+                defaultValue={budgets[key] ?? ''}
+                onBlur={(e) => setUsageBudgets({ [key]: parseBudget(e.target.value) })}
+                className="w-24 bg-gray-900/50 border border-gray-600 text-gray-200 rounded-md p-1 text-sm focus:ring-2 focus:ring-blue-500 focus:outline-none"
+              />
+            </label>
+          ))}
+          <button onClick={clearUsageHistory} className="self-start text-xs text-red-400 hover:text-red-300 underline underline-offset-2">
+            ล้างประวัติการใช้งาน
+          </button>
+        </div>
+      </details>
+    </div>
+  );
+};
+
+export default UsagePanel;
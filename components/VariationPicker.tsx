@@ -0,0 +1,92 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { CloseIcon } from './icons';
+
+interface VariationPickerProps {
+  variationUrls: string[];
+  previewIndex: number | null;
+  onPreview: (index: number | null) => void;
+  onKeepOne: (index: number) => void;
+  onKeepAsLayers: (indices: number[]) => void;
+  onDiscard: () => void;
+  isLoading: boolean;
+}
+
+const VariationPicker: React.FC<VariationPickerProps> = ({ variationUrls, previewIndex, onPreview, onKeepOne, onKeepAsLayers, onDiscard, isLoading }) => {
+  const [selected, setSelected] = useState<number[]>([]);
+
+  const toggleSelected = (index: number) => {
+    setSelected(prev => prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index].sort((a, b) => a - b));
+  };
+
+  return (
+    <div className="w-full bg-gray-800/50 border border-gray-700 rounded-lg p-3 flex flex-col gap-3 animate-fade-in backdrop-blur-sm">
+      <div className="flex items-center justify-between">
+        <h3 className="text-base font-semibold text-gray-300">เลือกผลลัพธ์ ({variationUrls.length} แบบ)</h3>
+        <button
+          onClick={onDiscard}
+          disabled={isLoading}
+          className="p-1 rounded-full text-gray-400 hover:text-white hover:bg-white/10 transition-colors disabled:opacity-40"
+          aria-label="Discard all variations"
+        >
+          <CloseIcon className="w-5 h-5" />
+        </button>
+      </div>
+      <p className="text-xs text-gray-400 -mt-2">คลิกที่ภาพเพื่อดูตัวอย่างบนแคนวาส ติ๊กเลือกหลายภาพเพื่อเก็บเป็นเลเยอร์ใหม่</p>
+
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        {variationUrls.map((url, index) => (
+          <div key={url} className="relative flex-shrink-0">
+            <button
+              onClick={() => onPreview(previewIndex === index ? null : index)}
+              disabled={isLoading}
+              className={`block w-24 h-24 rounded-md overflow-hidden bg-white/5 transition-all ${previewIndex === index ? 'ring-2 ring-blue-500' : 'hover:ring-2 hover:ring-white/30'}`}
+              aria-label={`Preview variation ${index + 1}`}
+            >
+              <img src={url} alt={`Variation ${index + 1}`} className="w-full h-full object-cover" />
+            </button>
+            <input
+              type="checkbox"
+              checked={selected.includes(index)}
+              onChange={() => toggleSelected(index)}
+              disabled={isLoading}
+              className="absolute top-1 left-1 w-4 h-4 cursor-pointer"
+              aria-label={`Select variation ${index + 1}`}
+            />
+            <span className="absolute bottom-1 right-1 text-xs font-mono bg-black/60 text-gray-200 px-1 rounded">{index + 1}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={() => previewIndex !== null && onKeepOne(previewIndex)}
+          disabled={isLoading || previewIndex === null}
+          className="flex-grow bg-gradient-to-br from-blue-600 to-blue-500 text-white font-semibold py-2 px-4 rounded-md transition-all active:scale-95 text-sm disabled:from-blue-800 disabled:to-blue-700 disabled:cursor-not-allowed disabled:transform-none"
+        >
+          ใช้ภาพที่ดูอยู่
+        </button>
+        <button
+          onClick={() => onKeepAsLayers(selected)}
+          disabled={isLoading || selected.length === 0}
+          className="flex-grow bg-white/10 text-gray-200 font-semibold py-2 px-4 rounded-md transition-colors hover:bg-white/20 text-sm disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          เก็บที่เลือกเป็นเลเยอร์ใหม่ ({selected.length})
+        </button>
+        <button
+          onClick={onDiscard}
+          disabled={isLoading}
+          className="text-sm font-semibold text-red-400 hover:text-red-300 bg-red-500/10 hover:bg-red-500/20 px-4 py-2 rounded-md transition-colors disabled:opacity-50"
+        >
+          ทิ้งทั้งหมด
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default VariationPicker;
@@ -6,6 +6,7 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { resolveImageEditProvider } from './services/imageEditProvider';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -15,6 +16,6 @@ if (!rootElement) {
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    <App provider={resolveImageEditProvider()} />
   </React.StrictMode>
 );
@@ -0,0 +1,94 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { ImageEditProvider } from './imageEditProvider';
+import { reconcileOutput, type OutputFitMode } from './outputReconciliation';
+
+// Applies one operation to many images. Items run through the provider a few
+// at a time, so a large batch neither floods the API nor waits on each image
+// in turn.
+
+export type BatchOperation =
+    | { kind: 'filter'; prompt: string; additionalPrompt: string }
+    | { kind: 'adjustment'; prompt: string; referenceImage: File | null; additionalPrompt: string }
+    | { kind: 'remove-background'; additionalPrompt: string };
+
+export type BatchOperationKind = BatchOperation['kind'];
+
+export const batchOperationNames: Record<BatchOperationKind, string> = {
+    filter: 'ฟิลเตอร์',
+    adjustment: 'ปรับแต่ง',
+    'remove-background': 'ลบพื้นหลัง',
+};
+
+// `cancelling` items were stopped while in flight and have not settled yet
+export type BatchItemStatus = 'queued' | 'running' | 'cancelling' | 'done' | 'failed';
+
+export interface BatchOptions {
+    // How many images are processed at the same time
+    concurrency: number;
+}
+
+let batchOptions: BatchOptions = {
+    concurrency: 3,
+};
+
+export const getBatchOptions = (): BatchOptions => batchOptions;
+
+export const configureBatch = (options: Partial<BatchOptions>) => {
+    batchOptions = { ...batchOptions, ...options };
+};
+
+/**
+ * Applies the operation to a single image and brings the result back to the
+ * image's own size.
+ * @returns A promise that resolves to the data URL of the result.
+ */
+export const runBatchOperation = async (
+    provider: ImageEditProvider,
+    file: File,
+    operation: BatchOperation,
+    isTransparent: boolean,
+    fitMode: OutputFitMode,
+    signal?: AbortSignal,
+): Promise<string> => {
+    let resultUrl: string;
+    switch (operation.kind) {
+        case 'filter':
+            resultUrl = await provider.generateFilteredImage(file, operation.prompt, operation.additionalPrompt, isTransparent, signal);
+            break;
+        case 'adjustment':
+            resultUrl = await provider.generateAdjustedImage(file, operation.prompt, operation.referenceImage, operation.additionalPrompt, isTransparent, signal);
+            break;
+        case 'remove-background':
+            resultUrl = await provider.generateRemovedBgImage(file, operation.additionalPrompt, isTransparent, signal);
+            break;
+    }
+    return (await reconcileOutput(resultUrl, file, fitMode)).url;
+};
+
+/**
+ * Runs `worker` over every item with at most `concurrency` in flight. The
+ * worker is expected to handle its own failures; once the signal is aborted
+ * no further items are started.
+ */
+export const runWithConcurrency = async <T>(
+    items: T[],
+    worker: (item: T) => Promise<void>,
+    concurrency: number = batchOptions.concurrency,
+    signal?: AbortSignal,
+): Promise<void> => {
+    let next = 0;
+    const lane = async () => {
+        while (next < items.length && !signal?.aborted) {
+            await worker(items[next++]);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, lane));
+};
+
+// The file name a result is saved under, e.g. "shoe-ลบพื้นหลัง.png"
+export const batchResultName = (file: File, kind: BatchOperationKind): string =>
+    `${file.name.replace(/\.[^.]+$/, '')}-${batchOperationNames[kind]}.png`;
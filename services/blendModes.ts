@@ -0,0 +1,37 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Layers are blended with the modes shared by CSS `mix-blend-mode` and the
+// canvas `globalCompositeOperation`. Both follow the same compositing spec,
+// so the on-screen stack and the flattened image come out identical.
+
+export type BlendMode =
+    | 'normal'
+    | 'multiply'
+    | 'screen'
+    | 'overlay'
+    | 'darken'
+    | 'lighten'
+    | 'color-dodge'
+    | 'soft-light'
+    | 'difference'
+    | 'luminosity';
+
+export const blendModeNames: Record<BlendMode, string> = {
+    normal: 'ปกติ',
+    multiply: 'คูณ (Multiply)',
+    screen: 'สกรีน (Screen)',
+    overlay: 'โอเวอร์เลย์ (Overlay)',
+    darken: 'มืดกว่า (Darken)',
+    lighten: 'สว่างกว่า (Lighten)',
+    'color-dodge': 'ดอดจ์สี (Color Dodge)',
+    'soft-light': 'แสงนุ่ม (Soft Light)',
+    difference: 'ผลต่าง (Difference)',
+    luminosity: 'ความสว่าง (Luminosity)',
+};
+
+// Canvas calls plain alpha compositing "source-over" rather than "normal"
+export const toCompositeOperation = (mode: BlendMode): GlobalCompositeOperation =>
+    mode === 'normal' ? 'source-over' : mode;
@@ -0,0 +1,95 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { ChatExchange } from './imageEditProvider';
+
+// A conversational edit is a tree of turns rooted at the image the
+// conversation started from. The thread sent to the model is the path from
+// the root to the current tip; branching simply moves the tip to an earlier
+// turn, and the next message becomes a sibling of what followed it.
+
+export interface ChatTurn {
+    id: string;
+    parentId: string | null;
+    instruction: string;
+    isTransparent: boolean;
+    result: File;
+    // Object URL of `result`, for the transcript
+    resultUrl: string;
+    // The editor history entry this turn's result was committed as
+    historyIndex: number;
+}
+
+export interface ChatSession {
+    layerId: string;
+    startFile: File;
+    startUrl: string;
+    startHistoryIndex: number;
+    turns: ChatTurn[];
+    // The turn the next message continues from, or null for the start image
+    tipId: string | null;
+}
+
+export const createChatSession = (layerId: string, startFile: File, startHistoryIndex: number): ChatSession => ({
+    layerId,
+    startFile,
+    startUrl: URL.createObjectURL(startFile),
+    startHistoryIndex,
+    turns: [],
+    tipId: null,
+});
+
+export const releaseChatSession = (session: ChatSession) => {
+    URL.revokeObjectURL(session.startUrl);
+    session.turns.forEach(turn => URL.revokeObjectURL(turn.resultUrl));
+};
+
+export const appendChatTurn = (session: ChatSession, turn: Omit<ChatTurn, 'id' | 'resultUrl'>): ChatSession => {
+    const id = `turn-${Date.now()}-${session.turns.length}`;
+    return {
+        ...session,
+        turns: [...session.turns, { ...turn, id, resultUrl: URL.createObjectURL(turn.result) }],
+        tipId: id,
+    };
+};
+
+export const getChatTurn = (session: ChatSession, id: string | null): ChatTurn | undefined =>
+    session.turns.find(turn => turn.id === id);
+
+// Turns from the first message down to `tipId`, oldest first
+export const getChatThread = (session: ChatSession, tipId: string | null = session.tipId): ChatTurn[] => {
+    const thread: ChatTurn[] = [];
+    let turn = getChatTurn(session, tipId);
+    while (turn) {
+        thread.unshift(turn);
+        turn = getChatTurn(session, turn.parentId);
+    }
+    return thread;
+};
+
+export const getChatChildren = (session: ChatSession, parentId: string | null): ChatTurn[] =>
+    session.turns.filter(turn => turn.parentId === parentId);
+
+// Follows the most recent child at each step, i.e. where a branch currently ends
+export const getLatestDescendant = (session: ChatSession, id: string): ChatTurn => {
+    let turn = getChatTurn(session, id)!;
+    for (let children = getChatChildren(session, turn.id); children.length > 0; children = getChatChildren(session, turn.id)) {
+        turn = children[children.length - 1];
+    }
+    return turn;
+};
+
+/**
+ * Finds which point of the conversation produced `file`.
+ * @returns The turn id, null for the start image, or undefined when the
+ * file did not come from this conversation.
+ */
+export const findChatTurnForFile = (session: ChatSession, file: File): string | null | undefined => {
+    if (session.startFile === file) return null;
+    return session.turns.find(turn => turn.result === file)?.id;
+};
+
+export const toChatExchanges = (thread: ChatTurn[]): ChatExchange[] =>
+    thread.map(({ instruction, isTransparent, result }) => ({ instruction, isTransparent, result }));
@@ -0,0 +1,102 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Conversions between the three coordinate spaces the editor deals with:
+// - screen: clientX/clientY from pointer events
+// - container: pixels relative to the top-left of the canvas box on screen
+// - image: natural pixels of a layer, which is drawn `object-contain` inside
+//   the container and therefore letterboxed on two sides
+
+export interface Point {
+    x: number;
+    y: number;
+}
+
+export interface Size {
+    width: number;
+    height: number;
+}
+
+export interface Rect extends Point, Size {}
+
+// A rectangle as fractions (0–1) of the image's width and height
+export interface NormalizedBox {
+    xMin: number;
+    yMin: number;
+    xMax: number;
+    yMax: number;
+}
+
+/**
+ * Where an image of `natural` size ends up when drawn `object-contain` inside
+ * a box of `container` size, in container pixels.
+ */
+export const getContainedRect = (container: Size, natural: Size): Rect & { scale: number } => {
+    const scale = Math.min(container.width / natural.width, container.height / natural.height);
+    const width = natural.width * scale;
+    const height = natural.height * scale;
+    return {
+        x: (container.width - width) / 2,
+        y: (container.height - height) / 2,
+        width,
+        height,
+        scale,
+    };
+};
+
+export const imageToContainer = (point: Point, container: Size, natural: Size): Point => {
+    const content = getContainedRect(container, natural);
+    return {
+        x: content.x + point.x * content.scale,
+        y: content.y + point.y * content.scale,
+    };
+};
+
+export const isInsideImage = (point: Point, natural: Size): boolean =>
+    point.x >= 0 && point.y >= 0 && point.x <= natural.width && point.y <= natural.height;
+
+export const clampToImage = (point: Point, natural: Size): Point => ({
+    x: Math.min(Math.max(point.x, 0), natural.width),
+    y: Math.min(Math.max(point.y, 0), natural.height),
+});
+
+// Builds a rect from two corner points dragged in any direction
+export const rectFromPoints = (a: Point, b: Point): Rect => ({
+    x: Math.min(a.x, b.x),
+    y: Math.min(a.y, b.y),
+    width: Math.abs(a.x - b.x),
+    height: Math.abs(a.y - b.y),
+});
+
+export const imageRectToContainer = (rect: Rect, container: Size, natural: Size): Rect => {
+    const topLeft = imageToContainer(rect, container, natural);
+    const { scale } = getContainedRect(container, natural);
+    return { ...topLeft, width: rect.width * scale, height: rect.height * scale };
+};
+
+export const normalizeRect = (rect: Rect, natural: Size): NormalizedBox => ({
+    xMin: rect.x / natural.width,
+    yMin: rect.y / natural.height,
+    xMax: (rect.x + rect.width) / natural.width,
+    yMax: (rect.y + rect.height) / natural.height,
+});
+
+export const denormalizeBox = (box: NormalizedBox, natural: Size): Rect => ({
+    x: box.xMin * natural.width,
+    y: box.yMin * natural.height,
+    width: (box.xMax - box.xMin) * natural.width,
+    height: (box.yMax - box.yMin) * natural.height,
+});
+
+// Gemini's convention for boxes is [ymin, xmin, ymax, xmax] scaled to 0-1000
+export const toBox2d = (box: NormalizedBox): number[] =>
+    [box.yMin, box.xMin, box.yMax, box.xMax].map(v => Math.round(v * 1000));
+
+export const fromBox2d = ([yMin, xMin, yMax, xMax]: number[]): NormalizedBox => ({
+    xMin: Math.min(xMin, xMax) / 1000,
+    yMin: Math.min(yMin, yMax) / 1000,
+    xMax: Math.max(xMin, xMax) / 1000,
+    yMax: Math.max(yMin, yMax) / 1000,
+});
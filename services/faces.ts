@@ -0,0 +1,64 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createCanvas, loadImage } from './imageUtils';
+import type { NormalizedBox } from './coordinates';
+
+// Face swaps work on explicit pairs of faces: which face in the source image
+// goes onto which face in the target. Faces are located by the provider and
+// identified by their boxes from then on.
+
+// Which way faces travel relative to the active layer
+export type FaceSwapDirection = 'into-layer' | 'from-layer';
+
+export interface DetectedFace {
+    box: NormalizedBox;
+    thumbnailUrl: string;
+}
+
+export interface FacePairing {
+    source: NormalizedBox;
+    target: NormalizedBox;
+}
+
+// Faces are listed left to right, then top to bottom, so numbering matches how people read a photo
+export const sortFaces = (faces: NormalizedBox[]): NormalizedBox[] =>
+    [...faces].sort((a, b) => (a.xMin + a.xMax) - (b.xMin + b.xMax) || (a.yMin + a.yMax) - (b.yMin + b.yMax));
+
+// Faces are paired in reading order by default; extra target faces are left alone
+export const defaultFacePairings = (sourceCount: number, targetCount: number): (number | null)[] =>
+    Array.from({ length: targetCount }, (_, i) => i < sourceCount ? i : null);
+
+/**
+ * Turns a choice of source face for each target face into the pairs sent to
+ * the provider. Targets left without a source are not swapped.
+ */
+export const buildFacePairings = (sourceFaces: DetectedFace[], targetFaces: DetectedFace[], choices: (number | null)[]): FacePairing[] =>
+    targetFaces.flatMap((target, i) => {
+        const choice = choices[i];
+        return choice !== null && choice !== undefined && sourceFaces[choice]
+            ? [{ source: sourceFaces[choice].box, target: target.box }]
+            : [];
+    });
+
+/**
+ * Crops a square thumbnail around a face, with some margin so the face is
+ * recognizable.
+ * @returns The data URL of the thumbnail.
+ */
+export const cropFaceThumbnail = async (file: File, box: NormalizedBox, size = 96): Promise<string> => {
+    const img = await loadImage(file);
+    const width = (box.xMax - box.xMin) * img.naturalWidth;
+    const height = (box.yMax - box.yMin) * img.naturalHeight;
+    const side = Math.max(width, height) * 1.3;
+    const centerX = (box.xMin + box.xMax) / 2 * img.naturalWidth;
+    const centerY = (box.yMin + box.yMax) / 2 * img.naturalHeight;
+
+    const { canvas, ctx } = createCanvas(size, size);
+    ctx.fillStyle = '#1f2937';
+    ctx.fillRect(0, 0, size, size);
+    ctx.drawImage(img, centerX - side / 2, centerY - side / 2, side, side, 0, 0, size, size);
+    return canvas.toDataURL('image/png');
+};
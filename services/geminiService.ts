@@ -3,13 +3,45 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import { GoogleGenAI, GenerateContentResponse, Modality } from "@google/genai";
+import { GoogleGenAI, GenerateContentResponse, Modality, type Content, type GenerateContentResponseUsageMetadata, type Part } from "@google/genai";
+import type { ChatExchange, EditRegion, ImageEditProvider } from './imageEditProvider';
+import { GenerationError, toGenerationError } from './generationError';
+import { withRetry } from './retry';
+import { getCachedResult, hashCacheKey, putCachedResult } from './resultCache';
+import { assertWithinBudget, getUsagePricing, recordUsage, reserveBudget, tokensFromUsageMetadata } from './usageTracker';
+import { describePrompt, renderPrompt } from './promptTemplates';
+import { enforcePromptPolicy } from './promptPolicy';
+import { normalizeForUpload, restoreOriginalResolution, type UploadTransform } from './uploadPreprocessing';
+import type { AspectRatio } from './textToImage';
+import type { UpscaleFactor } from './upscale';
+import { fromBox2d, type NormalizedBox } from './coordinates';
+import { sortFaces, type FacePairing } from './faces';
+import { parseImageAnalysis, type ImageAnalysis } from './imageAnalysis';
+
+const IMAGE_MODEL = 'gemini-2.5-flash-image-preview';
+// Used for requests that only need structured text back, such as locating faces
+const TEXT_MODEL = 'gemini-2.5-flash';
+
+let client: GoogleGenAI | null = null;
+
+// Lazily create a single client so the key is only required once a Gemini call is made
+const getClient = (): GoogleGenAI => {
+    if (!client) {
+        client = new GoogleGenAI({ apiKey: process.env.API_KEY! });
+    }
+    return client;
+};
+
+// Normalizes a File for upload and converts it to a Gemini API Part
+const fileToPart = async (file: File): Promise<{ part: Part; transform: UploadTransform | null }> => {
+    const { file: uploadFile, transform } = await normalizeForUpload(file);
+    if (uploadFile !== file) {
+        console.log(`Normalized ${file.name} for upload`, transform);
+    }
 
-// Helper function to convert a File object to a Gemini API Part
-const fileToPart = async (file: File): Promise<{ inlineData: { mimeType: string; data: string; } }> => {
     const dataUrl = await new Promise<string>((resolve, reject) => {
         const reader = new FileReader();
-        reader.readAsDataURL(file);
+        reader.readAsDataURL(uploadFile);
         reader.onload = () => resolve(reader.result as string);
         reader.onerror = error => reject(error);
     });
@@ -21,7 +53,7 @@ const fileToPart = async (file: File): Promise<{ inlineData: { mimeType: string;
     
     const mimeType = mimeMatch[1];
     const data = arr[1];
-    return { inlineData: { mimeType, data } };
+    return { part: { inlineData: { mimeType, data } }, transform };
 };
 
 const handleApiResponse = (
@@ -31,99 +63,188 @@ const handleApiResponse = (
     // 1. Check for prompt blocking first
     if (response.promptFeedback?.blockReason) {
         const { blockReason, blockReasonMessage } = response.promptFeedback;
-        const errorMessage = `Request was blocked. Reason: ${blockReason}. ${blockReasonMessage || ''}`;
-        console.error(errorMessage, { response });
-        throw new Error(errorMessage);
+        const reason = `${blockReason}${blockReasonMessage ? `: ${blockReasonMessage}` : ''}`;
+        console.error(`Request was blocked. Reason: ${reason}`, { response });
+        throw new GenerationError('blocked', reason);
+    }
+
+    const candidate = response.candidates?.[0];
+    if (!candidate) {
+        console.error(`Model response for ${context} contained no candidates.`, { response });
+        throw new GenerationError('invalid-response', `No candidates returned for ${context}`);
     }
 
     // 2. Try to find the image part
-    const imagePartFromResponse = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
+    const imagePartFromResponse = candidate.content?.parts?.find(part => part.inlineData);
 
     if (imagePartFromResponse?.inlineData) {
         const { mimeType, data } = imagePartFromResponse.inlineData;
+        if (!mimeType || !data) {
+            throw new GenerationError('invalid-response', `Image part for ${context} is missing data`);
+        }
         console.log(`Received image data (${mimeType}) for ${context}`);
         return `data:${mimeType};base64,${data}`;
     }
 
     // 3. If no image, check for other reasons
-    const finishReason = response.candidates?.[0]?.finishReason;
+    const finishReason = candidate.finishReason;
     if (finishReason && finishReason !== 'STOP') {
-        const errorMessage = `Image generation for ${context} stopped unexpectedly. Reason: ${finishReason}. This often relates to safety settings.`;
-        console.error(errorMessage, { response });
-        throw new Error(errorMessage);
+        console.error(`Image generation for ${context} stopped unexpectedly. Reason: ${finishReason}.`, { response });
+        throw new GenerationError('finish-reason', finishReason);
     }
     
     const textFeedback = response.text?.trim();
-    const errorMessage = `The AI model did not return an image for the ${context}. ` + 
-        (textFeedback 
-            ? `The model responded with text: "${textFeedback}"`
-            : "This can happen due to safety filters or if the request is too complex. Please try rephrasing your prompt to be more direct.");
-
     console.error(`Model response did not contain an image part for ${context}.`, { response });
-    throw new Error(errorMessage);
+    throw new GenerationError('no-image', textFeedback || `No image returned for ${context}`);
+};
+
+// Approximate decoded size of base64 data, ignoring any data URL prefix
+const base64Bytes = (data: string): number => Math.floor((data.length - (data.indexOf(',') + 1)) * 3 / 4);
+
+// Parallel variations send identical requests; each one gets its own cache slot so they stay distinct
+const inFlightSlots = new Map<string, number>();
+
+const partKey = (part: Part): string => part.inlineData ? `${part.inlineData.mimeType}:${part.inlineData.data}` : part.text ?? '';
+
+/**
+ * Sends the parts to the image model, retrying transient failures and serving
+ * repeats from the cache. When `history` is given the parts are sent as the
+ * next message of a chat that already contains those turns.
+ */
+const requestImage = async (parts: Part[], context: string, signal?: AbortSignal, history?: Content[]): Promise<string> => {
+    const historyParts = history?.flatMap(content => content.parts ?? []) ?? [];
+    const baseKey = await hashCacheKey([
+        IMAGE_MODEL,
+        ...(history ? ['chat', ...history.map(content => `${content.role}:${(content.parts ?? []).map(partKey).join('|')}`)] : []),
+        ...parts.map(partKey),
+    ]);
+    const slot = inFlightSlots.get(baseKey) ?? 0;
+    inFlightSlots.set(baseKey, slot + 1);
+    const key = `${baseKey}:${slot}`;
+
+    const startedAt = Date.now();
+    const inputBytes = [...historyParts, ...parts].reduce((total, part) => total + base64Bytes(part.inlineData?.data ?? ''), 0);
+    const usageBase = { operation: context, model: IMAGE_MODEL, startedAt, inputBytes };
+
+    try {
+        const cached = await getCachedResult(key);
+        if (cached) {
+            console.log(`Using cached result for ${context}.`);
+            recordUsage({ ...usageBase, latencyMs: Date.now() - startedAt, outcome: 'cached', promptTokens: 0, outputTokens: 0, outputBytes: base64Bytes(cached) });
+            return cached;
+        }
+
+        // Parallel variations each check the budget before any of them is recorded
+        const releaseBudget = reserveBudget(getUsagePricing().estimatedImageCallUsd);
+        let usage: GenerateContentResponseUsageMetadata | undefined;
+        let result: string;
+        try {
+            result = await withRetry(async () => {
+                const config = {
+                    responseModalities: [Modality.IMAGE, Modality.TEXT],
+                    abortSignal: signal,
+                };
+                // A fresh chat per attempt, so a failed attempt never leaks into its history
+                const response: GenerateContentResponse = history
+                    ? await getClient().chats.create({ model: IMAGE_MODEL, history }).sendMessage({ message: parts, config })
+                    : await getClient().models.generateContent({ model: IMAGE_MODEL, contents: { parts }, config });
+                console.log(`Received response from model for ${context}.`, response);
+                usage = response.usageMetadata;
+                return handleApiResponse(response, context);
+            }, signal);
+        } catch (err) {
+            recordUsage({ ...usageBase, latencyMs: Date.now() - startedAt, outcome: toGenerationError(err).kind, ...tokensFromUsageMetadata(usage), outputBytes: 0 });
+            throw err;
+        } finally {
+            releaseBudget();
+        }
+
+        recordUsage({ ...usageBase, latencyMs: Date.now() - startedAt, outcome: 'success', ...tokensFromUsageMetadata(usage), outputBytes: base64Bytes(result) });
+        await putCachedResult(key, result, context);
+        return result;
+    } finally {
+        const remaining = (inFlightSlots.get(baseKey) ?? 1) - 1;
+        if (remaining > 0) {
+            inFlightSlots.set(baseKey, remaining);
+        } else {
+            inFlightSlots.delete(baseKey);
+        }
+    }
 };
 
 /**
- * Generates an edited image using generative AI based on a text prompt and a specific point.
+ * Sends the parts to the text model and parses its reply as JSON. Replies are
+ * small and cheap to repeat, so they are not cached.
+ */
+const requestJson = async <T>(parts: Part[], context: string, signal?: AbortSignal): Promise<T> => {
+    const startedAt = Date.now();
+    const inputBytes = parts.reduce((total, part) => total + base64Bytes(part.inlineData?.data ?? ''), 0);
+    const usageBase = { operation: context, model: TEXT_MODEL, startedAt, inputBytes };
+
+    assertWithinBudget();
+    let usage: GenerateContentResponseUsageMetadata | undefined;
+    let text = '';
+    try {
+        const result = await withRetry(async () => {
+            const response = await getClient().models.generateContent({
+                model: TEXT_MODEL,
+                contents: { parts },
+                config: { responseMimeType: 'application/json', abortSignal: signal },
+            });
+            console.log(`Received response from model for ${context}.`, response);
+            usage = response.usageMetadata;
+            if (response.promptFeedback?.blockReason) {
+                throw new GenerationError('blocked', response.promptFeedback.blockReason);
+            }
+            text = response.text ?? '';
+            try {
+                return JSON.parse(text) as T;
+            } catch {
+                throw new GenerationError('invalid-response', `Could not parse the ${context} response as JSON`);
+            }
+        }, signal);
+        recordUsage({ ...usageBase, latencyMs: Date.now() - startedAt, outcome: 'success', ...tokensFromUsageMetadata(usage), outputBytes: text.length });
+        return result;
+    } catch (err) {
+        recordUsage({ ...usageBase, latencyMs: Date.now() - startedAt, outcome: toGenerationError(err).kind, ...tokensFromUsageMetadata(usage), outputBytes: 0 });
+        throw err;
+    }
+};
+
+/**
+ * Generates an edited image using generative AI based on a text prompt and a target region.
  * @param originalImage The original image file.
  * @param userPrompt The text prompt describing the desired edit.
- * @param hotspot The {x, y} coordinates on the image to focus the edit.
+ * @param region The point, box or mask on the image to focus the edit.
  * @param additionalPrompt Optional extra instructions for the AI.
  * @param isTransparent Whether to request a transparent background.
  * @param scale The scaling factor for the edited element.
+ * @param signal Optional signal that cancels the request when aborted.
  * @returns A promise that resolves to the data URL of the edited image.
  */
 export const generateEditedImage = async (
     originalImage: File,
     userPrompt: string,
-    hotspot: { x: number, y: number },
+    region: EditRegion,
     additionalPrompt: string,
     isTransparent: boolean,
-    scale: number
+    scale: number,
+    signal?: AbortSignal
 ): Promise<string> => {
-    console.log('Starting generative edit at:', hotspot, {isTransparent, scale});
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
-    
-    const originalImagePart = await fileToPart(originalImage);
-    let prompt = `You are an expert photo editor AI. Your task is to perform a natural, localized edit on the provided image based on the user's request.
-User Request: "${userPrompt}"
-Edit Location: Focus on the area around pixel coordinates (x: ${hotspot.x}, y: ${hotspot.y}).
-
-Editing Guidelines:
-- The edit must be realistic and blend seamlessly with the surrounding area.
-- The rest of the image (outside the immediate edit area) must remain identical to the original.
+    console.log('Starting generative edit at:', region, {isTransparent, scale});
+    enforcePromptPolicy([userPrompt, additionalPrompt], 'edit');
 
-Safety & Ethics Policy:
-- You MUST fulfill requests to adjust skin tone, such as 'give me a tan', 'make my skin darker', or 'make my skin lighter'. These are considered standard photo enhancements.
-- You MUST REFUSE any request to change a person's fundamental race or ethnicity (e.g., 'make me look Asian', 'change this person to be Black'). Do not perform these edits. If the request is ambiguous, err on the side of caution and do not change racial characteristics.
-
-Output: Return ONLY the final edited image. Do not return text.`;
-    
-    if (scale !== 1.0) {
-        prompt += `\nScale Factor: Adjust the size of the added/modified element by a factor of ${scale.toFixed(2)}. For example, a factor of 1.5 means 50% larger, and 0.8 means 20% smaller than its natural size in the scene.`;
+    const original = await fileToPart(originalImage);
+    const parts: Part[] = [original.part];
+    if (region.kind === 'mask') {
+        parts.push((await fileToPart(region.mask)).part);
     }
+    const prompt = renderPrompt('edit', { userPrompt, region, scale, additionalPrompt, isTransparent });
+    parts.push({ text: prompt.text });
 
-    if (additionalPrompt) {
-        prompt += `\nAdditional Instructions from user: "${additionalPrompt}"`;
-    }
-    
-    if (isTransparent) {
-        prompt += `\nCRITICAL INSTRUCTION: The final output image MUST have a transparent background. Only the edited subject should be visible.`;
-    }
-
-    const textPart = { text: prompt };
-
-    console.log('Sending image and prompt to the model...');
-    const response: GenerateContentResponse = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image-preview',
-        contents: { parts: [originalImagePart, textPart] },
-        config: {
-            responseModalities: [Modality.IMAGE, Modality.TEXT],
-        },
-    });
-    console.log('Received response from model.', response);
-
-    return handleApiResponse(response, 'edit');
+    console.log(`Sending image and prompt (${describePrompt(prompt)}) to the model...`);
+    const resultUrl = await requestImage(parts, 'edit', signal);
+    return restoreOriginalResolution(resultUrl, original.transform);
 };
 
 /**
@@ -132,48 +253,26 @@ Output: Return ONLY the final edited image. Do not return text.`;
  * @param filterPrompt The text prompt describing the desired filter.
  * @param additionalPrompt Optional extra instructions for the AI.
  * @param isTransparent Whether to request a transparent background.
+ * @param signal Optional signal that cancels the request when aborted.
  * @returns A promise that resolves to the data URL of the filtered image.
  */
 export const generateFilteredImage = async (
     originalImage: File,
     filterPrompt: string,
     additionalPrompt: string,
-    isTransparent: boolean
+    isTransparent: boolean,
+    signal?: AbortSignal
 ): Promise<string> => {
     console.log(`Starting filter generation: ${filterPrompt}`, {isTransparent});
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
+    enforcePromptPolicy([filterPrompt, additionalPrompt], 'filter');
     
-    const originalImagePart = await fileToPart(originalImage);
-    let prompt = `You are an expert photo editor AI. Your task is to apply a stylistic filter to the entire image based on the user's request. Do not change the composition or content, only apply the style.
-Filter Request: "${filterPrompt}"
-
-Safety & Ethics Policy:
-- Filters may subtly shift colors, but you MUST ensure they do not alter a person's fundamental race or ethnicity.
-- You MUST REFUSE any request that explicitly asks to change a person's race (e.g., 'apply a filter to make me look Chinese').
-
-Output: Return ONLY the final filtered image. Do not return text.`;
-
-    if (additionalPrompt) {
-        prompt += `\nAdditional Instructions from user: "${additionalPrompt}"`;
-    }
-
-    if (isTransparent) {
-        prompt += `\nCRITICAL INSTRUCTION: After applying the filter, make the background of the image transparent, keeping only the main subject(s).`;
-    }
-
-    const textPart = { text: prompt };
+    const original = await fileToPart(originalImage);
+    const prompt = renderPrompt('filter', { filterPrompt, additionalPrompt, isTransparent });
+    const textPart = { text: prompt.text };
 
-    console.log('Sending image and filter prompt to the model...');
-    const response: GenerateContentResponse = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image-preview',
-        contents: { parts: [originalImagePart, textPart] },
-        config: {
-            responseModalities: [Modality.IMAGE, Modality.TEXT],
-        },
-    });
-    console.log('Received response from model for filter.', response);
-    
-    return handleApiResponse(response, 'filter');
+    console.log(`Sending image and filter prompt (${describePrompt(prompt)}) to the model...`);
+    const resultUrl = await requestImage([original.part, textPart], 'filter', signal);
+    return restoreOriginalResolution(resultUrl, original.transform);
 };
 
 /**
@@ -183,6 +282,7 @@ Output: Return ONLY the final filtered image. Do not return text.`;
  * @param referenceImage An optional reference image for style/content transfer.
  * @param additionalPrompt Optional extra instructions for the AI.
  * @param isTransparent Whether to request a transparent background.
+ * @param signal Optional signal that cancels the request when aborted.
  * @returns A promise that resolves to the data URL of the adjusted image.
  */
 export const generateAdjustedImage = async (
@@ -190,127 +290,86 @@ export const generateAdjustedImage = async (
     adjustmentPrompt: string,
     referenceImage: File | null,
     additionalPrompt: string,
-    isTransparent: boolean
+    isTransparent: boolean,
+    signal?: AbortSignal
 ): Promise<string> => {
     console.log(`Starting global adjustment generation: ${adjustmentPrompt}`, { hasReference: !!referenceImage, isTransparent });
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
+    enforcePromptPolicy([adjustmentPrompt, additionalPrompt], 'adjustment');
     
-    const originalImagePart = await fileToPart(originalImage);
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const parts: any[] = [originalImagePart];
-    let prompt: string;
-
+    const original = await fileToPart(originalImage);
+    const parts: Part[] = [original.part];
     if (referenceImage) {
-        const referenceImagePart = await fileToPart(referenceImage);
-        parts.push(referenceImagePart);
-
-        prompt = `You are an expert photo editor AI. Your task is to perform a natural, global adjustment to the MAIN image, using the second image as a REFERENCE.
-User Request: "${adjustmentPrompt}"
-
-Editing Guidelines:
-- The adjustment must be applied across the entire MAIN image.
-- Use the REFERENCE image as inspiration (e.g., for style, lighting, color palette).
-- The result must be photorealistic.
-
-Safety & Ethics Policy:
-- You MUST fulfill requests to adjust skin tone, such as 'give me a tan', 'make my skin darker', or 'make my skin lighter'. These are considered standard photo enhancements.
-- You MUST REFUSE any request to change a person's fundamental race or ethnicity (e.g., 'make me look Asian', 'change this person to be Black'). Do not perform these edits. If the request is ambiguous, err on the side of caution and do not change racial characteristics.
-
-Output: Return ONLY the final adjusted MAIN image. Do not return text.`;
-    } else {
-        prompt = `You are an expert photo editor AI. Your task is to perform a natural, global adjustment to the entire image based on the user's request.
-User Request: "${adjustmentPrompt}"
-
-Editing Guidelines:
-- The adjustment must be applied across the entire image.
-- The result must be photorealistic.
-
-Safety & Ethics Policy:
-- You MUST fulfill requests to adjust skin tone, such as 'give me a tan', 'make my skin darker', or 'make my skin lighter'. These are considered standard photo enhancements.
-- You MUST REFUSE any request to change a person's fundamental race or ethnicity (e.g., 'make me look Asian', 'change this person to be Black'). Do not perform these edits. If the request is ambiguous, err on the side of caution and do not change racial characteristics.
-
-Output: Return ONLY the final adjusted image. Do not return text.`;
-    }
-
-    if (additionalPrompt) {
-        prompt += `\nAdditional Instructions from user: "${additionalPrompt}"`;
-    }
-    
-    if (isTransparent) {
-        prompt += `\nCRITICAL INSTRUCTION: After applying the adjustment, make the background of the image transparent, keeping only the main subject(s).`;
+        parts.push((await fileToPart(referenceImage)).part);
     }
 
-    const textPart = { text: prompt };
-    parts.push(textPart);
+    const prompt = renderPrompt('adjustment', { adjustmentPrompt, hasReferenceImage: !!referenceImage, additionalPrompt, isTransparent });
+    parts.push({ text: prompt.text });
 
-    console.log('Sending image(s) and adjustment prompt to the model...');
-    const response: GenerateContentResponse = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image-preview',
-        contents: { parts: parts },
-        config: {
-            responseModalities: [Modality.IMAGE, Modality.TEXT],
-        },
-    });
-    console.log('Received response from model for adjustment.', response);
-    
-    return handleApiResponse(response, 'adjustment');
+    console.log(`Sending image(s) and adjustment prompt (${describePrompt(prompt)}) to the model...`);
+    const resultUrl = await requestImage(parts, 'adjustment', signal);
+    return restoreOriginalResolution(resultUrl, original.transform);
 };
 
 /**
- * Generates an image with a face swapped from a source to a target image.
- * @param sourceImage The image containing the face to use.
- * @param targetImage The image where the face should be placed.
+ * Generates an image with faces swapped from a source to a target image.
+ * @param sourceImage The image containing the faces to use.
+ * @param targetImage The image where the faces should be placed; the result is an edited copy of it.
+ * @param pairings Which source face goes onto which target face. When empty, the model picks the faces itself.
  * @param additionalPrompt Optional extra instructions for the AI.
  * @param isTransparent Whether to request a transparent background.
+ * @param signal Optional signal that cancels the request when aborted.
  * @returns A promise that resolves to the data URL of the face-swapped image.
  */
 export const generateFaceSwapImage = async (
     sourceImage: File,
     targetImage: File,
+    pairings: FacePairing[],
     additionalPrompt: string,
-    isTransparent: boolean
+    isTransparent: boolean,
+    signal?: AbortSignal
 ): Promise<string> => {
-    console.log(`Starting face swap...`, { isTransparent });
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
+    console.log(`Starting face swap...`, { pairings: pairings.length, isTransparent });
+    enforcePromptPolicy([additionalPrompt], 'face swap');
 
-    const sourceImagePart = await fileToPart(sourceImage);
-    const targetImagePart = await fileToPart(targetImage);
+    const source = await fileToPart(sourceImage);
+    const target = await fileToPart(targetImage);
+    const prompt = renderPrompt('faceSwap', { pairings, additionalPrompt, isTransparent });
+    const textPart = { text: prompt.text };
 
-    let prompt = `You are an expert photo editor AI specializing in hyper-realistic face swapping.
-Your task is to take the face from the FIRST image (the source) and seamlessly place it onto the person in the SECOND image (the target).
+    const parts = [source.part, target.part, textPart];
 
-Instructions:
-1. Identify the primary face in the source image.
-2. Identify the primary face in the target image.
-3. Replace the target face with the source face.
-4. The final image must be photorealistic. Match the lighting, skin tone, shadows, and angle of the target image perfectly.
-5. Do not alter any other part of the target image. The background and body must remain identical.
+    console.log(`Sending images and face swap prompt (${describePrompt(prompt)}) to the model...`);
+    const resultUrl = await requestImage(parts, 'face swap', signal);
+    // The result is an edited copy of the target, so it goes back to the target's size
+    return restoreOriginalResolution(resultUrl, target.transform);
+};
 
-Output: Return ONLY the final edited image with the swapped face. Do not return text.`;
-    
-    if (additionalPrompt) {
-        prompt += `\nAdditional Instructions from user: "${additionalPrompt}"`;
-    }
-    
-    if (isTransparent) {
-        prompt += `\nCRITICAL INSTRUCTION: The final output image MUST have a transparent background. The person with the swapped face should be visible, and the original background should be removed.`;
+/**
+ * Locates the faces in an image.
+ * @param image The image to search.
+ * @param signal Optional signal that cancels the request when aborted.
+ * @returns A promise that resolves to the face boxes, normalized to the image
+ * and ordered left to right.
+ */
+export const detectFaces = async (
+    image: File,
+    signal?: AbortSignal
+): Promise<NormalizedBox[]> => {
+    console.log('Starting face detection...');
+
+    // Boxes are normalized, so the upload transform does not need undoing
+    const original = await fileToPart(image);
+    const prompt = renderPrompt('detectFaces', {});
+
+    console.log(`Sending image and face detection prompt (${describePrompt(prompt)}) to the model...`);
+    const detections = await requestJson<{ box_2d?: number[] }[]>([original.part, { text: prompt.text }], 'face detection', signal);
+    if (!Array.isArray(detections)) {
+        throw new GenerationError('invalid-response', 'Face detection did not return a list');
     }
-
-    const textPart = { text: prompt };
-
-    const parts = [sourceImagePart, targetImagePart, textPart];
-
-    console.log('Sending images and face swap prompt to the model...');
-    const response: GenerateContentResponse = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image-preview',
-        contents: { parts: parts },
-        config: {
-            responseModalities: [Modality.IMAGE, Modality.TEXT],
-        },
-    });
-    console.log('Received response from model for face swap.', response);
-
-    return handleApiResponse(response, 'face swap');
+    const faces = detections
+        .filter(detection => Array.isArray(detection?.box_2d) && detection.box_2d.length === 4)
+        .map(detection => fromBox2d(detection.box_2d!));
+    return sortFaces(faces);
 };
 
 /**
@@ -318,42 +377,192 @@ Output: Return ONLY the final edited image with the swapped face. Do not return
  * @param originalImage The original image file.
  * @param additionalPrompt Optional extra instructions for the AI.
  * @param isTransparent Whether to request a transparent background.
+ * @param signal Optional signal that cancels the request when aborted.
  * @returns A promise that resolves to the data URL of the image with the background removed.
  */
 export const generateRemovedBgImage = async (
     originalImage: File,
     additionalPrompt: string,
-    isTransparent: boolean
+    isTransparent: boolean,
+    signal?: AbortSignal
 ): Promise<string> => {
     console.log(`Starting background removal...`, { isTransparent });
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY! });
+    enforcePromptPolicy([additionalPrompt], 'background removal');
 
-    const originalImagePart = await fileToPart(originalImage);
-    let prompt = `You are an expert photo editor AI. Your task is to perfectly remove the background from the provided image, leaving only the main subject(s) cleanly isolated. The edges of the subject should be sharp and precise.`;
+    const original = await fileToPart(originalImage);
+    const prompt = renderPrompt('removeBackground', { additionalPrompt, isTransparent });
+    const textPart = { text: prompt.text };
 
-    if (additionalPrompt) {
-        prompt += `\nAdditional Instructions from user: "${additionalPrompt}"`;
-    }
-    
-    if (isTransparent) {
-        prompt += `\nCRITICAL INSTRUCTION: The final output image MUST have a transparent background.`;
-    } else {
-        prompt += `\nCRITICAL INSTRUCTION: The final output image MUST have a solid, neutral white background (#FFFFFF).`;
+    console.log(`Sending image and background removal prompt (${describePrompt(prompt)}) to the model...`);
+    const resultUrl = await requestImage([original.part, textPart], 'background removal', signal);
+    return restoreOriginalResolution(resultUrl, original.transform);
+};
+
+/**
+ * Asks the model for a segmentation mask of the main subject. Only the mask
+ * comes from the model; it is applied to the original pixels locally.
+ * @param originalImage The original image file.
+ * @param additionalPrompt Optional extra instructions, e.g. which subject to pick.
+ * @param signal Optional signal that cancels the request when aborted.
+ * @returns A promise that resolves to the data URL of the mask, white over the subject.
+ */
+export const generateSubjectMask = async (
+    originalImage: File,
+    additionalPrompt: string,
+    signal?: AbortSignal
+): Promise<string> => {
+    console.log(`Starting subject segmentation...`);
+    enforcePromptPolicy([additionalPrompt], 'subject mask');
+
+    const original = await fileToPart(originalImage);
+    const prompt = renderPrompt('subjectMask', { additionalPrompt });
+
+    console.log(`Sending image and segmentation prompt (${describePrompt(prompt)}) to the model...`);
+    const resultUrl = await requestImage([original.part, { text: prompt.text }], 'subject mask', signal);
+    return restoreOriginalResolution(resultUrl, original.transform);
+};
+
+/**
+ * Continues a conversational edit through the chat API. Earlier turns are
+ * replayed as chat history, so the model sees every prior instruction and
+ * the image it returned for each.
+ * @param startImage The image the conversation started from.
+ * @param exchanges The completed turns leading up to this one, oldest first.
+ * @param instruction The new instruction.
+ * @param isTransparent Whether to request a transparent background.
+ * @param signal Optional signal that cancels the request when aborted.
+ * @returns A promise that resolves to the data URL of the new result.
+ */
+export const generateChatEdit = async (
+    startImage: File,
+    exchanges: ChatExchange[],
+    instruction: string,
+    isTransparent: boolean,
+    signal?: AbortSignal
+): Promise<string> => {
+    console.log(`Starting chat turn ${exchanges.length + 1}: ${instruction}`, { isTransparent });
+    enforcePromptPolicy([instruction], 'chat edit');
+
+    const start = await fileToPart(startImage);
+    const history: Content[] = [];
+    for (const [index, exchange] of exchanges.entries()) {
+        const turnPrompt = renderPrompt('chatTurn', { instruction: exchange.instruction, isFirstTurn: index === 0, isTransparent: exchange.isTransparent });
+        history.push({ role: 'user', parts: index === 0 ? [start.part, { text: turnPrompt.text }] : [{ text: turnPrompt.text }] });
+        history.push({ role: 'model', parts: [(await fileToPart(exchange.result)).part] });
     }
 
-    prompt += `\n\nOutput: Return ONLY the final edited image. Do not return text.`;
+    const prompt = renderPrompt('chatTurn', { instruction, isFirstTurn: exchanges.length === 0, isTransparent });
+    const message: Part[] = exchanges.length === 0 ? [start.part, { text: prompt.text }] : [{ text: prompt.text }];
 
-    const textPart = { text: prompt };
+    console.log(`Sending chat message (${describePrompt(prompt)}) with ${exchanges.length} earlier turns...`);
+    const resultUrl = await requestImage(message, 'chat edit', signal, history);
+    return restoreOriginalResolution(resultUrl, start.transform);
+};
 
-    console.log('Sending image and background removal prompt to the model...');
-    const response: GenerateContentResponse = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image-preview',
-        contents: { parts: [originalImagePart, textPart] },
-        config: {
-            responseModalities: [Modality.IMAGE, Modality.TEXT],
-        },
-    });
-    console.log('Received response from model for background removal.', response);
+/**
+ * Fills the area added around an image when its canvas is extended.
+ * @param paddedImage The image on its extended canvas, with the new area left blank.
+ * @param mask A mask the size of the padded image, white over the new area.
+ * @param additionalPrompt Optional extra instructions for the AI.
+ * @param signal Optional signal that cancels the request when aborted.
+ * @returns A promise that resolves to the data URL of the extended image.
+ */
+export const generateOutpaintedImage = async (
+    paddedImage: File,
+    mask: File,
+    additionalPrompt: string,
+    signal?: AbortSignal
+): Promise<string> => {
+    console.log('Starting outpainting...', { additionalPrompt });
+    enforcePromptPolicy([additionalPrompt], 'outpaint');
+
+    const padded = await fileToPart(paddedImage);
+    const maskPart = (await fileToPart(mask)).part;
+    const prompt = renderPrompt('outpaint', { additionalPrompt });
+
+    console.log(`Sending padded image, mask and outpaint prompt (${describePrompt(prompt)}) to the model...`);
+    const resultUrl = await requestImage([padded.part, maskPart, { text: prompt.text }], 'outpaint', signal);
+    return restoreOriginalResolution(resultUrl, padded.transform);
+};
+
+/**
+ * Upscales an image, typically one tile of a larger one.
+ * @param image The image to upscale.
+ * @param factor How much to enlarge it.
+ * @param signal Optional signal that cancels the request when aborted.
+ * @returns A promise that resolves to the data URL of the upscaled image, at
+ * whatever size the model returned.
+ */
+export const generateUpscaledImage = async (
+    image: File,
+    factor: UpscaleFactor,
+    signal?: AbortSignal
+): Promise<string> => {
+    console.log(`Starting ${factor}x upscale...`);
+
+    const original = await fileToPart(image);
+    const prompt = renderPrompt('upscale', { factor });
+
+    console.log(`Sending image and upscale prompt (${describePrompt(prompt)}) to the model...`);
+    return requestImage([original.part, { text: prompt.text }], 'upscale', signal);
+};
+
+/**
+ * Generates a new image from a text description alone.
+ * @param prompt The description of the image to create.
+ * @param aspectRatio The aspect ratio to compose the image for.
+ * @param isTransparent Whether to request a transparent background.
+ * @param signal Optional signal that cancels the request when aborted.
+ * @returns A promise that resolves to the data URL of the generated image.
+ */
+export const generateImageFromText = async (
+    prompt: string,
+    aspectRatio: AspectRatio,
+    isTransparent: boolean,
+    signal?: AbortSignal
+): Promise<string> => {
+    console.log(`Starting text-to-image generation: ${prompt}`, { aspectRatio, isTransparent });
+    enforcePromptPolicy([prompt], 'text to image');
+
+    const rendered = renderPrompt('textToImage', { prompt, aspectRatio, isTransparent });
+
+    console.log(`Sending text-to-image prompt (${describePrompt(rendered)}) to the model...`);
+    return requestImage([{ text: rendered.text }], 'text to image', signal);
+};
 
-    return handleApiResponse(response, 'background removal');
-};
\ No newline at end of file
+/**
+ * Describes an image: a caption, the objects in it and edits worth trying.
+ * @param image The image to analyze.
+ * @param signal Optional signal that cancels the request when aborted.
+ * @returns A promise that resolves to the analysis, with object boxes
+ * normalized to the image.
+ */
+export const analyzeImage = async (
+    image: File,
+    signal?: AbortSignal
+): Promise<ImageAnalysis> => {
+    console.log('Starting image analysis...');
+
+    const original = await fileToPart(image);
+    const prompt = renderPrompt('analyzeImage', {});
+
+    console.log(`Sending image and analysis prompt (${describePrompt(prompt)}) to the model...`);
+    return parseImageAnalysis(await requestJson<unknown>([original.part, { text: prompt.text }], 'image analysis', signal));
+};
+
+export const geminiProvider: ImageEditProvider = {
+    id: 'gemini',
+    displayName: 'Gemini',
+    generateEditedImage,
+    generateFilteredImage,
+    generateAdjustedImage,
+    generateFaceSwapImage,
+    detectFaces,
+    generateRemovedBgImage,
+    generateSubjectMask,
+    generateChatEdit,
+    generateOutpaintedImage,
+    generateUpscaledImage,
+    generateImageFromText,
+    analyzeImage,
+};
@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ApiError } from '@google/genai';
+import { describe, expect, it } from 'vitest';
+import { GenerationError, toGenerationError } from './generationError';
+
+describe('toGenerationError', () => {
+    it('passes a GenerationError through unchanged', () => {
+        const error = new GenerationError('blocked', 'SAFETY');
+        expect(toGenerationError(error)).toBe(error);
+    });
+
+    it('treats an aborted request as cancelled', () => {
+        const abort = new Error('The operation was aborted');
+        abort.name = 'AbortError';
+        expect(toGenerationError(abort).kind).toBe('cancelled');
+    });
+
+    it('sorts API errors by status code', () => {
+        expect(toGenerationError(new ApiError({ message: 'quota', status: 429 })).kind).toBe('rate-limited');
+        expect(toGenerationError(new ApiError({ message: 'unavailable', status: 503 })).kind).toBe('network');
+        expect(toGenerationError(new ApiError({ message: 'bad request', status: 400 })).kind).toBe('invalid-response');
+    });
+
+    it('recognizes requests that never reached the server', () => {
+        expect(toGenerationError(new TypeError('Failed to fetch')).kind).toBe('network');
+        expect(toGenerationError(new Error('network connection lost')).kind).toBe('network');
+    });
+
+    it('keeps the detail of anything else as an invalid response', () => {
+        const error = toGenerationError('unexpected');
+        expect(error.kind).toBe('invalid-response');
+        expect(error.reason).toBe('unexpected');
+        expect(error.cause).toBe('unexpected');
+    });
+
+    it('only marks network and rate-limit failures as transient', () => {
+        expect(new GenerationError('network', '').isTransient).toBe(true);
+        expect(new GenerationError('rate-limited', '').isTransient).toBe(true);
+        expect(new GenerationError('blocked', '').isTransient).toBe(false);
+        expect(new GenerationError('blocked', '').suggestedAction).toBe('rephrase');
+    });
+});
@@ -0,0 +1,100 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ApiError } from "@google/genai";
+
+export type GenerationErrorKind =
+    | 'blocked'
+    | 'finish-reason'
+    | 'no-image'
+    | 'network'
+    | 'rate-limited'
+    | 'invalid-response'
+    | 'budget-exceeded'
+    | 'policy-violation'
+    | 'cancelled';
+
+// What the UI should offer the user once an operation has failed
+export type GenerationErrorAction = 'retry' | 'rephrase' | 'rasterize';
+
+const userMessages: Record<GenerationErrorKind, string> = {
+    blocked: 'คำขอถูกระงับโดยระบบความปลอดภัย กรุณาปรับคำอธิบายใหม่',
+    'finish-reason': 'AI หยุดสร้างภาพกลางคัน ซึ่งมักเกิดจากตัวกรองความปลอดภัย',
+    'no-image': 'AI ไม่ได้ส่งรูปภาพกลับมา ลองอธิบายคำขอให้ตรงไปตรงมามากขึ้น',
+    network: 'ไม่สามารถเชื่อมต่อกับบริการ AI ได้ กรุณาตรวจสอบการเชื่อมต่อแล้วลองอีกครั้ง',
+    'rate-limited': 'มีการเรียกใช้ AI มากเกินไปในขณะนี้ กรุณารอสักครู่แล้วลองอีกครั้ง',
+    'invalid-response': 'ได้รับคำตอบที่ไม่ถูกต้องจากบริการ AI',
+    'budget-exceeded': 'ใช้งาน AI ครบงบประมาณของเซสชันนี้หรือของวันนี้แล้ว ปรับงบประมาณได้ที่แผงการใช้งาน',
+    'policy-violation': 'คำสั่งนี้ขัดกับนโยบายการใช้งาน จึงไม่ได้ส่งไปยัง AI',
+    cancelled: 'ยกเลิกการทำงานแล้ว',
+};
+
+// Kinds without an action leave nothing for the user to try from the error itself
+const actions: Partial<Record<GenerationErrorKind, GenerationErrorAction>> = {
+    blocked: 'rephrase',
+    'finish-reason': 'rephrase',
+    'no-image': 'rephrase',
+    'policy-violation': 'rephrase',
+    network: 'retry',
+    'rate-limited': 'retry',
+    'invalid-response': 'retry',
+    cancelled: 'retry',
+};
+
+// Kinds that are worth retrying automatically without user involvement
+const transientKinds: ReadonlySet<GenerationErrorKind> = new Set(['network', 'rate-limited']);
+
+/**
+ * An AI call failure with enough structure for the UI to react to it.
+ * `reason` holds the raw detail reported by the backend (block reason,
+ * finish reason, model text or HTTP error), while `userMessage` is the
+ * localized text to show.
+ */
+export class GenerationError extends Error {
+    readonly kind: GenerationErrorKind;
+    readonly reason: string;
+    readonly userMessage: string;
+
+    constructor(kind: GenerationErrorKind, reason: string, options?: { cause?: unknown }) {
+        super(`[${kind}] ${reason}`, options);
+        this.name = 'GenerationError';
+        this.kind = kind;
+        this.reason = reason;
+        this.userMessage = userMessages[kind];
+    }
+
+    get isTransient(): boolean {
+        return transientKinds.has(this.kind);
+    }
+
+    get suggestedAction(): GenerationErrorAction | undefined {
+        return actions[this.kind];
+    }
+}
+
+/**
+ * Normalizes anything thrown during an AI call into a GenerationError.
+ */
+export const toGenerationError = (err: unknown): GenerationError => {
+    if (err instanceof GenerationError) return err;
+
+    if (err instanceof Error && err.name === 'AbortError') {
+        return new GenerationError('cancelled', err.message, { cause: err });
+    }
+
+    if (err instanceof ApiError) {
+        if (err.status === 429) return new GenerationError('rate-limited', err.message, { cause: err });
+        if (err.status >= 500) return new GenerationError('network', err.message, { cause: err });
+        return new GenerationError('invalid-response', err.message, { cause: err });
+    }
+
+    // fetch() rejects with a TypeError when the request never reached the server
+    if (err instanceof TypeError || (err instanceof Error && /network|fetch/i.test(err.message))) {
+        return new GenerationError('network', err.message, { cause: err });
+    }
+
+    const reason = err instanceof Error ? err.message : String(err);
+    return new GenerationError('invalid-response', reason, { cause: err });
+};
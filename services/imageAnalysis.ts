@@ -0,0 +1,64 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { fromBox2d, type NormalizedBox } from './coordinates';
+import { GenerationError } from './generationError';
+
+// A text-only read of an image: what it shows, where things are, and edits
+// worth trying. Suggestions are offered as ready-made prompts in the tool
+// panels, and the caption doubles as alt text on export.
+
+// The tab a suggested edit belongs to
+export type SuggestionTool = 'retouch' | 'filter' | 'adjust';
+
+export interface DetectedObject {
+    label: string;
+    box: NormalizedBox;
+}
+
+export interface EditSuggestion {
+    tool: SuggestionTool;
+    // Short Thai title shown on the suggestion's button
+    label: string;
+    prompt: string;
+}
+
+export interface ImageAnalysis {
+    caption: string;
+    objects: DetectedObject[];
+    suggestions: EditSuggestion[];
+}
+
+const isSuggestionTool = (value: unknown): value is SuggestionTool =>
+    value === 'retouch' || value === 'filter' || value === 'adjust';
+
+/**
+ * Validates the model's JSON answer. Malformed objects and suggestions are
+ * dropped rather than failing the whole analysis.
+ */
+export const parseImageAnalysis = (raw: unknown): ImageAnalysis => {
+    if (!raw || typeof raw !== 'object') {
+        throw new GenerationError('invalid-response', 'Image analysis did not return an object');
+    }
+    const { caption, objects, suggestions } = raw as Record<string, unknown>;
+    if (typeof caption !== 'string' || !caption.trim()) {
+        throw new GenerationError('invalid-response', 'Image analysis is missing a caption');
+    }
+
+    const parsedObjects = (Array.isArray(objects) ? objects : []).flatMap((object): DetectedObject[] => {
+        const { label, box_2d } = (object ?? {}) as Record<string, unknown>;
+        return typeof label === 'string' && Array.isArray(box_2d) && box_2d.length === 4 && box_2d.every(v => typeof v === 'number')
+            ? [{ label, box: fromBox2d(box_2d) }]
+            : [];
+    });
+    const parsedSuggestions = (Array.isArray(suggestions) ? suggestions : []).flatMap((suggestion): EditSuggestion[] => {
+        const { tool, label, prompt } = (suggestion ?? {}) as Record<string, unknown>;
+        return isSuggestionTool(tool) && typeof label === 'string' && typeof prompt === 'string' && prompt.trim()
+            ? [{ tool, label, prompt }]
+            : [];
+    });
+
+    return { caption: caption.trim(), objects: parsedObjects, suggestions: parsedSuggestions };
+};
@@ -0,0 +1,41 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { resolveImageEditProvider } from './imageEditProvider';
+
+const resolveWith = (search: string, env: { IMAGE_PROVIDER?: string; API_KEY?: string }) => {
+    vi.stubGlobal('window', { location: { search } });
+    vi.stubEnv('IMAGE_PROVIDER', env.IMAGE_PROVIDER ?? '');
+    vi.stubEnv('API_KEY', env.API_KEY ?? '');
+    return resolveImageEditProvider().id;
+};
+
+describe('resolveImageEditProvider', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.unstubAllEnvs();
+    });
+
+    it('uses the local provider without an API key', () => {
+        expect(resolveWith('', {})).toBe('local');
+    });
+
+    it('uses Gemini when an API key is configured', () => {
+        expect(resolveWith('', { API_KEY: 'key' })).toBe('gemini');
+    });
+
+    it('lets IMAGE_PROVIDER override the API key', () => {
+        expect(resolveWith('', { IMAGE_PROVIDER: 'local', API_KEY: 'key' })).toBe('local');
+    });
+
+    it('lets the query parameter override IMAGE_PROVIDER', () => {
+        expect(resolveWith('?provider=gemini', { IMAGE_PROVIDER: 'local' })).toBe('gemini');
+    });
+
+    it('ignores unknown provider names', () => {
+        expect(resolveWith('?provider=other', { IMAGE_PROVIDER: 'other', API_KEY: 'key' })).toBe('gemini');
+    });
+});
@@ -0,0 +1,150 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { geminiProvider } from './geminiService';
+import { localProvider } from './localProvider';
+import type { NormalizedBox } from './coordinates';
+import type { FacePairing } from './faces';
+import type { ImageAnalysis } from './imageAnalysis';
+import type { AspectRatio } from './textToImage';
+import type { UpscaleFactor } from './upscale';
+
+export type ImageEditProviderId = 'gemini' | 'local';
+
+/**
+ * Where a localized retouch should land. A point is in the original image's
+ * pixels, a box is normalized to its width and height, and a mask is a
+ * grayscale image the same size as the original, white where the edit is
+ * allowed.
+ */
+export type EditRegion =
+    | { kind: 'point', x: number, y: number }
+    | { kind: 'box', box: NormalizedBox }
+    | { kind: 'mask', mask: File };
+
+/**
+ * One completed turn of a conversational edit: what the user asked for and
+ * the image that came back.
+ */
+export interface ChatExchange {
+    instruction: string;
+    isTransparent: boolean;
+    result: File;
+}
+
+/**
+ * The contract every image-generation backend implements. Each method resolves
+ * to the data URL of the resulting image and rejects once its signal is aborted.
+ */
+export interface ImageEditProvider {
+    id: ImageEditProviderId;
+    displayName: string;
+    generateEditedImage: (
+        originalImage: File,
+        userPrompt: string,
+        region: EditRegion,
+        additionalPrompt: string,
+        isTransparent: boolean,
+        scale: number,
+        signal?: AbortSignal
+    ) => Promise<string>;
+    generateFilteredImage: (
+        originalImage: File,
+        filterPrompt: string,
+        additionalPrompt: string,
+        isTransparent: boolean,
+        signal?: AbortSignal
+    ) => Promise<string>;
+    generateAdjustedImage: (
+        originalImage: File,
+        adjustmentPrompt: string,
+        referenceImage: File | null,
+        additionalPrompt: string,
+        isTransparent: boolean,
+        signal?: AbortSignal
+    ) => Promise<string>;
+    generateFaceSwapImage: (
+        sourceImage: File,
+        targetImage: File,
+        pairings: FacePairing[],
+        additionalPrompt: string,
+        isTransparent: boolean,
+        signal?: AbortSignal
+    ) => Promise<string>;
+    // Resolves to the faces in the image, normalized and ordered left to right
+    detectFaces: (
+        image: File,
+        signal?: AbortSignal
+    ) => Promise<NormalizedBox[]>;
+    generateRemovedBgImage: (
+        originalImage: File,
+        additionalPrompt: string,
+        isTransparent: boolean,
+        signal?: AbortSignal
+    ) => Promise<string>;
+    // Resolves to a mask the size of the image, white over the main subject
+    generateSubjectMask: (
+        originalImage: File,
+        additionalPrompt: string,
+        signal?: AbortSignal
+    ) => Promise<string>;
+    generateChatEdit: (
+        startImage: File,
+        exchanges: ChatExchange[],
+        instruction: string,
+        isTransparent: boolean,
+        signal?: AbortSignal
+    ) => Promise<string>;
+    generateOutpaintedImage: (
+        paddedImage: File,
+        mask: File,
+        additionalPrompt: string,
+        signal?: AbortSignal
+    ) => Promise<string>;
+    // Enlarges a single tile; larger images are split up by services/upscale
+    generateUpscaledImage: (
+        image: File,
+        factor: UpscaleFactor,
+        signal?: AbortSignal
+    ) => Promise<string>;
+    generateImageFromText: (
+        prompt: string,
+        aspectRatio: AspectRatio,
+        isTransparent: boolean,
+        signal?: AbortSignal
+    ) => Promise<string>;
+    // Resolves to a text-only description of the image rather than a new image
+    analyzeImage: (
+        image: File,
+        signal?: AbortSignal
+    ) => Promise<ImageAnalysis>;
+}
+
+const providers: Record<ImageEditProviderId, ImageEditProvider> = {
+    gemini: geminiProvider,
+    local: localProvider,
+};
+
+const isProviderId = (value: string | null | undefined): value is ImageEditProviderId =>
+    !!value && Object.prototype.hasOwnProperty.call(providers, value);
+
+/**
+ * Picks the provider to use for this session. A `?provider=` query parameter
+ * wins over the `IMAGE_PROVIDER` environment variable; without either, the
+ * local provider is used when no API key is configured.
+ */
+export const resolveImageEditProvider = (): ImageEditProvider => {
+    const fromQuery = new URLSearchParams(window.location.search).get('provider');
+    if (isProviderId(fromQuery)) {
+        return providers[fromQuery];
+    }
+
+    const fromEnv = process.env.IMAGE_PROVIDER;
+    if (isProviderId(fromEnv)) {
+        return providers[fromEnv];
+    }
+
+    return process.env.API_KEY ? providers.gemini : providers.local;
+};
@@ -0,0 +1,64 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Canvas and file helpers shared by the providers and the editor.
+
+// Loads a File or URL into an image element, resolving once it is decoded
+export const loadImage = (source: File | string): Promise<HTMLImageElement> => {
+    return new Promise((resolve, reject) => {
+        const url = typeof source === 'string' ? source : URL.createObjectURL(source);
+        const release = () => {
+            if (typeof source !== 'string') URL.revokeObjectURL(url);
+        };
+        const img = new Image();
+        img.onload = () => {
+            release();
+            resolve(img);
+        };
+        img.onerror = (err) => {
+            release();
+            reject(err);
+        };
+        img.src = url;
+    });
+};
+
+export const createCanvas = (width: number, height: number): { canvas: HTMLCanvasElement, ctx: CanvasRenderingContext2D } => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Could not create canvas context');
+    return { canvas, ctx };
+};
+
+// Helper to convert a data URL string to a File object
+export const dataURLtoFile = (dataurl: string, filename: string): File => {
+    const arr = dataurl.split(',');
+    if (arr.length < 2) throw new Error("Invalid data URL");
+    const mimeMatch = arr[0].match(/:(.*?);/);
+    if (!mimeMatch || !mimeMatch[1]) throw new Error("Could not parse MIME type from data URL");
+
+    const mime = mimeMatch[1];
+    const bstr = atob(arr[1]);
+    let n = bstr.length;
+    const u8arr = new Uint8Array(n);
+    while(n--){
+        u8arr[n] = bstr.charCodeAt(n);
+    }
+    return new File([u8arr], filename, {type:mime});
+};
+
+export const canvasToFile = (canvas: HTMLCanvasElement, filename: string, type = 'image/png', quality?: number): Promise<File> => {
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(blob => {
+            if (blob) {
+                resolve(new File([blob], filename, { type }));
+            } else {
+                reject(new Error('Could not encode canvas'));
+            }
+        }, type, quality);
+    });
+};
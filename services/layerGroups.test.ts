@@ -0,0 +1,75 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { buildLayerStack, isLayerShown, moveInStack, updateGroup, type LayerGroup } from './layerGroups';
+
+const group = (id: string, changes: Partial<LayerGroup> = {}): LayerGroup => ({
+    id, name: id, opacity: 100, blendMode: 'normal', isVisible: true, ...changes,
+});
+
+const layer = (id: string, layerGroup: LayerGroup | null = null, isVisible = true) => ({ id, isVisible, group: layerGroup });
+
+const ids = (layers: { id: string }[]) => layers.map(l => l.id);
+
+describe('buildLayerStack', () => {
+    it('keeps ungrouped layers as single items, bottom to top', () => {
+        const stack = buildLayerStack([layer('a'), layer('b')]);
+        expect(stack.map(item => item.kind === 'layer' && item.layer.id)).toEqual(['a', 'b']);
+    });
+
+    it('collects each run of layers in a group into one item', () => {
+        const people = group('people');
+        const stack = buildLayerStack([layer('background'), layer('left', people), layer('right', people), layer('caption')]);
+        expect(stack.map(item => item.kind === 'group' ? `${item.group.id}: ${ids(item.layers).join(', ')}` : item.layer.id))
+            .toEqual(['background', 'people: left, right', 'caption']);
+    });
+
+    it('starts a new item for each group', () => {
+        const stack = buildLayerStack([layer('a', group('one')), layer('b', group('two'))]);
+        expect(stack.map(item => item.kind === 'group' && item.group.id)).toEqual(['one', 'two']);
+    });
+});
+
+describe('isLayerShown', () => {
+    it('hides a layer when its group is hidden', () => {
+        expect(isLayerShown(layer('a', group('g')))).toBe(true);
+        expect(isLayerShown(layer('a', group('g', { isVisible: false })))).toBe(false);
+        expect(isLayerShown(layer('a', null, false))).toBe(false);
+    });
+});
+
+describe('updateGroup', () => {
+    it('changes the group on every layer in it and nothing else', () => {
+        const g = group('g');
+        const updated = updateGroup([layer('a', g), layer('b'), layer('c', g)], 'g', { opacity: 40 });
+        expect(updated.map(l => l.group?.opacity ?? null)).toEqual([40, null, 40]);
+    });
+});
+
+describe('moveInStack', () => {
+    const g = group('g');
+    const layers = [layer('a'), layer('b', g), layer('c', g), layer('d')];
+
+    it('moves a layer into the group of the layer it is dropped on', () => {
+        const moved = moveInStack(layers, { kind: 'layer', id: 'd' }, { kind: 'layer', id: 'b', position: 'above' });
+        expect(ids(moved)).toEqual(['a', 'b', 'd', 'c']);
+        expect(moved[2].group?.id).toBe('g');
+    });
+
+    it('puts a layer dropped on the lower half of a group header at the top of the group', () => {
+        const moved = moveInStack(layers, { kind: 'layer', id: 'a' }, { kind: 'group', id: 'g', position: 'below' });
+        expect(ids(moved)).toEqual(['b', 'c', 'a', 'd']);
+        expect(moved[2].group?.id).toBe('g');
+    });
+
+    it('moves a whole group without nesting it in another', () => {
+        const other = group('other');
+        const stack = [...layers, layer('e', other), layer('f', other)];
+        const moved = moveInStack(stack, { kind: 'group', id: 'other' }, { kind: 'layer', id: 'c', position: 'above' });
+        expect(ids(moved)).toEqual(['a', 'b', 'c', 'e', 'f', 'd']);
+        expect(moved.map(l => l.group?.id ?? null)).toEqual([null, 'g', 'g', 'other', 'other', null]);
+    });
+});
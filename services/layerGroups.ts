@@ -0,0 +1,112 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { BlendMode } from './blendModes';
+
+// Groups are folders of consecutive layers in the stack. Each member layer
+// carries its group, so a group is saved in history along with its layers
+// and disappears once its last layer leaves it. Groups don't nest. A group
+// is composited on its own first and then blended into the layers below as
+// one image, with the group's opacity and blend mode.
+
+export interface LayerGroup {
+    id: string;
+    name: string;
+    opacity: number;
+    blendMode: BlendMode;
+    isVisible: boolean;
+}
+
+// The parts of a layer the stack helpers need
+interface StackLayer {
+    id: string;
+    isVisible: boolean;
+    group: LayerGroup | null;
+}
+
+export const createLayerGroup = (name: string): LayerGroup => ({
+    id: `group-${Date.now()}`,
+    name,
+    opacity: 100,
+    blendMode: 'normal',
+    isVisible: true,
+});
+
+// A layer only shows when it and its group are both visible
+export const isLayerShown = (layer: StackLayer): boolean =>
+    layer.isVisible && (layer.group?.isVisible ?? true);
+
+export type LayerStackItem<T> =
+    | { kind: 'layer'; layer: T }
+    | { kind: 'group'; group: LayerGroup; layers: T[] };
+
+/**
+ * Splits the stack, bottom to top like the layers themselves, into single
+ * ungrouped layers and runs of layers that share a group.
+ */
+export const buildLayerStack = <T extends StackLayer>(layers: T[]): LayerStackItem<T>[] => {
+    const items: LayerStackItem<T>[] = [];
+    for (const layer of layers) {
+        const last = items[items.length - 1];
+        if (layer.group && last?.kind === 'group' && last.group.id === layer.group.id) {
+            last.layers.push(layer);
+        } else if (layer.group) {
+            items.push({ kind: 'group', group: layer.group, layers: [layer] });
+        } else {
+            items.push({ kind: 'layer', layer });
+        }
+    }
+    return items;
+};
+
+// Replaces a group on every layer that belongs to it
+export const updateGroup = <T extends StackLayer>(layers: T[], groupId: string, changes: Partial<LayerGroup>): T[] =>
+    layers.map(layer => layer.group?.id === groupId ? { ...layer, group: { ...layer.group, ...changes } } : layer);
+
+export interface StackItemRef {
+    kind: 'layer' | 'group';
+    id: string;
+}
+
+export interface StackDropTarget extends StackItemRef {
+    // Above or below the target in the stack, i.e. on screen
+    position: 'above' | 'below';
+}
+
+/**
+ * Moves a layer or a whole group next to a drop target. A layer dropped on
+ * another layer joins that layer's group (or leaves its own); one dropped on
+ * the lower half of a group's header goes into the group at its top. Groups
+ * dropped inside another group are placed next to that group instead, as
+ * groups don't nest.
+ */
+export const moveInStack = <T extends StackLayer>(layers: T[], source: StackItemRef, target: StackDropTarget): T[] => {
+    const moving = layers.filter(l => source.kind === 'layer' ? l.id === source.id : l.group?.id === source.id);
+    const rest = layers.filter(l => !moving.includes(l));
+    const targetLayer = target.kind === 'layer' ? rest.find(l => l.id === target.id) : undefined;
+    if (moving.length === 0 || (target.kind === 'layer' && !targetLayer)) return layers;
+
+    // The layers the moved ones are dropped next to, and the group a moved layer ends up in
+    let anchorGroupId: string | null;
+    let group: LayerGroup | null;
+    let position = target.position;
+    if (target.kind === 'group') {
+        anchorGroupId = target.id;
+        const isInto = source.kind === 'layer' && position === 'below';
+        group = isInto ? rest.find(l => l.group?.id === target.id)?.group ?? null : null;
+        // Into the group means above its current top layer
+        if (isInto) position = 'above';
+    } else {
+        const targetGroup = targetLayer!.group;
+        anchorGroupId = source.kind === 'group' && targetGroup ? targetGroup.id : null;
+        group = targetGroup;
+    }
+
+    const anchorIndices = rest.flatMap((l, i) => (anchorGroupId ? l.group?.id === anchorGroupId : l === targetLayer) ? [i] : []);
+    if (anchorIndices.length === 0) return layers;
+    const insertAt = position === 'above' ? Math.max(...anchorIndices) + 1 : Math.min(...anchorIndices);
+    const moved = source.kind === 'layer' ? moving.map(l => ({ ...l, group })) : moving;
+    return [...rest.slice(0, insertAt), ...moved, ...rest.slice(insertAt)];
+};
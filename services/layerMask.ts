@@ -0,0 +1,85 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { canvasToFile, createCanvas, loadImage } from './imageUtils';
+import { renderMaskAlpha } from './mask';
+import type { Rect, Size } from './coordinates';
+
+// A layer mask hides parts of a layer without touching its pixels. Like the
+// other masks in the editor it is a grayscale image where white is shown and
+// black is hidden. It is always stretched over the layer's own image, so it
+// survives the layer being upscaled or transformed.
+
+export interface LayerMask {
+    file: File;
+    objectUrl: string;
+    // A disabled mask is kept with the layer but ignored when compositing
+    enabled: boolean;
+}
+
+export const createLayerMask = (file: File): LayerMask => ({
+    file,
+    objectUrl: URL.createObjectURL(file),
+    enabled: true,
+});
+
+// A mask that shows the whole layer (white) or hides it (black)
+export const createFilledMask = (size: Size, reveal: boolean): Promise<File> => {
+    const { canvas, ctx } = createCanvas(size.width, size.height);
+    ctx.fillStyle = reveal ? '#fff' : '#000';
+    ctx.fillRect(0, 0, size.width, size.height);
+    return canvasToFile(canvas, `layer-mask-${Date.now()}.png`);
+};
+
+// A mask that shows only `rect`, in the layer's natural pixels
+export const createRectMask = (size: Size, rect: Rect): Promise<File> => {
+    const { canvas, ctx } = createCanvas(size.width, size.height);
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, size.width, size.height);
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(rect.x, rect.y, rect.width, rect.height);
+    return canvasToFile(canvas, `layer-mask-${Date.now()}.png`);
+};
+
+/**
+ * Redraws any grayscale mask at the layer's size, e.g. one returned by the
+ * model at a different resolution, optionally inverted.
+ */
+export const normalizeMask = async (mask: File | string, size: Size, invert = false): Promise<File> => {
+    const maskImg = await loadImage(mask);
+    const { canvas, ctx } = createCanvas(size.width, size.height);
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, size.width, size.height);
+    if (invert) ctx.filter = 'invert(1)';
+    ctx.drawImage(maskImg, 0, 0, size.width, size.height);
+    ctx.filter = 'none';
+    return canvasToFile(canvas, `layer-mask-${Date.now()}.png`);
+};
+
+/**
+ * The layer's image, or a text layer's re-rendered text, with its mask
+ * applied as alpha, ready to be drawn in place of the image when compositing.
+ */
+export const renderMaskedImage = async (image: HTMLImageElement | HTMLCanvasElement, mask: File): Promise<HTMLCanvasElement> => {
+    const width = image instanceof HTMLImageElement ? image.naturalWidth : image.width;
+    const height = image instanceof HTMLImageElement ? image.naturalHeight : image.height;
+    const alpha = await renderMaskAlpha(mask, width, height);
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.drawImage(image, 0, 0);
+    ctx.globalCompositeOperation = 'destination-in';
+    ctx.drawImage(alpha, 0, 0);
+    return canvas;
+};
+
+/**
+ * CSS that masks a layer's preview the same way renderMaskedImage does.
+ * `mask-mode: luminance` reads the grayscale mask directly.
+ */
+export const maskStyle = (mask: LayerMask | null) => mask?.enabled ? {
+    maskImage: `url(${mask.objectUrl})`,
+    maskMode: 'luminance',
+    maskSize: '100% 100%',
+    maskRepeat: 'no-repeat',
+} : {};
@@ -0,0 +1,97 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import {
+    documentToLayer,
+    getLayerPlacement,
+    getPixelScale,
+    identityTransform,
+    normalizeRotation,
+    placementStyle,
+    transformForPlacement,
+    withPixelScale,
+} from './layerTransform';
+
+const documentSize = { width: 1000, height: 500 };
+const natural = { width: 200, height: 200 };
+
+describe('getLayerPlacement', () => {
+    it('fits an untransformed layer inside the document, centred', () => {
+        expect(getLayerPlacement(natural, documentSize, identityTransform)).toEqual({
+            centerX: 500, centerY: 250, width: 500, height: 500, rotation: 0, flipX: false, flipY: false,
+        });
+    });
+
+    it('positions by fractions of the document and scales relative to the fit', () => {
+        const placement = getLayerPlacement(natural, documentSize, { ...identityTransform, x: 0.25, y: 0.1, scale: 0.5 });
+        expect(placement).toMatchObject({ centerX: 250, centerY: 50, width: 250, height: 250 });
+    });
+
+    it('keeps its place when the layer image changes resolution', () => {
+        const transform = { ...identityTransform, x: 0.3, scale: 0.8, rotation: 45 };
+        const upscaled = getLayerPlacement({ width: 800, height: 800 }, documentSize, transform);
+        expect(upscaled).toEqual(getLayerPlacement(natural, documentSize, transform));
+    });
+});
+
+describe('transformForPlacement', () => {
+    it('undoes getLayerPlacement', () => {
+        const transform = { x: 0.7, y: 0.2, scale: 1.5, rotation: -30, flipX: true, flipY: false };
+        const placement = getLayerPlacement(natural, documentSize, transform);
+        const roundTrip = transformForPlacement(natural, documentSize, placement);
+        expect(roundTrip).toMatchObject({ rotation: -30, flipX: true, flipY: false });
+        expect(roundTrip.x).toBeCloseTo(0.7);
+        expect(roundTrip.y).toBeCloseTo(0.2);
+        expect(roundTrip.scale).toBeCloseTo(1.5);
+    });
+});
+
+describe('pixel scale', () => {
+    it('counts document pixels per image pixel', () => {
+        expect(getPixelScale(natural, documentSize, { ...identityTransform, scale: 2 })).toBe(5);
+    });
+
+    it('sets the transform scale that shows the image at a pixel scale', () => {
+        const transform = withPixelScale({ width: 400, height: 100 }, documentSize, 1, identityTransform);
+        expect(getPixelScale({ width: 400, height: 100 }, documentSize, transform)).toBeCloseTo(1);
+    });
+});
+
+describe('documentToLayer', () => {
+    it('maps document points into the layer image', () => {
+        const placement = getLayerPlacement(natural, documentSize, identityTransform);
+        expect(documentToLayer({ x: 250, y: 0 }, placement, natural)).toEqual({ x: 0, y: 0 });
+        expect(documentToLayer({ x: 500, y: 250 }, placement, natural)).toEqual({ x: 100, y: 100 });
+    });
+
+    it('undoes rotation and flips', () => {
+        const rotated = getLayerPlacement(natural, documentSize, { ...identityTransform, rotation: 90 });
+        // A quarter turn clockwise brings the image's top left corner to the top right
+        const corner = documentToLayer({ x: 750, y: 0 }, rotated, natural);
+        expect(corner.x).toBeCloseTo(0);
+        expect(corner.y).toBeCloseTo(0);
+
+        const flipped = getLayerPlacement(natural, documentSize, { ...identityTransform, flipX: true });
+        expect(documentToLayer({ x: 250, y: 0 }, flipped, natural)).toEqual({ x: 200, y: 0 });
+    });
+});
+
+describe('normalizeRotation', () => {
+    it('wraps angles into (-180, 180]', () => {
+        expect(normalizeRotation(270)).toBe(-90);
+        expect(normalizeRotation(-180)).toBe(180);
+        expect(normalizeRotation(725)).toBe(5);
+    });
+});
+
+describe('placementStyle', () => {
+    it('positions the element by its top left corner at the display scale', () => {
+        const placement = getLayerPlacement(natural, documentSize, { ...identityTransform, scale: 0.5, flipY: true });
+        expect(placementStyle(placement, 0.5)).toEqual({
+            left: 187.5, top: 62.5, width: 125, height: 125, transform: 'rotate(0deg) scale(1, -1)',
+        });
+    });
+});
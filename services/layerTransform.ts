@@ -0,0 +1,132 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { Point, Size } from './coordinates';
+
+// Where a layer sits in the document. Positions are fractions of the
+// document and the scale is relative to the layer fitted inside it, so a
+// transform keeps its meaning when the document or the layer's own image
+// changes resolution (e.g. after an upscale).
+
+export interface LayerTransform {
+    // Centre of the layer as fractions (0–1) of the document's width and height
+    x: number;
+    y: number;
+    // 1 is the layer fitted inside the document, as layers are placed by default
+    scale: number;
+    // Clockwise, in degrees
+    rotation: number;
+    flipX: boolean;
+    flipY: boolean;
+}
+
+export const identityTransform: LayerTransform = {
+    x: 0.5,
+    y: 0.5,
+    scale: 1,
+    rotation: 0,
+    flipX: false,
+    flipY: false,
+};
+
+// A transform resolved against a document, in document pixels
+export interface LayerPlacement {
+    centerX: number;
+    centerY: number;
+    // Size before rotation
+    width: number;
+    height: number;
+    rotation: number;
+    flipX: boolean;
+    flipY: boolean;
+}
+
+const fitScale = (natural: Size, documentSize: Size): number =>
+    Math.min(documentSize.width / natural.width, documentSize.height / natural.height);
+
+export const getLayerPlacement = (natural: Size, documentSize: Size, transform: LayerTransform): LayerPlacement => {
+    const scale = getPixelScale(natural, documentSize, transform);
+    return {
+        centerX: transform.x * documentSize.width,
+        centerY: transform.y * documentSize.height,
+        width: natural.width * scale,
+        height: natural.height * scale,
+        rotation: transform.rotation,
+        flipX: transform.flipX,
+        flipY: transform.flipY,
+    };
+};
+
+/**
+ * The transform that puts a layer at `placement` in a document of
+ * `documentSize`; the inverse of getLayerPlacement.
+ */
+export const transformForPlacement = (natural: Size, documentSize: Size, placement: LayerPlacement): LayerTransform => ({
+    x: placement.centerX / documentSize.width,
+    y: placement.centerY / documentSize.height,
+    scale: placement.width / natural.width / fitScale(natural, documentSize),
+    rotation: placement.rotation,
+    flipX: placement.flipX,
+    flipY: placement.flipY,
+});
+
+// Document pixels per pixel of the layer's image
+export const getPixelScale = (natural: Size, documentSize: Size, transform: LayerTransform): number =>
+    fitScale(natural, documentSize) * transform.scale;
+
+/**
+ * `transform` with its scale set so the layer shows at `pixelScale` document
+ * pixels per image pixel, e.g. to keep a re-rendered text layer the same size
+ * after its image grew with the text.
+ */
+export const withPixelScale = (natural: Size, documentSize: Size, pixelScale: number, transform: LayerTransform): LayerTransform => ({
+    ...transform,
+    scale: pixelScale / fitScale(natural, documentSize),
+});
+
+// Rotations are kept in (-180, 180] so the numeric field stays readable
+export const normalizeRotation = (degrees: number): number => {
+    const wrapped = ((degrees % 360) + 360) % 360;
+    return wrapped > 180 ? wrapped - 360 : wrapped;
+};
+
+/**
+ * Maps a point in document pixels into the layer's natural pixels, undoing
+ * its position, scale, rotation and flips.
+ */
+export const documentToLayer = (point: Point, placement: LayerPlacement, natural: Size): Point => {
+    const radians = -placement.rotation * Math.PI / 180;
+    const dx = point.x - placement.centerX;
+    const dy = point.y - placement.centerY;
+    const localX = (dx * Math.cos(radians) - dy * Math.sin(radians)) * (placement.flipX ? -1 : 1);
+    const localY = (dx * Math.sin(radians) + dy * Math.cos(radians)) * (placement.flipY ? -1 : 1);
+    return {
+        x: (localX + placement.width / 2) * natural.width / placement.width,
+        y: (localY + placement.height / 2) * natural.height / placement.height,
+    };
+};
+
+/**
+ * Styles for an absolutely positioned element that shows a layer at
+ * `placement`, inside a document drawn at `displayScale` screen pixels per
+ * document pixel.
+ */
+export const placementStyle = (placement: LayerPlacement, displayScale: number) => ({
+    left: (placement.centerX - placement.width / 2) * displayScale,
+    top: (placement.centerY - placement.height / 2) * displayScale,
+    width: placement.width * displayScale,
+    height: placement.height * displayScale,
+    transform: `rotate(${placement.rotation}deg) scale(${placement.flipX ? -1 : 1}, ${placement.flipY ? -1 : 1})`,
+});
+
+// Draws an image at `placement`, matching placementStyle on screen
+export const drawPlaced = (ctx: CanvasRenderingContext2D, image: CanvasImageSource, placement: LayerPlacement) => {
+    ctx.save();
+    ctx.translate(placement.centerX, placement.centerY);
+    ctx.rotate(placement.rotation * Math.PI / 180);
+    ctx.scale(placement.flipX ? -1 : 1, placement.flipY ? -1 : 1);
+    ctx.drawImage(image, -placement.width / 2, -placement.height / 2, placement.width, placement.height);
+    ctx.restore();
+};
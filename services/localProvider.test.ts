@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { localProvider } from './localProvider';
+
+const GRAY = [128, 128, 128];
+
+const createCanvas = (width: number, height: number) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return { canvas, ctx: canvas.getContext('2d')! };
+};
+
+// A flat gray image, so any edit shows up as a change in pixel values
+const createSourceImage = (width: number, height: number): File => {
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.fillStyle = `rgb(${GRAY.join(',')})`;
+    ctx.fillRect(0, 0, width, height);
+    const data = Buffer.from(canvas.toDataURL('image/png').split(',')[1], 'base64');
+    return new File([data], 'source.png', { type: 'image/png' });
+};
+
+const readPixels = async (url: string) => {
+    const img = await new Promise<HTMLImageElement>((resolve, reject) => {
+        const image = new Image();
+        image.onload = () => resolve(image);
+        image.onerror = reject;
+        image.src = url;
+    });
+    const { ctx } = createCanvas(img.naturalWidth, img.naturalHeight);
+    ctx.drawImage(img, 0, 0);
+    return {
+        width: img.naturalWidth,
+        height: img.naturalHeight,
+        at: (x: number, y: number) => Array.from(ctx.getImageData(x, y, 1, 1).data.slice(0, 3)),
+    };
+};
+
+describe('localProvider.generateEditedImage', () => {
+    it('edits around the chosen point and leaves the rest of the image alone', async () => {
+        const source = createSourceImage(64, 48);
+        const url = await localProvider.generateEditedImage(source, 'add a hat', { kind: 'point', x: 32, y: 24 }, '', false, 1);
+
+        expect(url).toMatch(/^data:image\/png;base64,/);
+        const result = await readPixels(url);
+        expect([result.width, result.height]).toEqual([64, 48]);
+        expect(result.at(32, 24)).not.toEqual(GRAY);
+        expect(result.at(0, 0)).toEqual(GRAY);
+    });
+
+    it('gives the same result for the same prompt', async () => {
+        const source = createSourceImage(32, 32);
+        const region = { kind: 'point', x: 16, y: 16 } as const;
+        const first = await localProvider.generateEditedImage(source, 'add a hat', region, '', false, 1);
+        const second = await localProvider.generateEditedImage(source, 'add a hat', region, '', false, 1);
+        expect(second).toBe(first);
+    });
+
+    it('stops when the operation is cancelled', async () => {
+        const controller = new AbortController();
+        controller.abort();
+        await expect(
+            localProvider.generateEditedImage(createSourceImage(8, 8), 'add a hat', { kind: 'point', x: 4, y: 4 }, '', false, 1, controller.signal),
+        ).rejects.toThrow();
+    });
+});
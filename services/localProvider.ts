@@ -0,0 +1,328 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { ImageEditProvider } from './imageEditProvider';
+import { createCanvas, loadImage } from './imageUtils';
+import { renderMaskAlpha } from './mask';
+import { denormalizeBox } from './coordinates';
+import { getAspectRatioSize } from './textToImage';
+import { resampleLanczos } from './upscale';
+import { adjustmentPresets, filterPresets } from './promptTemplates';
+
+// An offline stand-in for the AI backend. Every operation is a deterministic
+// canvas transform so the editor can be developed and demoed without an API key.
+
+// Stable hash so the same prompt always produces the same result
+const hashString = (value: string): number => {
+    let hash = 0;
+    for (let i = 0; i < value.length; i++) {
+        hash = (hash * 31 + value.charCodeAt(i)) | 0;
+    }
+    return Math.abs(hash);
+};
+
+const filterStyles = [
+    'sepia(0.8) contrast(1.1)',
+    'grayscale(1) contrast(1.2)',
+    'saturate(1.8) hue-rotate(25deg)',
+    'hue-rotate(180deg) saturate(1.4)',
+    'contrast(1.4) brightness(0.9)',
+    'invert(0.15) saturate(1.5)',
+];
+
+const adjustmentStyles = [
+    'brightness(1.15) contrast(1.1)',
+    'brightness(0.9) contrast(1.25) saturate(1.1)',
+    'saturate(1.3) brightness(1.05)',
+    'contrast(1.15) sepia(0.15)',
+];
+
+/**
+ * Replaces pixels close to the average corner colour, which stands in for
+ * "the background" in simple product shots.
+ */
+const keyOutBackground = (ctx: CanvasRenderingContext2D, width: number, height: number, isTransparent: boolean) => {
+    const imageData = ctx.getImageData(0, 0, width, height);
+    const { data } = imageData;
+    const corners = [0, width - 1, (height - 1) * width, height * width - 1];
+    const bg = [0, 1, 2].map(c => corners.reduce((sum, i) => sum + data[i * 4 + c], 0) / corners.length);
+    const tolerance = 48;
+
+    for (let i = 0; i < data.length; i += 4) {
+        const distance = Math.abs(data[i] - bg[0]) + Math.abs(data[i + 1] - bg[1]) + Math.abs(data[i + 2] - bg[2]);
+        if (distance < tolerance) {
+            if (isTransparent) {
+                data[i + 3] = 0;
+            } else {
+                data[i] = data[i + 1] = data[i + 2] = 255;
+                data[i + 3] = 255;
+            }
+        }
+    }
+    ctx.putImageData(imageData, 0, 0);
+};
+
+const generateEditedImage: ImageEditProvider['generateEditedImage'] = async (originalImage, userPrompt, region, additionalPrompt, isTransparent, scale, signal) => {
+    const img = await loadImage(originalImage);
+    signal?.throwIfAborted();
+    const { canvas, ctx } = createCanvas(img.naturalWidth, img.naturalHeight);
+    ctx.drawImage(img, 0, 0);
+    const hue = hashString(userPrompt + additionalPrompt) % 360;
+
+    if (region.kind === 'mask') {
+        // Tint the painted area
+        const tint = await renderMaskAlpha(region.mask, canvas.width, canvas.height);
+        const tintCtx = tint.getContext('2d')!;
+        tintCtx.globalCompositeOperation = 'source-in';
+        tintCtx.fillStyle = `hsla(${hue}, 80%, 60%, 0.6)`;
+        tintCtx.fillRect(0, 0, canvas.width, canvas.height);
+        ctx.drawImage(tint, 0, 0);
+    } else if (region.kind === 'box') {
+        const box = denormalizeBox(region.box, canvas);
+        ctx.fillStyle = `hsla(${hue}, 80%, 60%, 0.4)`;
+        ctx.fillRect(box.x, box.y, box.width, box.height);
+    } else {
+        // Tint a soft circle around the hotspot to show where the edit would land
+        const radius = Math.max(16, Math.min(canvas.width, canvas.height) * 0.12 * scale);
+        const gradient = ctx.createRadialGradient(region.x, region.y, 0, region.x, region.y, radius);
+        gradient.addColorStop(0, `hsla(${hue}, 80%, 60%, 0.6)`);
+        gradient.addColorStop(1, `hsla(${hue}, 80%, 60%, 0)`);
+        ctx.fillStyle = gradient;
+        ctx.fillRect(region.x - radius, region.y - radius, radius * 2, radius * 2);
+    }
+
+    if (isTransparent) {
+        keyOutBackground(ctx, canvas.width, canvas.height, true);
+    }
+    return canvas.toDataURL('image/png');
+};
+
+const generateFilteredImage: ImageEditProvider['generateFilteredImage'] = async (originalImage, filterPrompt, additionalPrompt, isTransparent, signal) => {
+    const img = await loadImage(originalImage);
+    signal?.throwIfAborted();
+    const { canvas, ctx } = createCanvas(img.naturalWidth, img.naturalHeight);
+    ctx.filter = filterStyles[hashString(filterPrompt + additionalPrompt) % filterStyles.length];
+    ctx.drawImage(img, 0, 0);
+    ctx.filter = 'none';
+
+    if (isTransparent) {
+        keyOutBackground(ctx, canvas.width, canvas.height, true);
+    }
+    return canvas.toDataURL('image/png');
+};
+
+const generateAdjustedImage: ImageEditProvider['generateAdjustedImage'] = async (originalImage, adjustmentPrompt, referenceImage, additionalPrompt, isTransparent, signal) => {
+    const img = await loadImage(originalImage);
+    signal?.throwIfAborted();
+    const { canvas, ctx } = createCanvas(img.naturalWidth, img.naturalHeight);
+    ctx.filter = adjustmentStyles[hashString(adjustmentPrompt + additionalPrompt) % adjustmentStyles.length];
+    ctx.drawImage(img, 0, 0);
+    ctx.filter = 'none';
+
+    if (referenceImage) {
+        // Borrow the reference's palette by overlaying it at low strength
+        const reference = await loadImage(referenceImage);
+        signal?.throwIfAborted();
+        ctx.globalCompositeOperation = 'soft-light';
+        ctx.globalAlpha = 0.5;
+        ctx.drawImage(reference, 0, 0, canvas.width, canvas.height);
+        ctx.globalCompositeOperation = 'source-over';
+        ctx.globalAlpha = 1;
+    }
+
+    if (isTransparent) {
+        keyOutBackground(ctx, canvas.width, canvas.height, true);
+    }
+    return canvas.toDataURL('image/png');
+};
+
+const generateFaceSwapImage: ImageEditProvider['generateFaceSwapImage'] = async (sourceImage, targetImage, pairings, _additionalPrompt, isTransparent, signal) => {
+    const [source, target] = await Promise.all([loadImage(sourceImage), loadImage(targetImage)]);
+    signal?.throwIfAborted();
+    const { canvas, ctx } = createCanvas(target.naturalWidth, target.naturalHeight);
+    ctx.drawImage(target, 0, 0);
+
+    // Without explicit pairs, paste the centre of the source into an oval in the upper-centre of the target
+    const swaps = pairings.length > 0 ? pairings : [{ source: { xMin: 1 / 3, yMin: 1 / 6, xMax: 2 / 3, yMax: 1 / 2 }, target: { xMin: 0.35, yMin: 0.15, xMax: 0.65, yMax: 0.55 } }];
+    for (const swap of swaps) {
+        const rx = (swap.target.xMax - swap.target.xMin) * canvas.width / 2;
+        const ry = (swap.target.yMax - swap.target.yMin) * canvas.height / 2;
+        const cx = swap.target.xMin * canvas.width + rx;
+        const cy = swap.target.yMin * canvas.height + ry;
+        ctx.save();
+        ctx.beginPath();
+        ctx.ellipse(cx, cy, rx, ry, 0, 0, Math.PI * 2);
+        ctx.clip();
+        ctx.drawImage(
+            source,
+            swap.source.xMin * source.naturalWidth, swap.source.yMin * source.naturalHeight,
+            (swap.source.xMax - swap.source.xMin) * source.naturalWidth, (swap.source.yMax - swap.source.yMin) * source.naturalHeight,
+            cx - rx, cy - ry, rx * 2, ry * 2,
+        );
+        ctx.restore();
+    }
+
+    if (isTransparent) {
+        keyOutBackground(ctx, canvas.width, canvas.height, true);
+    }
+    return canvas.toDataURL('image/png');
+};
+
+// There is no detector offline, so every image has one face where a portrait would put it
+const detectFaces: ImageEditProvider['detectFaces'] = async () => [{ xMin: 0.35, yMin: 0.15, xMax: 0.65, yMax: 0.55 }];
+
+const generateRemovedBgImage: ImageEditProvider['generateRemovedBgImage'] = async (originalImage, _additionalPrompt, isTransparent, signal) => {
+    const img = await loadImage(originalImage);
+    signal?.throwIfAborted();
+    const { canvas, ctx } = createCanvas(img.naturalWidth, img.naturalHeight);
+    ctx.drawImage(img, 0, 0);
+    keyOutBackground(ctx, canvas.width, canvas.height, isTransparent);
+    return canvas.toDataURL('image/png');
+};
+
+// Everything that does not match the corner colour counts as the subject
+const generateSubjectMask: ImageEditProvider['generateSubjectMask'] = async (originalImage, _additionalPrompt, signal) => {
+    const img = await loadImage(originalImage);
+    signal?.throwIfAborted();
+    const { canvas, ctx } = createCanvas(img.naturalWidth, img.naturalHeight);
+    ctx.drawImage(img, 0, 0);
+    const subject = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    keyOutBackground(ctx, canvas.width, canvas.height, true);
+    const keyed = ctx.getImageData(0, 0, canvas.width, canvas.height).data;
+
+    const { data } = subject;
+    for (let i = 0; i < data.length; i += 4) {
+        data[i] = data[i + 1] = data[i + 2] = keyed[i + 3] > 0 && data[i + 3] > 0 ? 255 : 0;
+        data[i + 3] = 255;
+    }
+    ctx.putImageData(subject, 0, 0);
+    return canvas.toDataURL('image/png');
+};
+
+// Each turn builds on the previous result, so chained instructions visibly stack up
+const generateChatEdit: ImageEditProvider['generateChatEdit'] = async (startImage, exchanges, instruction, isTransparent, signal) => {
+    const img = await loadImage(exchanges.length > 0 ? exchanges[exchanges.length - 1].result : startImage);
+    signal?.throwIfAborted();
+    const { canvas, ctx } = createCanvas(img.naturalWidth, img.naturalHeight);
+    ctx.filter = adjustmentStyles[hashString(instruction) % adjustmentStyles.length];
+    ctx.drawImage(img, 0, 0);
+    ctx.filter = 'none';
+
+    if (isTransparent) {
+        keyOutBackground(ctx, canvas.width, canvas.height, true);
+    }
+    return canvas.toDataURL('image/png');
+};
+
+// Finds the black (kept) part of an outpaint mask
+const findKeptRect = (mask: HTMLImageElement): { x: number, y: number, width: number, height: number } => {
+    const { canvas, ctx } = createCanvas(mask.naturalWidth, mask.naturalHeight);
+    ctx.drawImage(mask, 0, 0);
+    const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    let minX = canvas.width, minY = canvas.height, maxX = -1, maxY = -1;
+    for (let y = 0; y < canvas.height; y++) {
+        for (let x = 0; x < canvas.width; x++) {
+            if (data[(y * canvas.width + x) * 4] < 128) {
+                minX = Math.min(minX, x);
+                minY = Math.min(minY, y);
+                maxX = Math.max(maxX, x);
+                maxY = Math.max(maxY, y);
+            }
+        }
+    }
+    return maxX < 0
+        ? { x: 0, y: 0, width: canvas.width, height: canvas.height }
+        : { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+};
+
+// Smears a blurred, stretched copy of the original into the new area
+const generateOutpaintedImage: ImageEditProvider['generateOutpaintedImage'] = async (paddedImage, mask, _additionalPrompt, signal) => {
+    const [img, maskImg] = await Promise.all([loadImage(paddedImage), loadImage(mask)]);
+    signal?.throwIfAborted();
+    const kept = findKeptRect(maskImg);
+    const { canvas, ctx } = createCanvas(img.naturalWidth, img.naturalHeight);
+    ctx.filter = 'blur(24px)';
+    ctx.drawImage(img, kept.x, kept.y, kept.width, kept.height, 0, 0, canvas.width, canvas.height);
+    ctx.filter = 'none';
+    ctx.drawImage(img, kept.x, kept.y, kept.width, kept.height, kept.x, kept.y, kept.width, kept.height);
+    return canvas.toDataURL('image/png');
+};
+
+// Plain Lanczos resampling, the non-AI fallback for super-resolution
+const generateUpscaledImage: ImageEditProvider['generateUpscaledImage'] = async (image, factor, signal) => {
+    const img = await loadImage(image);
+    signal?.throwIfAborted();
+    return resampleLanczos(img, img.naturalWidth * factor, img.naturalHeight * factor).toDataURL('image/png');
+};
+
+// A soft gradient "scene" whose colours come from the prompt, with a disc standing in for the subject
+const generateImageFromText: ImageEditProvider['generateImageFromText'] = async (prompt, aspectRatio, isTransparent, signal) => {
+    signal?.throwIfAborted();
+    const { width, height } = getAspectRatioSize(aspectRatio);
+    const { canvas, ctx } = createCanvas(width, height);
+    const hue = hashString(prompt) % 360;
+
+    if (!isTransparent) {
+        const background = ctx.createLinearGradient(0, 0, width, height);
+        background.addColorStop(0, `hsl(${hue}, 70%, 55%)`);
+        background.addColorStop(1, `hsl(${(hue + 60) % 360}, 70%, 25%)`);
+        ctx.fillStyle = background;
+        ctx.fillRect(0, 0, width, height);
+    }
+
+    const radius = Math.min(width, height) * 0.3;
+    const subject = ctx.createRadialGradient(width / 2 - radius / 3, height / 2 - radius / 3, radius / 8, width / 2, height / 2, radius);
+    subject.addColorStop(0, `hsl(${(hue + 180) % 360}, 80%, 80%)`);
+    subject.addColorStop(1, `hsl(${(hue + 180) % 360}, 80%, 45%)`);
+    ctx.fillStyle = subject;
+    ctx.beginPath();
+    ctx.arc(width / 2, height / 2, radius, 0, Math.PI * 2);
+    ctx.fill();
+    return canvas.toDataURL('image/png');
+};
+
+// Without a model the caption only describes the image's shape and brightness, and suggestions come from the presets
+const analyzeImage: ImageEditProvider['analyzeImage'] = async (image, signal) => {
+    const img = await loadImage(image);
+    signal?.throwIfAborted();
+    const { canvas, ctx } = createCanvas(16, 16);
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    let luminance = 0;
+    for (let i = 0; i < data.length; i += 4) {
+        luminance += 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+    }
+    luminance /= data.length / 4;
+
+    const orientation = img.naturalWidth > img.naturalHeight ? 'แนวนอน' : img.naturalWidth < img.naturalHeight ? 'แนวตั้ง' : 'จัตุรัส';
+    const tone = luminance < 85 ? 'โทนมืด' : luminance > 170 ? 'โทนสว่าง' : 'โทนกลาง';
+    const [enhance, , sharpen] = adjustmentPresets;
+    return {
+        caption: `ภาพ${orientation}${tone} ขนาด ${img.naturalWidth} × ${img.naturalHeight} พิกเซล`,
+        objects: [],
+        suggestions: [
+            { tool: 'adjust', label: luminance < 85 ? 'เพิ่มความสว่าง' : enhance.name, prompt: luminance < 85 ? 'Brighten the image and lift the shadows while keeping the highlights natural.' : enhance.prompt },
+            { tool: 'adjust', label: sharpen.name, prompt: sharpen.prompt },
+            { tool: 'filter', label: filterPresets[0].name, prompt: filterPresets[0].prompt },
+        ],
+    };
+};
+
+export const localProvider: ImageEditProvider = {
+    id: 'local',
+    displayName: 'ออฟไลน์ (จำลอง)',
+    generateEditedImage,
+    generateFilteredImage,
+    generateAdjustedImage,
+    generateFaceSwapImage,
+    detectFaces,
+    generateRemovedBgImage,
+    generateSubjectMask,
+    generateChatEdit,
+    generateOutpaintedImage,
+    generateUpscaledImage,
+    generateImageFromText,
+    analyzeImage,
+};
@@ -0,0 +1,137 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createCanvas, loadImage } from './imageUtils';
+
+// Masks are plain grayscale images: white marks the area an operation may touch.
+
+/**
+ * Copies each pixel's luminance into its alpha channel, turning a
+ * white-on-black mask into a white shape on a transparent background.
+ */
+export const luminanceToAlpha = (ctx: CanvasRenderingContext2D, width: number, height: number) => {
+    const imageData = ctx.getImageData(0, 0, width, height);
+    const { data } = imageData;
+    for (let i = 0; i < data.length; i += 4) {
+        const luminance = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+        data[i + 3] = Math.round(luminance * (data[i + 3] / 255));
+        data[i] = data[i + 1] = data[i + 2] = 255;
+    }
+    ctx.putImageData(imageData, 0, 0);
+};
+
+/**
+ * Renders a mask at the given size as an alpha-only canvas, softened by
+ * `featherPx` pixels of blur.
+ */
+export const renderMaskAlpha = async (mask: File, width: number, height: number, featherPx = 0): Promise<HTMLCanvasElement> => {
+    const maskImg = await loadImage(mask);
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, width, height);
+    if (featherPx > 0) ctx.filter = `blur(${featherPx}px)`;
+    ctx.drawImage(maskImg, 0, 0, width, height);
+    ctx.filter = 'none';
+    luminanceToAlpha(ctx, width, height);
+    return canvas;
+};
+
+/**
+ * Blends an AI result back into the original image only inside the feathered
+ * mask. Pixels where the mask is black come straight from the original, so
+ * the model cannot change anything outside the painted area.
+ * @returns The data URL of the composited image at the original's size.
+ */
+export const compositeWithinMask = async (original: File, editedUrl: string, mask: File, featherPx: number): Promise<string> => {
+    const [originalImg, editedImg] = await Promise.all([loadImage(original), loadImage(editedUrl)]);
+    const width = originalImg.naturalWidth;
+    const height = originalImg.naturalHeight;
+
+    const alpha = await renderMaskAlpha(mask, width, height, featherPx);
+    const { canvas: edited, ctx: editedCtx } = createCanvas(width, height);
+    editedCtx.drawImage(editedImg, 0, 0, width, height);
+    editedCtx.globalCompositeOperation = 'destination-in';
+    editedCtx.drawImage(alpha, 0, 0);
+
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.drawImage(originalImg, 0, 0);
+    ctx.drawImage(edited, 0, 0);
+    return canvas.toDataURL('image/png');
+};
+
+export interface MaskRefinement {
+    invert: boolean;
+    // Pixels to grow the white area by; negative values shrink it
+    grow: number;
+    featherPx: number;
+}
+
+export const defaultMaskRefinement: MaskRefinement = { invert: false, grow: 0, featherPx: 0 };
+
+// Snaps a blurred mask back to black and white; a low threshold grows the white area, a high one shrinks it
+const thresholdMask = (ctx: CanvasRenderingContext2D, width: number, height: number, threshold: number) => {
+    const imageData = ctx.getImageData(0, 0, width, height);
+    const { data } = imageData;
+    for (let i = 0; i < data.length; i += 4) {
+        data[i] = data[i + 1] = data[i + 2] = data[i] > threshold ? 255 : 0;
+        data[i + 3] = 255;
+    }
+    ctx.putImageData(imageData, 0, 0);
+};
+
+/**
+ * Like renderMaskAlpha, but inverts, grows or shrinks the mask first. Growing
+ * blurs the mask and keeps everything the blur reached; shrinking keeps only
+ * what the blur left fully white.
+ */
+export const renderRefinedMaskAlpha = async (mask: File, width: number, height: number, refinement: MaskRefinement): Promise<HTMLCanvasElement> => {
+    const maskImg = await loadImage(mask);
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, width, height);
+    if (refinement.invert) ctx.filter = 'invert(1)';
+    ctx.drawImage(maskImg, 0, 0, width, height);
+    ctx.filter = 'none';
+
+    if (refinement.grow !== 0) {
+        const { canvas: morphed, ctx: morphedCtx } = createCanvas(width, height);
+        morphedCtx.fillStyle = refinement.grow > 0 ? '#000' : '#fff';
+        morphedCtx.fillRect(0, 0, width, height);
+        // A Gaussian falls to about 2% two standard deviations out
+        morphedCtx.filter = `blur(${Math.abs(refinement.grow) / 2}px)`;
+        morphedCtx.drawImage(canvas, 0, 0);
+        morphedCtx.filter = 'none';
+        thresholdMask(morphedCtx, width, height, refinement.grow > 0 ? 5 : 250);
+        ctx.drawImage(morphed, 0, 0);
+    }
+
+    if (refinement.featherPx > 0) {
+        const { canvas: feathered, ctx: featheredCtx } = createCanvas(width, height);
+        featheredCtx.filter = `blur(${refinement.featherPx}px)`;
+        featheredCtx.drawImage(canvas, 0, 0);
+        ctx.drawImage(feathered, 0, 0);
+    }
+
+    luminanceToAlpha(ctx, width, height);
+    return canvas;
+};
+
+/**
+ * Cuts an image out with a mask, leaving its pixels untouched and only
+ * changing their alpha.
+ * @returns The PNG data URL of the masked image at the image's size.
+ */
+export const applyMaskAsAlpha = async (image: File, mask: File, refinement: MaskRefinement): Promise<string> => {
+    const img = await loadImage(image);
+    const width = img.naturalWidth;
+    const height = img.naturalHeight;
+    const alpha = await renderRefinedMaskAlpha(mask, width, height, refinement);
+
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.drawImage(img, 0, 0);
+    ctx.globalCompositeOperation = 'destination-in';
+    ctx.drawImage(alpha, 0, 0);
+    return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,105 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createCanvas, dataURLtoFile, loadImage } from './imageUtils';
+import { renderMaskAlpha } from './mask';
+import type { Size } from './coordinates';
+import { getLayerPlacement, transformForPlacement, type LayerTransform } from './layerTransform';
+
+// Extending the canvas happens in document pixels: the composite is padded,
+// the model fills the padding, and every layer is moved by the left and top
+// padding so it keeps its place relative to the others.
+
+export interface CanvasPadding {
+    top: number;
+    right: number;
+    bottom: number;
+    left: number;
+}
+
+// Painted into the new area of the image sent to the model, so it reads as blank canvas
+const OUTPAINT_PLACEHOLDER = '#808080';
+
+export const paddedSize = (size: Size, padding: CanvasPadding): Size => ({
+    width: size.width + padding.left + padding.right,
+    height: size.height + padding.top + padding.bottom,
+});
+
+export const hasPadding = (padding: CanvasPadding): boolean =>
+    padding.top > 0 || padding.right > 0 || padding.bottom > 0 || padding.left > 0;
+
+/**
+ * The padding that grows `size` to the given width/height ratio, split evenly
+ * between opposite sides. Only one dimension ever grows.
+ */
+export const paddingForAspectRatio = (size: Size, ratio: number): CanvasPadding => {
+    const padding = { top: 0, right: 0, bottom: 0, left: 0 };
+    if (size.width / size.height < ratio) {
+        const extra = Math.round(size.height * ratio) - size.width;
+        padding.left = Math.floor(extra / 2);
+        padding.right = extra - padding.left;
+    } else {
+        const extra = Math.round(size.width / ratio) - size.height;
+        padding.top = Math.floor(extra / 2);
+        padding.bottom = extra - padding.top;
+    }
+    return padding;
+};
+
+/**
+ * The transform that keeps a layer where it was once the document has been
+ * extended, since positions and scale are relative to the document.
+ */
+export const extendLayerTransform = (natural: Size, documentSize: Size, padding: CanvasPadding, transform: LayerTransform): LayerTransform => {
+    const placement = getLayerPlacement(natural, documentSize, transform);
+    return transformForPlacement(natural, paddedSize(documentSize, padding), {
+        ...placement,
+        centerX: placement.centerX + padding.left,
+        centerY: placement.centerY + padding.top,
+    });
+};
+
+/**
+ * The two images the model receives: the composite on a neutral placeholder,
+ * and a mask that is white over the new area and black over the original.
+ */
+export const prepareOutpaintInput = async (compositeUrl: string, padding: CanvasPadding): Promise<{ source: File; mask: File }> => {
+    const composite = await loadImage(compositeUrl);
+    const documentSize = { width: composite.naturalWidth, height: composite.naturalHeight };
+    const { width, height } = paddedSize(documentSize, padding);
+
+    const { canvas: sourceCanvas, ctx: sourceCtx } = createCanvas(width, height);
+    sourceCtx.fillStyle = OUTPAINT_PLACEHOLDER;
+    sourceCtx.fillRect(0, 0, width, height);
+    sourceCtx.drawImage(composite, padding.left, padding.top);
+
+    const { canvas: maskCanvas, ctx: maskCtx } = createCanvas(width, height);
+    maskCtx.fillStyle = '#fff';
+    maskCtx.fillRect(0, 0, width, height);
+    maskCtx.fillStyle = '#000';
+    maskCtx.fillRect(padding.left, padding.top, documentSize.width, documentSize.height);
+
+    const stamp = Date.now();
+    return {
+        source: dataURLtoFile(sourceCanvas.toDataURL('image/png'), `outpaint-source-${stamp}.png`),
+        mask: dataURLtoFile(maskCanvas.toDataURL('image/png'), `outpaint-mask-${stamp}.png`),
+    };
+};
+
+/**
+ * Keeps only the part of the model's result that lies in the new area, so it
+ * can sit underneath the existing layers without covering them.
+ */
+export const isolateOutpaintFill = async (resultUrl: string, mask: File): Promise<File> => {
+    const result = await loadImage(resultUrl);
+    const width = result.naturalWidth;
+    const height = result.naturalHeight;
+    const alpha = await renderMaskAlpha(mask, width, height);
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.drawImage(result, 0, 0);
+    ctx.globalCompositeOperation = 'destination-in';
+    ctx.drawImage(alpha, 0, 0);
+    return dataURLtoFile(canvas.toDataURL('image/png'), `outpaint-fill-${Date.now()}.png`);
+};
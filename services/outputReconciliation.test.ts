@@ -0,0 +1,120 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { placeOutput, reconcileOutput } from './outputReconciliation';
+
+const RED = [255, 0, 0, 255];
+const BLUE = [0, 0, 255, 255];
+const TRANSPARENT = [0, 0, 0, 0];
+
+const createCanvas = (width: number, height: number) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return { canvas, ctx: canvas.getContext('2d')! };
+};
+
+// An image filled with `color`, with `draw` adding anything on top
+const createImageUrl = (width: number, height: number, color: string, draw?: (ctx: CanvasRenderingContext2D) => void): string => {
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.fillStyle = color;
+    ctx.fillRect(0, 0, width, height);
+    draw?.(ctx);
+    return canvas.toDataURL('image/png');
+};
+
+const toFile = (url: string): File => new File([Buffer.from(url.split(',')[1], 'base64')], 'layer.png', { type: 'image/png' });
+
+const readPixels = async (url: string) => {
+    const img = await new Promise<HTMLImageElement>((resolve, reject) => {
+        const image = new Image();
+        image.onload = () => resolve(image);
+        image.onerror = reject;
+        image.src = url;
+    });
+    const { ctx } = createCanvas(img.naturalWidth, img.naturalHeight);
+    ctx.drawImage(img, 0, 0);
+    return {
+        width: img.naturalWidth,
+        height: img.naturalHeight,
+        at: (x: number, y: number) => Array.from(ctx.getImageData(x, y, 1, 1).data),
+    };
+};
+
+// A square red layer, and a blue result twice as wide as it is tall
+const squareLayer = toFile(createImageUrl(100, 100, 'red'));
+const wideResult = createImageUrl(200, 100, 'blue');
+
+describe('placeOutput', () => {
+    it('fits the whole output inside the layer, centred', () => {
+        expect(placeOutput({ width: 200, height: 100 }, { width: 100, height: 100 }, 'fit')).toEqual({ x: 0, y: 25, width: 100, height: 50 });
+    });
+
+    it('fills the layer, cropping the overflow evenly', () => {
+        expect(placeOutput({ width: 200, height: 100 }, { width: 100, height: 100 }, 'fill')).toEqual({ x: -50, y: 0, width: 200, height: 100 });
+    });
+});
+
+describe('reconcileOutput', () => {
+    beforeEach(() => {
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('keeps a result that already has the layer size', async () => {
+        const result = createImageUrl(100, 100, 'blue');
+        expect(await reconcileOutput(result, squareLayer, 'register')).toEqual({ url: result, mismatch: 'none' });
+    });
+
+    it('resizes a result with the same aspect ratio', async () => {
+        const { url, mismatch } = await reconcileOutput(createImageUrl(50, 50, 'blue'), squareLayer, 'fit');
+        expect(mismatch).toBe('size');
+        const pixels = await readPixels(url);
+        expect([pixels.width, pixels.height]).toEqual([100, 100]);
+        expect(pixels.at(0, 0)).toEqual(BLUE);
+    });
+
+    it('leaves the uncovered area transparent when fitting', async () => {
+        const { url, mismatch } = await reconcileOutput(wideResult, squareLayer, 'fit');
+        expect(mismatch).toBe('aspect');
+        const pixels = await readPixels(url);
+        expect(pixels.at(50, 50)).toEqual(BLUE);
+        expect(pixels.at(50, 5)).toEqual(TRANSPARENT);
+    });
+
+    it('fills the uncovered area from the original when letterboxing', async () => {
+        const pixels = await readPixels((await reconcileOutput(wideResult, squareLayer, 'letterbox')).url);
+        expect(pixels.at(50, 50)).toEqual(BLUE);
+        expect(pixels.at(50, 5)).toEqual(RED);
+    });
+
+    it('covers the whole layer when filling', async () => {
+        const pixels = await readPixels((await reconcileOutput(wideResult, squareLayer, 'fill')).url);
+        expect(pixels.at(50, 5)).toEqual(BLUE);
+        expect(pixels.at(0, 99)).toEqual(BLUE);
+    });
+
+    it('lines a result with extra margins back up with the original when registering', async () => {
+        // The original is black on the left and white on the right; the result
+        // is the same picture with gray margins added at both sides
+        const original = toFile(createImageUrl(100, 100, 'black', ctx => {
+            ctx.fillStyle = 'white';
+            ctx.fillRect(50, 0, 50, 100);
+        }));
+        const result = createImageUrl(200, 100, 'gray', ctx => {
+            ctx.fillStyle = 'black';
+            ctx.fillRect(50, 0, 50, 100);
+            ctx.fillStyle = 'white';
+            ctx.fillRect(100, 0, 50, 100);
+        });
+        const pixels = await readPixels((await reconcileOutput(result, original, 'register')).url);
+        expect(pixels.at(10, 50)).toEqual([0, 0, 0, 255]);
+        expect(pixels.at(90, 50)).toEqual([255, 255, 255, 255]);
+    });
+});
@@ -0,0 +1,168 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createCanvas, loadImage } from './imageUtils';
+import { getContainedRect, type Rect, type Size } from './coordinates';
+
+// The model is free to return an image of any size, and often changes the
+// aspect ratio too. Results are re-encoded at the exact size of the layer
+// they replace so they stay aligned with the other layers.
+
+export type OutputFitMode = 'register' | 'fit' | 'fill' | 'letterbox';
+
+export const outputFitModeNames: Record<OutputFitMode, string> = {
+    register: 'จัดตำแหน่งอัตโนมัติ',
+    fit: 'พอดีกรอบ',
+    fill: 'เต็มกรอบ',
+    letterbox: 'เติมขอบด้วยภาพเดิม',
+};
+
+export type OutputMismatch = 'none' | 'size' | 'aspect';
+
+export interface ReconcileResult {
+    url: string;
+    mismatch: OutputMismatch;
+}
+
+// Aspect ratios closer than this are treated as a plain resize
+const ASPECT_TOLERANCE = 0.01;
+
+// Longest side of the thumbnails compared while registering
+const REGISTER_SAMPLE_SIZE = 64;
+
+// Placements that leave more of the layer uncovered than this are not considered
+const MIN_REGISTER_COVERAGE = 0.75;
+
+/**
+ * Where the output goes inside the layer for the fixed fit modes, in layer pixels.
+ */
+export const placeOutput = (output: Size, layer: Size, mode: Exclude<OutputFitMode, 'register'>): Rect => {
+    if (mode === 'fill') {
+        const scale = Math.max(layer.width / output.width, layer.height / output.height);
+        const width = output.width * scale;
+        const height = output.height * scale;
+        return { x: (layer.width - width) / 2, y: (layer.height - height) / 2, width, height };
+    }
+    const { x, y, width, height } = getContainedRect(layer, output);
+    return { x, y, width, height };
+};
+
+// Grayscale values of `image` drawn at `placement` into a frame, with NaN where it is not covered
+const sampleGray = (image: CanvasImageSource, frame: Size, placement: Rect): Float32Array => {
+    const { ctx } = createCanvas(frame.width, frame.height);
+    ctx.drawImage(image, placement.x, placement.y, placement.width, placement.height);
+    const { data } = ctx.getImageData(0, 0, frame.width, frame.height);
+    const gray = new Float32Array(frame.width * frame.height);
+    for (let i = 0; i < gray.length; i++) {
+        const p = i * 4;
+        gray[i] = data[p + 3] < 128 ? NaN : 0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2];
+    }
+    return gray;
+};
+
+const scorePlacement = (reference: Float32Array, candidate: Float32Array): number => {
+    let total = 0;
+    let covered = 0;
+    for (let i = 0; i < reference.length; i++) {
+        if (Number.isNaN(candidate[i]) || Number.isNaN(reference[i])) continue;
+        total += Math.abs(reference[i] - candidate[i]);
+        covered++;
+    }
+    if (covered < reference.length * MIN_REGISTER_COVERAGE) return Infinity;
+    return total / covered;
+};
+
+/**
+ * Finds the placement of the output that best lines up with the original
+ * layer, by comparing small grayscale thumbnails. Starts from stretch,
+ * fit and fill, then refines the best uniform placement over a grid of
+ * nearby scales and offsets.
+ */
+export const registerOutput = (output: HTMLImageElement, original: HTMLImageElement, layer: Size): Rect => {
+    const sampleScale = REGISTER_SAMPLE_SIZE / Math.max(layer.width, layer.height);
+    const frame = {
+        width: Math.max(1, Math.round(layer.width * sampleScale)),
+        height: Math.max(1, Math.round(layer.height * sampleScale)),
+    };
+    const outputSize = { width: output.naturalWidth, height: output.naturalHeight };
+    const reference = sampleGray(original, frame, { x: 0, y: 0, ...frame });
+
+    const toFrame = (rect: Rect): Rect => ({
+        x: rect.x * sampleScale,
+        y: rect.y * sampleScale,
+        width: rect.width * sampleScale,
+        height: rect.height * sampleScale,
+    });
+    const score = (rect: Rect) => scorePlacement(reference, sampleGray(output, frame, toFrame(rect)));
+
+    const stretch: Rect = { x: 0, y: 0, ...layer };
+    let best = { rect: stretch, score: score(stretch) };
+    let bestUniform = { rect: placeOutput(outputSize, layer, 'fit'), score: Infinity };
+    for (const mode of ['fit', 'fill'] as const) {
+        const rect = placeOutput(outputSize, layer, mode);
+        const candidate = { rect, score: score(rect) };
+        if (candidate.score < bestUniform.score) bestUniform = candidate;
+    }
+
+    const base = bestUniform.rect;
+    for (const scaleFactor of [0.9, 0.95, 1, 1.05, 1.1]) {
+        const width = base.width * scaleFactor;
+        const height = base.height * scaleFactor;
+        for (const shiftX of [-0.05, -0.025, 0, 0.025, 0.05]) {
+            for (const shiftY of [-0.05, -0.025, 0, 0.025, 0.05]) {
+                const rect = {
+                    x: base.x + (base.width - width) / 2 + shiftX * layer.width,
+                    y: base.y + (base.height - height) / 2 + shiftY * layer.height,
+                    width,
+                    height,
+                };
+                const candidateScore = score(rect);
+                if (candidateScore < bestUniform.score) bestUniform = { rect, score: candidateScore };
+            }
+        }
+    }
+    if (bestUniform.score < best.score) best = bestUniform;
+    return best.rect;
+};
+
+/**
+ * Re-encodes an AI result at the exact size of the layer it was made from.
+ * A result with the same aspect ratio is simply resized; otherwise it is
+ * placed according to `mode`. Areas the result does not cover are left
+ * transparent for `fit`, and filled from the original layer for
+ * `letterbox` and `register`.
+ */
+export const reconcileOutput = async (resultUrl: string, source: File, mode: OutputFitMode): Promise<ReconcileResult> => {
+    const [output, original] = await Promise.all([loadImage(resultUrl), loadImage(source)]);
+    const layer = { width: original.naturalWidth, height: original.naturalHeight };
+    const outputSize = { width: output.naturalWidth, height: output.naturalHeight };
+    if (outputSize.width === layer.width && outputSize.height === layer.height) {
+        return { url: resultUrl, mismatch: 'none' };
+    }
+
+    const aspectDelta = Math.abs((outputSize.width / outputSize.height) / (layer.width / layer.height) - 1);
+    const mismatch: OutputMismatch = aspectDelta > ASPECT_TOLERANCE ? 'aspect' : 'size';
+    const placement = mismatch === 'size'
+        ? { x: 0, y: 0, ...layer }
+        : mode === 'register'
+            ? registerOutput(output, original, layer)
+            : placeOutput(outputSize, layer, mode);
+    console.log(`Reconciling ${outputSize.width}x${outputSize.height} result with ${layer.width}x${layer.height} layer`, { mode, mismatch, placement });
+
+    const { canvas, ctx } = createCanvas(layer.width, layer.height);
+    if (mismatch === 'aspect' && mode !== 'fit') {
+        // Only fill what the result leaves uncovered, so its own transparency survives
+        ctx.save();
+        ctx.beginPath();
+        ctx.rect(0, 0, layer.width, layer.height);
+        ctx.rect(placement.x, placement.y, placement.width, placement.height);
+        ctx.clip('evenodd');
+        ctx.drawImage(original, 0, 0);
+        ctx.restore();
+    }
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(output, placement.x, placement.y, placement.width, placement.height);
+    return { url: canvas.toDataURL('image/png'), mismatch };
+};
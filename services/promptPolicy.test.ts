@@ -0,0 +1,40 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { checkPromptPolicy, enforcePromptPolicy } from './promptPolicy';
+
+const ruleIds = (prompt: string) => checkPromptPolicy([prompt]).map(violation => `${violation.ruleId}:${violation.severity}`);
+
+describe('prompt policy: changing race', () => {
+    it.each([
+        'make them black and white',
+        'make her white dress brighter',
+        'change the background to a race track',
+        'make the white wall brighter',
+        'make him look tanned',
+    ])('lets "%s" through', prompt => {
+        expect(ruleIds(prompt)).toEqual([]);
+        expect(() => enforcePromptPolicy([prompt], 'edit')).not.toThrow();
+    });
+
+    it.each([
+        'change her race',
+        'change the ethnicity of the man on the left',
+        'make him look asian',
+        'make her look like a black woman',
+        'turn them into white people',
+        'เปลี่ยนเชื้อชาติของเขา',
+        'ทำให้ดูเป็นคนจีน',
+    ])('blocks "%s"', prompt => {
+        expect(ruleIds(prompt)).toContain('change-race:block');
+        expect(() => enforcePromptPolicy([prompt], 'edit')).toThrow();
+    });
+
+    it('only warns when a colour word could be about the person or the picture', () => {
+        expect(ruleIds('make him black.')).toEqual(['possible-race-change:warn']);
+        expect(() => enforcePromptPolicy(['make him black.'], 'edit')).not.toThrow();
+    });
+});
@@ -0,0 +1,172 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { GenerationError } from './generationError';
+
+// Checks what the user typed against local rules before anything is sent to
+// the model. Blocking rules stop a request outright, so clearly disallowed
+// edits never cost a round trip; warning rules only flag the prompt. The
+// templates still carry the full policy for the model, which catches what
+// these patterns miss.
+
+export type PolicySeverity = 'warn' | 'block';
+
+export interface PolicyRule {
+    id: string;
+    severity: PolicySeverity;
+    // Shown to the user, in Thai whatever language the rule matches
+    explanation: string;
+    patterns: RegExp[];
+}
+
+export interface PolicyRuleSet {
+    id: string;
+    rules: PolicyRule[];
+}
+
+export interface PolicyViolation {
+    ruleSetId: string;
+    ruleId: string;
+    severity: PolicySeverity;
+    explanation: string;
+    // The text that matched, to make it clear which words triggered the rule
+    match: string;
+}
+
+const RACE_EXPLANATION = 'ไม่สามารถเปลี่ยนเชื้อชาติหรือชาติพันธุ์ของบุคคลได้ (การปรับสีผิว เช่น ให้ผิวแทนขึ้น ยังทำได้ตามปกติ)';
+const NUDITY_EXPLANATION = 'ไม่สามารถสร้างภาพเปลือยหรือถอดเสื้อผ้าของบุคคลได้';
+const GORE_EXPLANATION = 'คำสั่งนี้เกี่ยวกับความรุนแรงหรือเลือด AI อาจปฏิเสธคำขอ';
+
+// Only words that can't be read as anything but an ethnicity; colour words are handled below
+const englishEthnicities = 'asian|african|caucasian|chinese|japanese|korean|indian|arab|latino|latina|hispanic|european|thai';
+// "Black" and "white" also describe colours ("black and white", "her white dress"), so they
+// only count as race when they describe a person
+const englishColourEthnicities = '(black|white|brown)\\s+(person|people|man|men|woman|women|guy|girl|boy|kid|child)';
+const englishPeople = 'me|him|her|them|us|this person|the person|the people|everyone';
+const thaiEthnicities = 'เอเชีย|ผิวดำ|ผิวขาว|ผิวสี|แอฟริกัน|ฝรั่ง|ยุโรป|จีน|ญี่ปุ่น|เกาหลี|อินเดีย|อาหรับ|ละติน|ไทย';
+
+export const englishRuleSet: PolicyRuleSet = {
+    id: 'en',
+    rules: [
+        {
+            id: 'change-race',
+            severity: 'block',
+            explanation: RACE_EXPLANATION,
+            patterns: [
+                // Race as something a person has, not e.g. "a race track"
+                /\b(change|alter|swap|convert)\s+(my|his|her|their|your|our|the person's|this person's|someone's|everyone's)\s+(race|ethnicity|ethnic background)\b/i,
+                /\b(change|alter|swap|convert)\s+the\s+(race|ethnicity)\s+of\b/i,
+                new RegExp(`\\bmake\\s+(${englishPeople})\\s+(look\\s+|appear\\s+)?(like\\s+)?(an?\\s+)?(${englishEthnicities}|${englishColourEthnicities})\\b`, 'i'),
+                new RegExp(`\\b(turn|transform|change)\\s+(${englishPeople})\\s+(into|to be)\\s+(an?\\s+)?(${englishEthnicities}|${englishColourEthnicities})\\b`, 'i'),
+            ],
+        },
+        {
+            // "Make him black." may be about skin or about the picture, so it is only flagged
+            id: 'possible-race-change',
+            severity: 'warn',
+            explanation: RACE_EXPLANATION,
+            patterns: [
+                new RegExp(`\\b(make|turn)\\s+(${englishPeople})\\s+(look\\s+)?(black|white|brown)\\s*([.!,;]|$)`, 'i'),
+            ],
+        },
+        {
+            id: 'nudity',
+            severity: 'block',
+            explanation: NUDITY_EXPLANATION,
+            patterns: [
+                /\b(nude|naked|nudity|topless|undress(ed|ing)?)\b/i,
+                /\b(remove|take off|strip)\s+(her|his|their|the person's)\s+(clothes|clothing|shirt|dress|underwear)\b/i,
+            ],
+        },
+        {
+            id: 'gore',
+            severity: 'warn',
+            explanation: GORE_EXPLANATION,
+            patterns: [/\b(gore|gory|bloody|mutilat\w*|dismember\w*)\b/i],
+        },
+    ],
+};
+
+// Thai is written without spaces between words, so these patterns match on substrings
+export const thaiRuleSet: PolicyRuleSet = {
+    id: 'th',
+    rules: [
+        {
+            id: 'change-race',
+            severity: 'block',
+            explanation: RACE_EXPLANATION,
+            patterns: [
+                /เปลี่ยน\S*(เชื้อชาติ|เชื้อสาย|ชาติพันธุ์)/,
+                new RegExp(`(ให้|ทำให้|เปลี่ยน)\\S*(ดู)?(เป็น|เหมือน)(คน|ชาว)(${thaiEthnicities})`),
+            ],
+        },
+        {
+            id: 'nudity',
+            severity: 'block',
+            explanation: NUDITY_EXPLANATION,
+            patterns: [/(เปลือย|โป๊|แก้ผ้า|ถอดเสื้อผ้า|ไม่ใส่เสื้อผ้า)/],
+        },
+        {
+            id: 'gore',
+            severity: 'warn',
+            explanation: GORE_EXPLANATION,
+            patterns: [/(เลือดสาด|สยดสยอง|ชำแหละ|ศพ)/],
+        },
+    ],
+};
+
+export interface PromptPolicyOptions {
+    // Turns the local check off entirely; the model's own policy still applies
+    enabled: boolean;
+    ruleSets: PolicyRuleSet[];
+}
+
+let promptPolicyOptions: PromptPolicyOptions = {
+    enabled: true,
+    ruleSets: [englishRuleSet, thaiRuleSet],
+};
+
+export const getPromptPolicyOptions = (): PromptPolicyOptions => promptPolicyOptions;
+
+export const configurePromptPolicy = (options: Partial<PromptPolicyOptions>) => {
+    promptPolicyOptions = { ...promptPolicyOptions, ...options };
+};
+
+/**
+ * Checks user-written text against every configured rule set.
+ * @param texts The parts of the request the user wrote, e.g. the prompt and its additional instructions.
+ * @returns Each rule that fired, at most once per rule.
+ */
+export const checkPromptPolicy = (texts: string[]): PolicyViolation[] => {
+    if (!promptPolicyOptions.enabled) return [];
+    const violations: PolicyViolation[] = [];
+    for (const ruleSet of promptPolicyOptions.ruleSets) {
+        for (const rule of ruleSet.rules) {
+            const match = texts.flatMap(text => rule.patterns.map(pattern => text.match(pattern)?.[0])).find(Boolean);
+            if (match) {
+                violations.push({ ruleSetId: ruleSet.id, ruleId: rule.id, severity: rule.severity, explanation: rule.explanation, match });
+            }
+        }
+    }
+    return violations;
+};
+
+/**
+ * Logs every rule the text trips and throws when any of them blocks.
+ * @param texts The parts of the request the user wrote.
+ * @param operation What the request is for, e.g. "filter", for the log.
+ */
+export const enforcePromptPolicy = (texts: string[], operation: string) => {
+    const violations = checkPromptPolicy(texts);
+    for (const violation of violations) {
+        console.warn(`Prompt policy rule ${violation.ruleSetId}/${violation.ruleId} (${violation.severity}) fired for ${operation} on "${violation.match}"`);
+    }
+    const blocking = violations.filter(violation => violation.severity === 'block');
+    if (blocking.length > 0) {
+        // Two rule sets can explain the same thing, so each explanation is listed once
+        const reason = [...new Set(blocking.map(violation => violation.explanation))].join(' ');
+        throw new GenerationError('policy-violation', reason);
+    }
+};
@@ -0,0 +1,54 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { describePrompt, policyFragments, promptTemplates, renderPrompt } from './promptTemplates';
+
+const editVariables = {
+    userPrompt: 'remove the cup',
+    region: { kind: 'point', x: 120, y: 45 },
+    scale: 1,
+    additionalPrompt: '',
+    isTransparent: false,
+} as const;
+
+describe('renderPrompt', () => {
+    it('tags the text with the template it came from', () => {
+        const prompt = renderPrompt('edit', editVariables);
+        expect(prompt.templateId).toBe(promptTemplates.edit.id);
+        expect(prompt.version).toBe(promptTemplates.edit.version);
+        expect(prompt.text).toContain('User Request: "remove the cup"');
+        expect(prompt.text).toContain('(x: 120, y: 45)');
+        expect(prompt.text).toContain(policyFragments.skinToneAndRace);
+    });
+
+    it('describes each kind of edit region', () => {
+        const box = renderPrompt('edit', { ...editVariables, region: { kind: 'box', box: { xMin: 0.1, yMin: 0.2, xMax: 0.5, yMax: 0.6 } } });
+        expect(box.text).toContain('[ymin, xmin, ymax, xmax] = [200, 100, 600, 500]');
+        const mask = renderPrompt('edit', { ...editVariables, region: { kind: 'mask' } });
+        expect(mask.text).toContain('ONLY inside the white area of the mask');
+    });
+
+    it('only adds the optional instructions that apply', () => {
+        expect(renderPrompt('edit', editVariables).text).not.toMatch(/Scale Factor|Additional Instructions|CRITICAL INSTRUCTION/);
+
+        const text = renderPrompt('edit', { ...editVariables, scale: 1.5, additionalPrompt: 'keep the shadow', isTransparent: true }).text;
+        expect(text).toContain('factor of 1.50');
+        expect(text).toContain('Additional Instructions from user: "keep the shadow"');
+        expect(text).toContain('CRITICAL INSTRUCTION: The final output image MUST have a transparent background.');
+    });
+
+    it('renders the same text for the same variables', () => {
+        const variables = { filterPrompt: 'vintage film', additionalPrompt: '', isTransparent: false };
+        expect(renderPrompt('filter', variables)).toEqual(renderPrompt('filter', variables));
+    });
+});
+
+describe('describePrompt', () => {
+    it('names the template and its version', () => {
+        expect(describePrompt({ templateId: 'retouch', version: 3, text: '' })).toBe('retouch@v3');
+        expect(describePrompt(renderPrompt('edit', editVariables))).toBe(`${promptTemplates.edit.id}@v${promptTemplates.edit.version}`);
+    });
+});
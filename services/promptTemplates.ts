@@ -0,0 +1,442 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { EditRegion } from './imageEditProvider';
+import type { AspectRatio } from './textToImage';
+import { toBox2d } from './coordinates';
+import type { FacePairing } from './faces';
+
+// Every prompt sent to the image model is rendered from a template in this
+// file. Bump a template's version whenever its wording changes so logs and
+// cached results can be traced back to the prompt that produced them.
+
+export interface PromptTemplate<TVariables> {
+    id: string;
+    version: number;
+    description: string;
+    render: (variables: TVariables) => string;
+}
+
+export interface RenderedPrompt {
+    templateId: string;
+    version: number;
+    text: string;
+}
+
+// --- Shared fragments ---
+
+export const policyFragments = {
+    skinToneAndRace: `Safety & Ethics Policy:
+- You MUST fulfill requests to adjust skin tone, such as 'give me a tan', 'make my skin darker', or 'make my skin lighter'. These are considered standard photo enhancements.
+- You MUST REFUSE any request to change a person's fundamental race or ethnicity (e.g., 'make me look Asian', 'change this person to be Black'). Do not perform these edits. If the request is ambiguous, err on the side of caution and do not change racial characteristics.`,
+    filterRace: `Safety & Ethics Policy:
+- Filters may subtly shift colors, but you MUST ensure they do not alter a person's fundamental race or ethnicity.
+- You MUST REFUSE any request that explicitly asks to change a person's race (e.g., 'apply a filter to make me look Chinese').`,
+};
+
+const additionalInstructions = (additionalPrompt: string): string =>
+    additionalPrompt ? `\nAdditional Instructions from user: "${additionalPrompt}"` : '';
+
+const criticalInstruction = (instruction: string): string => `\nCRITICAL INSTRUCTION: ${instruction}`;
+
+// --- Templates ---
+
+export interface EditPromptVariables {
+    userPrompt: string;
+    // The mask image itself travels as a separate part, only its presence matters here
+    region: Exclude<EditRegion, { kind: 'mask' }> | { kind: 'mask' };
+    scale: number;
+    additionalPrompt: string;
+    isTransparent: boolean;
+}
+
+const describeEditLocation = (region: EditPromptVariables['region']): string => {
+    switch (region.kind) {
+        case 'mask':
+            return `Edit Location: The SECOND image is a black-and-white mask the same size as the original. Apply the edit ONLY inside the white area of the mask. Everything in the black area must stay exactly as it is.`;
+        case 'box':
+            return `Edit Location: Confine the edit to the bounding box [ymin, xmin, ymax, xmax] = [${toBox2d(region.box).join(', ')}], normalized to 0-1000 of the image height and width.`;
+        case 'point':
+            return `Edit Location: Focus on the area around pixel coordinates (x: ${region.x}, y: ${region.y}).`;
+    }
+};
+
+const editTemplate: PromptTemplate<EditPromptVariables> = {
+    id: 'retouch',
+    version: 1,
+    description: 'Localized edit at a point, box or mask',
+    render: ({ userPrompt, region, scale, additionalPrompt, isTransparent }) => {
+        let prompt = `You are an expert photo editor AI. Your task is to perform a natural, localized edit on the provided image based on the user's request.
+User Request: "${userPrompt}"
+${describeEditLocation(region)}
+
+Editing Guidelines:
+- The edit must be realistic and blend seamlessly with the surrounding area.
+- The rest of the image (outside the immediate edit area) must remain identical to the original.
+
+${policyFragments.skinToneAndRace}
+
+Output: Return ONLY the final edited image. Do not return text.`;
+
+        if (scale !== 1.0) {
+            prompt += `\nScale Factor: Adjust the size of the added/modified element by a factor of ${scale.toFixed(2)}. For example, a factor of 1.5 means 50% larger, and 0.8 means 20% smaller than its natural size in the scene.`;
+        }
+        prompt += additionalInstructions(additionalPrompt);
+        if (isTransparent) {
+            prompt += criticalInstruction('The final output image MUST have a transparent background. Only the edited subject should be visible.');
+        }
+        return prompt;
+    },
+};
+
+export interface FilterPromptVariables {
+    filterPrompt: string;
+    additionalPrompt: string;
+    isTransparent: boolean;
+}
+
+const filterTemplate: PromptTemplate<FilterPromptVariables> = {
+    id: 'filter',
+    version: 1,
+    description: 'Stylistic filter over the whole image',
+    render: ({ filterPrompt, additionalPrompt, isTransparent }) => {
+        let prompt = `You are an expert photo editor AI. Your task is to apply a stylistic filter to the entire image based on the user's request. Do not change the composition or content, only apply the style.
+Filter Request: "${filterPrompt}"
+
+${policyFragments.filterRace}
+
+Output: Return ONLY the final filtered image. Do not return text.`;
+
+        prompt += additionalInstructions(additionalPrompt);
+        if (isTransparent) {
+            prompt += criticalInstruction('After applying the filter, make the background of the image transparent, keeping only the main subject(s).');
+        }
+        return prompt;
+    },
+};
+
+export interface AdjustmentPromptVariables {
+    adjustmentPrompt: string;
+    hasReferenceImage: boolean;
+    additionalPrompt: string;
+    isTransparent: boolean;
+}
+
+const adjustmentTemplate: PromptTemplate<AdjustmentPromptVariables> = {
+    id: 'adjustment',
+    version: 1,
+    description: 'Global photorealistic adjustment, optionally guided by a reference image',
+    render: ({ adjustmentPrompt, hasReferenceImage, additionalPrompt, isTransparent }) => {
+        let prompt = hasReferenceImage
+            ? `You are an expert photo editor AI. Your task is to perform a natural, global adjustment to the MAIN image, using the second image as a REFERENCE.
+User Request: "${adjustmentPrompt}"
+
+Editing Guidelines:
+- The adjustment must be applied across the entire MAIN image.
+- Use the REFERENCE image as inspiration (e.g., for style, lighting, color palette).
+- The result must be photorealistic.
+
+${policyFragments.skinToneAndRace}
+
+Output: Return ONLY the final adjusted MAIN image. Do not return text.`
+            : `You are an expert photo editor AI. Your task is to perform a natural, global adjustment to the entire image based on the user's request.
+User Request: "${adjustmentPrompt}"
+
+Editing Guidelines:
+- The adjustment must be applied across the entire image.
+- The result must be photorealistic.
+
+${policyFragments.skinToneAndRace}
+
+Output: Return ONLY the final adjusted image. Do not return text.`;
+
+        prompt += additionalInstructions(additionalPrompt);
+        if (isTransparent) {
+            prompt += criticalInstruction('After applying the adjustment, make the background of the image transparent, keeping only the main subject(s).');
+        }
+        return prompt;
+    },
+};
+
+export interface FaceSwapPromptVariables {
+    // Explicit face pairs; when empty the primary face of each image is used
+    pairings: FacePairing[];
+    additionalPrompt: string;
+    isTransparent: boolean;
+}
+
+const describeFacePairings = (pairings: FacePairing[]): string => {
+    if (pairings.length === 0) {
+        return `1. Identify the primary face in the source image.
+2. Identify the primary face in the target image.
+3. Replace the target face with the source face.`;
+    }
+    const pairs = pairings.map(({ source, target }, i) =>
+        `   - Swap ${i + 1}: the face in the SOURCE image at [${toBox2d(source).join(', ')}] goes onto the face in the TARGET image at [${toBox2d(target).join(', ')}].`
+    );
+    return `1. Perform every swap listed below in this single image. Boxes are [ymin, xmin, ymax, xmax], normalized to 0-1000 of each image's height and width.
+${pairs.join('\n')}
+2. Any face in the target image that is not listed must remain exactly as it is.
+3. A source face may be used for more than one target face.`;
+};
+
+const faceSwapTemplate: PromptTemplate<FaceSwapPromptVariables> = {
+    id: 'face-swap',
+    version: 2,
+    description: 'Move faces from the first image onto people in the second',
+    render: ({ pairings, additionalPrompt, isTransparent }) => {
+        let prompt = `You are an expert photo editor AI specializing in hyper-realistic face swapping.
+Your task is to take faces from the FIRST image (the source) and seamlessly place them onto people in the SECOND image (the target).
+
+Instructions:
+${describeFacePairings(pairings)}
+4. The final image must be photorealistic. Match the lighting, skin tone, shadows, and angle of the target image perfectly.
+5. Do not alter any other part of the target image. The background and bodies must remain identical.
+
+Output: Return ONLY the final edited image with the swapped face(s). Do not return text.`;
+
+        prompt += additionalInstructions(additionalPrompt);
+        if (isTransparent) {
+            prompt += criticalInstruction('The final output image MUST have a transparent background. The people with swapped faces should be visible, and the original background should be removed.');
+        }
+        return prompt;
+    },
+};
+
+export type DetectFacesPromptVariables = Record<string, never>;
+
+const detectFacesTemplate: PromptTemplate<DetectFacesPromptVariables> = {
+    id: 'detect-faces',
+    version: 1,
+    description: 'Locate every human face, answered as JSON',
+    render: () => `Detect every human face in the provided image, including small, partly hidden and turned faces.
+Return a JSON array with one object per face: {"box_2d": [ymin, xmin, ymax, xmax]}, with coordinates normalized to 0-1000 of the image height and width.
+Return an empty array if there are no faces.`,
+};
+
+export type AnalyzeImagePromptVariables = Record<string, never>;
+
+const analyzeImageTemplate: PromptTemplate<AnalyzeImagePromptVariables> = {
+    id: 'analyze-image',
+    version: 1,
+    description: 'Caption the image, locate its objects and suggest edits, answered as JSON',
+    render: () => `You are an expert photo editor. Analyze the provided image and answer with a single JSON object with these fields:
+- "caption": one sentence in Thai describing the image, suitable as alt text for a visually impaired reader.
+- "objects": an array with one entry per distinct, clearly visible object: {"label": a short Thai name, "box_2d": [ymin, xmin, ymax, xmax]}, with coordinates normalized to 0-1000 of the image height and width. List at most 10 objects, most prominent first.
+- "suggestions": an array of 3 to 6 edits that would improve this particular image: {"tool": "retouch" | "filter" | "adjust", "label": a short Thai title of at most 5 words, "prompt": a clear English instruction for an image-editing model}. Use "retouch" for changes to one object or area, "filter" for stylistic looks, and "adjust" for whole-image corrections such as lighting or color.
+Never suggest changing a person's race or ethnicity.`,
+};
+
+export interface RemoveBackgroundPromptVariables {
+    additionalPrompt: string;
+    isTransparent: boolean;
+}
+
+const removeBackgroundTemplate: PromptTemplate<RemoveBackgroundPromptVariables> = {
+    id: 'remove-background',
+    version: 1,
+    description: 'Isolate the main subject on a transparent or white background',
+    render: ({ additionalPrompt, isTransparent }) => {
+        let prompt = `You are an expert photo editor AI. Your task is to perfectly remove the background from the provided image, leaving only the main subject(s) cleanly isolated. The edges of the subject should be sharp and precise.`;
+
+        prompt += additionalInstructions(additionalPrompt);
+        prompt += isTransparent
+            ? criticalInstruction('The final output image MUST have a transparent background.')
+            : criticalInstruction('The final output image MUST have a solid, neutral white background (#FFFFFF).');
+        prompt += `\n\nOutput: Return ONLY the final edited image. Do not return text.`;
+        return prompt;
+    },
+};
+
+export interface ChatTurnPromptVariables {
+    instruction: string;
+    // The first turn carries the original image and the editing guidelines
+    isFirstTurn: boolean;
+    isTransparent: boolean;
+}
+
+const chatTurnTemplate: PromptTemplate<ChatTurnPromptVariables> = {
+    id: 'chat-turn',
+    version: 1,
+    description: 'One message in a conversational editing session',
+    render: ({ instruction, isFirstTurn, isTransparent }) => {
+        let prompt = isFirstTurn
+            ? `You are an expert photo editor AI in a conversational editing session. Edit the provided image according to the user's instruction. Later messages will refine the result step by step; always apply them to your most recent image.
+User Request: "${instruction}"
+
+Editing Guidelines:
+- The edit must be realistic and blend seamlessly with the rest of the image.
+- Change only what the user asks for. Everything else must remain identical.
+
+${policyFragments.skinToneAndRace}
+
+Output: Return ONLY the edited image. Do not return text.`
+            : `Apply this change to your most recent image: "${instruction}"
+Keep everything else identical to that image, and follow the same guidelines as before.
+
+Output: Return ONLY the edited image. Do not return text.`;
+
+        if (isTransparent) {
+            prompt += criticalInstruction('The final output image MUST have a transparent background.');
+        }
+        return prompt;
+    },
+};
+
+export interface SubjectMaskPromptVariables {
+    additionalPrompt: string;
+}
+
+const subjectMaskTemplate: PromptTemplate<SubjectMaskPromptVariables> = {
+    id: 'subject-mask',
+    version: 1,
+    description: 'Segmentation mask of the main subject, applied locally as alpha',
+    render: ({ additionalPrompt }) => {
+        let prompt = `You are an expert image segmentation AI. Create a segmentation mask of the main subject(s) of the provided image.
+
+Mask Requirements:
+- The mask must have exactly the same dimensions and framing as the provided image.
+- Paint the main subject(s) pure white (#FFFFFF) and everything else pure black (#000000).
+- Follow the subject's outline precisely, including fine details such as hair and thin objects.
+- Do not reproduce any of the image's colors, textures or shading. The output is a mask, not a photo.
+
+Output: Return ONLY the black-and-white mask image. Do not return text.`;
+
+        prompt += additionalInstructions(additionalPrompt);
+        return prompt;
+    },
+};
+
+export interface OutpaintPromptVariables {
+    additionalPrompt: string;
+}
+
+const outpaintTemplate: PromptTemplate<OutpaintPromptVariables> = {
+    id: 'outpaint',
+    version: 1,
+    description: 'Fill the area added around the image when the canvas is extended',
+    render: ({ additionalPrompt }) => {
+        let prompt = `You are an expert photo editor AI. The canvas of the FIRST image has been extended; the new area is filled with flat gray.
+The SECOND image is a black-and-white mask the same size as the first. White marks the new area to fill, black marks the original image.
+
+Outpainting Guidelines:
+- Fill the white area of the mask by naturally continuing the scene beyond its original borders: extend the background, lighting, perspective, textures and any subjects cut off by the original edges.
+- The transition between the original image and the new area must be seamless, with no visible seams, borders or frames.
+- Everything in the black area of the mask must stay exactly as it is.
+- Keep the exact dimensions of the first image.
+
+Output: Return ONLY the final extended image. Do not return text.`;
+
+        prompt += additionalInstructions(additionalPrompt);
+        return prompt;
+    },
+};
+
+export interface UpscalePromptVariables {
+    factor: number;
+}
+
+const upscaleTemplate: PromptTemplate<UpscalePromptVariables> = {
+    id: 'upscale',
+    version: 1,
+    description: 'Super-resolution of one tile of a larger image',
+    render: ({ factor }) => `You are an expert image restoration AI specializing in super-resolution. Produce a ${factor}x higher-resolution version of the provided image.
+The image may be a tile cut from a larger picture, so content can be cut off at its edges.
+
+Upscaling Guidelines:
+- Reconstruct fine detail and texture (hair, fabric, foliage, text edges) that is plausible at the higher resolution.
+- Remove blur, noise and compression artifacts without smoothing away real detail.
+- Do NOT add, remove, move or restyle anything. Composition, colors and framing must match the input exactly, right up to the edges.
+- Do not add borders or frames.
+
+Output: Return ONLY the upscaled image. Do not return text.`,
+};
+
+export interface TextToImagePromptVariables {
+    prompt: string;
+    aspectRatio: AspectRatio;
+    isTransparent: boolean;
+}
+
+const textToImageTemplate: PromptTemplate<TextToImagePromptVariables> = {
+    id: 'text-to-image',
+    version: 1,
+    description: 'New image generated from a text description',
+    render: ({ prompt, aspectRatio, isTransparent }) => {
+        let text = `You are an expert digital artist and photographer AI. Create a new, high-quality image from the user's description.
+User Request: "${prompt}"
+
+Generation Guidelines:
+- Follow the description closely, filling in unspecified details in a natural, visually coherent way.
+- Compose the image for an aspect ratio of ${aspectRatio} (width:height), using the whole frame.
+
+Safety & Ethics Policy:
+- Do not depict real, identifiable people in a misleading or harmful way.
+
+Output: Return ONLY the generated image. Do not return text.`;
+
+        if (isTransparent) {
+            text += criticalInstruction('Generate only the subject on a transparent background, with no scenery behind it.');
+        }
+        return text;
+    },
+};
+
+export const promptTemplates = {
+    edit: editTemplate,
+    filter: filterTemplate,
+    adjustment: adjustmentTemplate,
+    faceSwap: faceSwapTemplate,
+    detectFaces: detectFacesTemplate,
+    analyzeImage: analyzeImageTemplate,
+    removeBackground: removeBackgroundTemplate,
+    subjectMask: subjectMaskTemplate,
+    chatTurn: chatTurnTemplate,
+    outpaint: outpaintTemplate,
+    upscale: upscaleTemplate,
+    textToImage: textToImageTemplate,
+};
+
+export type PromptTemplateName = keyof typeof promptTemplates;
+
+export type PromptVariables<N extends PromptTemplateName> = Parameters<(typeof promptTemplates)[N]['render']>[0];
+
+/**
+ * Renders a named template with its variables. This is what the providers
+ * send, and what the prompt preview shows.
+ */
+export const renderPrompt = <N extends PromptTemplateName>(name: N, variables: PromptVariables<N>): RenderedPrompt => {
+    const template = promptTemplates[name] as PromptTemplate<PromptVariables<N>>;
+    return {
+        templateId: template.id,
+        version: template.version,
+        text: template.render(variables),
+    };
+};
+
+// Short label such as `retouch@v1` for logs and the prompt preview
+export const describePrompt = (prompt: RenderedPrompt): string => `${prompt.templateId}@v${prompt.version}`;
+
+// --- Presets offered in the tool panels ---
+
+export interface PromptPreset {
+    id: string;
+    name: string;
+    prompt: string;
+}
+
+export const filterPresets: PromptPreset[] = [
+    { id: 'synthwave', name: 'ซินธ์เวฟ', prompt: 'Transform the image with a retro 80s synthwave aesthetic. Add vibrant neon glows, especially magenta, cyan, and electric blue. Incorporate a subtle grid pattern on the floor or background if appropriate, and finish with a slight CRT scan line effect for that authentic retro-futuristic feel.' },
+    { id: 'anime', name: 'อนิเมะ', prompt: 'Convert the photo into a vibrant, high-quality Japanese anime style. Emphasize expressive eyes, apply clean, bold outlines, use cel-shading for dramatic lighting, and boost color saturation to create a lively, animated look reminiscent of a modern anime film.' },
+    { id: 'lomo', name: 'โลโม่', prompt: 'Apply a classic Lomography film effect. Create high-contrast, heavily saturated colors with a strong cross-processed look. Introduce a heavy, dark vignette around the edges and a bit of light leak for an authentic, unpredictable, and artistic analog camera feel.' },
+    { id: 'glitch', name: 'กลิตช์', prompt: 'Induce a futuristic digital glitch effect. Introduce artifacts like datamoshing, pixel sorting, and screen tearing. Add prominent chromatic aberration (RGB color separation) and scan lines to make it look like a corrupted digital file or a malfunctioning holographic projection.' },
+];
+
+export const adjustmentPresets: PromptPreset[] = [
+    { id: 'enhance', name: 'ปรับปรุงตามข้อความ', prompt: 'Imaginatively enhance this photo. Improve the overall quality (lighting, colors, sharpness) and creatively elevate the scene to be more dramatic, vibrant, and visually stunning. Produce a masterpiece that looks like a professional, artistic edit.' },
+    { id: 'blur-background', name: 'บลอพื้นหลัง', prompt: 'Apply a realistic depth-of-field effect, making the background blurry while keeping the main subject in sharp focus.' },
+    { id: 'sharpen', name: 'เพิ่มความคมชัด', prompt: 'Slightly enhance the sharpness and details of the image without making it look unnatural.' },
+    { id: 'studio-light', name: 'จัดแสงสตูดิโอ', prompt: 'Add dramatic, professional studio lighting to the main subject.' },
+];
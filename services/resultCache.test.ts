@@ -0,0 +1,84 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+    clearResultCache,
+    configureCache,
+    getCacheOptions,
+    getCachedResult,
+    hashCacheKey,
+    listCacheEntries,
+    putCachedResult,
+    setCacheBypassed,
+} from './resultCache';
+
+const defaultOptions = getCacheOptions();
+
+describe('hashCacheKey', () => {
+    it('gives the same hex key for the same inputs', async () => {
+        const key = await hashCacheKey(['model', 'image', 'prompt']);
+        expect(key).toMatch(/^[0-9a-f]{64}$/);
+        expect(await hashCacheKey(['model', 'image', 'prompt'])).toBe(key);
+    });
+
+    it('tells apart inputs in a different order or split differently', async () => {
+        const key = await hashCacheKey(['ab', 'c']);
+        expect(await hashCacheKey(['c', 'ab'])).not.toBe(key);
+        expect(await hashCacheKey(['a', 'bc'])).not.toBe(key);
+    });
+});
+
+describe('result cache', () => {
+    beforeEach(() => {
+        // Only the clock is faked; IndexedDB still needs real timers to complete requests
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(1_000);
+    });
+
+    afterEach(async () => {
+        vi.useRealTimers();
+        configureCache(defaultOptions);
+        setCacheBypassed(false);
+        await clearResultCache();
+    });
+
+    const putAt = async (time: number, key: string, dataUrl = 'data:image/png;base64,AAAA') => {
+        vi.setSystemTime(time);
+        await putCachedResult(key, dataUrl, 'filter');
+    };
+
+    it('returns a stored result until the cache is bypassed', async () => {
+        await putAt(1_000, 'a', 'data:image/png;base64,AQID');
+        expect(await getCachedResult('a')).toBe('data:image/png;base64,AQID');
+        expect(await getCachedResult('missing')).toBeNull();
+
+        setCacheBypassed(true);
+        expect(await getCachedResult('a')).toBeNull();
+    });
+
+    it('evicts the least recently used entries past the entry limit', async () => {
+        configureCache({ maxEntries: 2 });
+        await putAt(1_000, 'a');
+        await putAt(2_000, 'b');
+        // Reading `a` makes `b` the least recently used
+        vi.setSystemTime(3_000);
+        await getCachedResult('a');
+        await putAt(4_000, 'c');
+
+        expect((await listCacheEntries()).map(entry => entry.key)).toEqual(['a', 'c']);
+    });
+
+    it('evicts entries until the cache fits its size limit', async () => {
+        const dataUrl = 'data:image/png;base64,' + 'A'.repeat(100);
+        configureCache({ maxBytes: dataUrl.length * 2 });
+        await putAt(1_000, 'a', dataUrl);
+        await putAt(2_000, 'b', dataUrl);
+        await putAt(3_000, 'c', dataUrl);
+
+        expect((await listCacheEntries()).map(entry => entry.key)).toEqual(['b', 'c']);
+    });
+});
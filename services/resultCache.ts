@@ -0,0 +1,160 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Persistent cache of AI results in IndexedDB. Entries are keyed by a hash of
+// everything that determines the output (model, input image bytes, rendered
+// prompt), so repeating an operation returns the stored image instead of
+// making a new paid request. Least recently used entries are evicted once the
+// cache grows past its limits.
+
+export interface CacheOptions {
+    maxEntries: number;
+    maxBytes: number;
+}
+
+let cacheOptions: CacheOptions = {
+    maxEntries: 200,
+    maxBytes: 200 * 1024 * 1024,
+};
+
+export const getCacheOptions = (): CacheOptions => cacheOptions;
+
+export const configureCache = (options: Partial<CacheOptions>) => {
+    cacheOptions = { ...cacheOptions, ...options };
+};
+
+let isBypassed = false;
+
+export const isCacheBypassed = (): boolean => isBypassed;
+
+/**
+ * When bypassed, every request goes to the model. Fresh results still
+ * replace whatever was cached for the same key.
+ */
+export const setCacheBypassed = (bypassed: boolean) => {
+    isBypassed = bypassed;
+};
+
+export interface CacheEntry {
+    key: string;
+    dataUrl: string;
+    // Which operation produced the result, e.g. "filter"
+    label: string;
+    size: number;
+    createdAt: number;
+    lastUsedAt: number;
+}
+
+export interface CacheStats {
+    entries: number;
+    bytes: number;
+}
+
+const DB_NAME = 'ai-result-cache';
+const STORE = 'results';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, 1);
+            request.onupgradeneeded = () => {
+                const store = request.result.createObjectStore(STORE, { keyPath: 'key' });
+                store.createIndex('lastUsedAt', 'lastUsedAt');
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDb();
+    return requestToPromise(run(db.transaction(STORE, mode).objectStore(STORE)));
+};
+
+/**
+ * Hashes the given inputs, in order, into a hex cache key.
+ */
+export const hashCacheKey = async (inputs: string[]): Promise<string> => {
+    const encoder = new TextEncoder();
+    const chunks = inputs.map(input => encoder.encode(input));
+    const joined = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length + 1, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+        joined.set(chunk, offset);
+        // A separator keeps ["ab", "c"] and ["a", "bc"] from colliding
+        offset += chunk.length + 1;
+    }
+    const digest = await crypto.subtle.digest('SHA-256', joined);
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Looks up a cached result and marks it as recently used.
+ * @returns The cached data URL, or null on a miss or when the cache is bypassed.
+ */
+export const getCachedResult = async (key: string): Promise<string | null> => {
+    if (isBypassed) return null;
+    try {
+        const entry = await withStore<CacheEntry | undefined>('readonly', store => store.get(key));
+        if (!entry) return null;
+        await withStore('readwrite', store => store.put({ ...entry, lastUsedAt: Date.now() }));
+        return entry.dataUrl;
+    } catch (err) {
+        console.warn('Could not read from the result cache', err);
+        return null;
+    }
+};
+
+export const putCachedResult = async (key: string, dataUrl: string, label: string): Promise<void> => {
+    const now = Date.now();
+    const entry: CacheEntry = { key, dataUrl, label, size: dataUrl.length, createdAt: now, lastUsedAt: now };
+    try {
+        await withStore('readwrite', store => store.put(entry));
+        await evictLeastRecentlyUsed();
+    } catch (err) {
+        console.warn('Could not write to the result cache', err);
+    }
+};
+
+// Entries sorted from least to most recently used
+export const listCacheEntries = (): Promise<CacheEntry[]> =>
+    withStore<CacheEntry[]>('readonly', store => store.index('lastUsedAt').getAll());
+
+export const getCacheStats = async (): Promise<CacheStats> => {
+    const entries = await listCacheEntries();
+    return { entries: entries.length, bytes: entries.reduce((total, entry) => total + entry.size, 0) };
+};
+
+export const deleteCachedResult = async (key: string): Promise<void> => {
+    await withStore('readwrite', store => store.delete(key));
+};
+
+export const clearResultCache = async (): Promise<void> => {
+    await withStore('readwrite', store => store.clear());
+};
+
+const evictLeastRecentlyUsed = async () => {
+    const entries = await listCacheEntries();
+    let count = entries.length;
+    let bytes = entries.reduce((total, entry) => total + entry.size, 0);
+    for (const entry of entries) {
+        if (count <= cacheOptions.maxEntries && bytes <= cacheOptions.maxBytes) break;
+        await deleteCachedResult(entry.key);
+        count--;
+        bytes -= entry.size;
+    }
+};
@@ -0,0 +1,65 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { GenerationError } from './generationError';
+import { withRetry, type RetryOptions } from './retry';
+
+const options: RetryOptions = { maxAttempts: 3, initialDelayMs: 0, backoffFactor: 2, maxDelayMs: 0 };
+
+// Fails with each of `errors` in turn, then succeeds
+const failingWith = (...errors: unknown[]) => vi.fn(async () => {
+    const error = errors.shift();
+    if (error) throw error;
+    return 'ok';
+});
+
+describe('withRetry', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+        vi.useRealTimers();
+    });
+
+    it('retries transient failures until the operation succeeds', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const operation = failingWith(new GenerationError('network', 'offline'), new GenerationError('rate-limited', '429'));
+        await expect(withRetry(operation, undefined, options)).resolves.toBe('ok');
+        expect(operation).toHaveBeenCalledTimes(3);
+    });
+
+    it('gives up after the last attempt', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const operation = failingWith(...Array.from({ length: 3 }, () => new GenerationError('network', 'offline')));
+        await expect(withRetry(operation, undefined, options)).rejects.toMatchObject({ kind: 'network' });
+        expect(operation).toHaveBeenCalledTimes(3);
+    });
+
+    it('rethrows other failures straight away', async () => {
+        const operation = failingWith(new GenerationError('blocked', 'SAFETY'));
+        await expect(withRetry(operation, undefined, options)).rejects.toMatchObject({ kind: 'blocked' });
+        expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it('waits longer before each retry, up to the maximum delay', async () => {
+        vi.useFakeTimers();
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const operation = failingWith(...Array.from({ length: 3 }, () => new GenerationError('network', 'offline')));
+        const result = withRetry(operation, undefined, { maxAttempts: 4, initialDelayMs: 1000, backoffFactor: 3, maxDelayMs: 2000 });
+        await vi.runAllTimersAsync();
+        await expect(result).resolves.toBe('ok');
+        expect(warn.mock.calls.map(([message]) => String(message).match(/in (\d+)ms/)?.[1])).toEqual(['1000', '2000', '2000']);
+    });
+
+    it('stops waiting when the signal is aborted', async () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const controller = new AbortController();
+        const operation = failingWith(new GenerationError('network', 'offline'));
+        const result = withRetry(operation, controller.signal, { ...options, initialDelayMs: 60_000, maxDelayMs: 60_000 });
+        await vi.waitFor(() => expect(warn).toHaveBeenCalled());
+        controller.abort();
+        await expect(result).rejects.toMatchObject({ kind: 'cancelled' });
+        expect(operation).toHaveBeenCalledTimes(1);
+    });
+});
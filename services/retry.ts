@@ -0,0 +1,71 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { GenerationError, toGenerationError } from './generationError';
+
+export interface RetryOptions {
+    // Total attempts including the first one
+    maxAttempts: number;
+    initialDelayMs: number;
+    backoffFactor: number;
+    maxDelayMs: number;
+}
+
+let retryOptions: RetryOptions = {
+    maxAttempts: 3,
+    initialDelayMs: 1000,
+    backoffFactor: 2,
+    maxDelayMs: 8000,
+};
+
+export const getRetryOptions = (): RetryOptions => retryOptions;
+
+/**
+ * Overrides the retry policy used for AI calls. Set `maxAttempts` to 1 to
+ * disable automatic retries.
+ */
+export const configureRetry = (options: Partial<RetryOptions>) => {
+    retryOptions = { ...retryOptions, ...options };
+};
+
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(new GenerationError('cancelled', 'Aborted while waiting to retry'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Runs an operation, retrying with exponential backoff while it fails with a
+ * transient GenerationError. Any other failure is rethrown immediately, and
+ * aborting the signal stops further attempts.
+ */
+export const withRetry = async <T>(operation: () => Promise<T>, signal?: AbortSignal, options: RetryOptions = retryOptions): Promise<T> => {
+    let attempt = 1;
+    let waitMs = options.initialDelayMs;
+
+    while (true) {
+        try {
+            return await operation();
+        } catch (err) {
+            if (signal?.aborted) {
+                throw new GenerationError('cancelled', 'Operation was cancelled', { cause: err });
+            }
+            const error = toGenerationError(err);
+            if (!error.isTransient || attempt >= options.maxAttempts) {
+                throw error;
+            }
+            console.warn(`AI call failed (${error.kind}), retrying in ${waitMs}ms (attempt ${attempt + 1}/${options.maxAttempts})`, error);
+            await delay(waitMs, signal);
+            attempt++;
+            waitMs = Math.min(waitMs * options.backoffFactor, options.maxDelayMs);
+        }
+    }
+};
@@ -0,0 +1,133 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { canvasToFile, createCanvas } from './imageUtils';
+
+// Text layers keep what they say and how it looks, and carry a rendered image
+// like any other layer so previews, thumbnails and masks work unchanged. The
+// image is drawn at one pixel per font pixel; compositing renders the text
+// again at whatever size the layer ends up in the document, so scaled-up text
+// stays sharp on export. AI tools only see pixels, so a text layer has to be
+// rasterized (its text dropped) before one of them can edit it.
+
+export type TextAlign = 'left' | 'center' | 'right';
+
+export interface TextLayerContent {
+    content: string;
+    fontFamily: string;
+    // In pixels of the layer's image
+    fontSize: number;
+    fontWeight: number;
+    color: string;
+    align: TextAlign;
+    // An outline of `strokeWidth` pixels; 0 draws none
+    strokeColor: string;
+    strokeWidth: number;
+    // A drop shadow; a blur and offset of 0 draws none
+    shadowColor: string;
+    shadowBlur: number;
+    shadowOffsetX: number;
+    shadowOffsetY: number;
+}
+
+// IBM Plex Sans Thai is the UI font loaded in index.html, so it is always available
+export const textFontFamilies: Record<string, string> = {
+    "'IBM Plex Sans Thai', sans-serif": 'IBM Plex Sans Thai',
+    'Tahoma, sans-serif': 'Tahoma',
+    'Georgia, serif': 'Georgia',
+    'monospace': 'Monospace',
+};
+
+export const textFontWeights: Record<number, string> = {
+    400: 'ปกติ',
+    500: 'กลาง',
+    600: 'หนาปานกลาง',
+    700: 'หนา',
+};
+
+export const defaultTextLayerContent: TextLayerContent = {
+    content: 'ข้อความของคุณ',
+    fontFamily: "'IBM Plex Sans Thai', sans-serif",
+    fontSize: 96,
+    fontWeight: 600,
+    color: '#ffffff',
+    align: 'center',
+    strokeColor: '#000000',
+    strokeWidth: 0,
+    shadowColor: '#000000',
+    shadowBlur: 0,
+    shadowOffsetX: 0,
+    shadowOffsetY: 0,
+};
+
+// Thai stacks vowels and tone marks above and below the line, so lines need more room than Latin text
+export const TEXT_LINE_HEIGHT = 1.5;
+
+export const getTextFont = (text: TextLayerContent, pixelRatio = 1): string =>
+    `${text.fontWeight} ${text.fontSize * pixelRatio}px ${text.fontFamily}`;
+
+// The layer's name in the layer panel: the first line of its text
+export const getTextLayerName = (text: TextLayerContent): string =>
+    text.content.split('\n')[0].trim().slice(0, 30) || 'ข้อความ';
+
+/**
+ * Draws the text on a canvas just large enough for it, its outline and its
+ * shadow. `pixelRatio` scales everything, to render for a larger placement.
+ */
+export const renderText = async (text: TextLayerContent, pixelRatio = 1): Promise<HTMLCanvasElement> => {
+    const font = getTextFont(text, pixelRatio);
+    // Canvas falls back to another font silently if the web font hasn't loaded yet
+    await document.fonts.load(font, text.content);
+
+    const lines = text.content.split('\n');
+    const lineHeight = text.fontSize * TEXT_LINE_HEIGHT * pixelRatio;
+    const measure = createCanvas(1, 1).ctx;
+    measure.font = font;
+    const textWidth = Math.max(1, ...lines.map(line => measure.measureText(line).width));
+    const textHeight = lines.length * lineHeight;
+
+    const strokePad = text.strokeWidth * pixelRatio;
+    const shadowPad = text.shadowBlur * pixelRatio;
+    const pad = {
+        left: Math.ceil(strokePad + Math.max(0, shadowPad - text.shadowOffsetX * pixelRatio)),
+        right: Math.ceil(strokePad + Math.max(0, shadowPad + text.shadowOffsetX * pixelRatio)),
+        top: Math.ceil(strokePad + Math.max(0, shadowPad - text.shadowOffsetY * pixelRatio)),
+        bottom: Math.ceil(strokePad + Math.max(0, shadowPad + text.shadowOffsetY * pixelRatio)),
+    };
+    const { canvas, ctx } = createCanvas(
+        Math.ceil(textWidth) + pad.left + pad.right,
+        Math.ceil(textHeight) + pad.top + pad.bottom,
+    );
+
+    ctx.font = font;
+    ctx.textAlign = text.align;
+    ctx.textBaseline = 'middle';
+    ctx.lineJoin = 'round';
+    const x = pad.left + (text.align === 'left' ? 0 : text.align === 'center' ? textWidth / 2 : textWidth);
+    const hasShadow = text.shadowBlur > 0 || text.shadowOffsetX !== 0 || text.shadowOffsetY !== 0;
+
+    lines.forEach((line, i) => {
+        const y = pad.top + (i + 0.5) * lineHeight;
+        // The shadow goes under the outline when there is one, so it is only cast once
+        ctx.shadowColor = hasShadow ? text.shadowColor : 'transparent';
+        ctx.shadowBlur = text.shadowBlur * pixelRatio;
+        ctx.shadowOffsetX = text.shadowOffsetX * pixelRatio;
+        ctx.shadowOffsetY = text.shadowOffsetY * pixelRatio;
+        if (text.strokeWidth > 0) {
+            ctx.strokeStyle = text.strokeColor;
+            // Half the line is hidden under the fill
+            ctx.lineWidth = text.strokeWidth * 2 * pixelRatio;
+            ctx.strokeText(line, x, y);
+            ctx.shadowColor = 'transparent';
+        }
+        ctx.fillStyle = text.color;
+        ctx.fillText(line, x, y);
+    });
+    return canvas;
+};
+
+// The layer image for a text layer; a `pixelRatio` of 1 is one pixel per font pixel
+export const rasterizeText = async (text: TextLayerContent, pixelRatio = 1): Promise<File> =>
+    canvasToFile(await renderText(text, pixelRatio), `text-${Date.now()}.png`);
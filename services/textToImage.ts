@@ -0,0 +1,68 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createCanvas, loadImage } from './imageUtils';
+import { placeOutput } from './outputReconciliation';
+import type { Rect, Size } from './coordinates';
+
+// Generating from text has no source image to match, so the size of the
+// result comes from the aspect ratio the user picked. The model treats that
+// ratio as a hint at best; results are cropped to it before they are used.
+
+export type AspectRatio = '1:1' | '4:3' | '3:4' | '16:9' | '9:16';
+
+export const aspectRatioNames: Record<AspectRatio, string> = {
+    '1:1': 'จัตุรัส 1:1',
+    '4:3': 'แนวนอน 4:3',
+    '3:4': 'แนวตั้ง 3:4',
+    '16:9': 'จอกว้าง 16:9',
+    '9:16': 'สตอรี่ 9:16',
+};
+
+// Longest side of a new document created from text
+const GENERATED_LONG_SIDE = 1024;
+
+// Width divided by height
+export const getAspectRatioValue = (aspectRatio: AspectRatio): number => {
+    const [width, height] = aspectRatio.split(':').map(Number);
+    return width / height;
+};
+
+export const getAspectRatioSize = (aspectRatio: AspectRatio): Size => {
+    const ratio = getAspectRatioValue(aspectRatio);
+    return ratio >= 1
+        ? { width: GENERATED_LONG_SIDE, height: Math.round(GENERATED_LONG_SIDE / ratio) }
+        : { width: Math.round(GENERATED_LONG_SIDE * ratio), height: GENERATED_LONG_SIDE };
+};
+
+// The offered ratio nearest to `size`, e.g. to describe an existing document to the model
+export const closestAspectRatio = (size: Size): AspectRatio => {
+    const target = Math.log(size.width / size.height);
+    return (Object.keys(aspectRatioNames) as AspectRatio[]).reduce((best, candidate) =>
+        Math.abs(Math.log(getAspectRatioValue(candidate)) - target) < Math.abs(Math.log(getAspectRatioValue(best)) - target) ? candidate : best
+    );
+};
+
+/**
+ * Draws a generated image into a transparent frame, cropped to cover `area`.
+ * @param resultUrl The generated image.
+ * @param frame The size of the image to produce.
+ * @param area Where the result goes inside the frame; the whole frame by default.
+ * @returns A promise that resolves to the PNG data URL of the frame.
+ */
+export const frameGeneratedImage = async (resultUrl: string, frame: Size, area: Rect = { x: 0, y: 0, ...frame }): Promise<string> => {
+    const output = await loadImage(resultUrl);
+    const cover = placeOutput({ width: output.naturalWidth, height: output.naturalHeight }, area, 'fill');
+
+    const { canvas, ctx } = createCanvas(frame.width, frame.height);
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(area.x, area.y, area.width, area.height);
+    ctx.clip();
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(output, area.x + cover.x, area.y + cover.y, cover.width, cover.height);
+    ctx.restore();
+    return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,159 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { canvasToFile, createCanvas, loadImage } from './imageUtils';
+import type { Size } from './coordinates';
+
+// Images are normalized before they are sent to the model: EXIF rotation is
+// baked into the pixels, oversized photos are downsampled, and formats the
+// API does not accept are re-encoded. The transform is recorded so the
+// result can be scaled back to the size of the user's original.
+
+export interface UploadOptions {
+    // Longest side, in pixels, of any image sent to the model
+    maxDimension: number;
+    // Quality used when re-encoding photos as JPEG
+    jpegQuality: number;
+}
+
+let uploadOptions: UploadOptions = {
+    maxDimension: 2048,
+    jpegQuality: 0.92,
+};
+
+export const getUploadOptions = (): UploadOptions => uploadOptions;
+
+export const configureUpload = (options: Partial<UploadOptions>) => {
+    uploadOptions = { ...uploadOptions, ...options };
+};
+
+export interface UploadTransform {
+    // Size as displayed, after EXIF orientation has been applied
+    originalSize: Size;
+    uploadedSize: Size;
+    // EXIF orientation baked into the uploaded pixels (1 = upright)
+    orientation: number;
+    sourceType: string;
+    uploadedType: string;
+}
+
+const UPLOAD_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+// Photo formats that are re-encoded as JPEG; everything else becomes PNG to keep transparency
+const PHOTO_TYPES = ['image/jpeg', 'image/heic', 'image/heif'];
+
+const EXIF_ORIENTATION_TAG = 0x0112;
+
+/**
+ * Reads the EXIF orientation of a JPEG, or 1 when the file has none.
+ */
+export const readExifOrientation = async (file: File): Promise<number> => {
+    // The APP1 segment holding EXIF data sits at the start of the file
+    const view = new DataView(await file.slice(0, 128 * 1024).arrayBuffer());
+    if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return 1;
+
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+        const marker = view.getUint16(offset);
+        const segmentLength = view.getUint16(offset + 2);
+        if (marker === 0xffe1 && view.getUint32(offset + 4) === 0x45786966) { // "Exif"
+            const tiff = offset + 10;
+            const littleEndian = view.getUint16(tiff) === 0x4949;
+            const ifd = tiff + view.getUint32(tiff + 4, littleEndian);
+            const entries = view.getUint16(ifd, littleEndian);
+            for (let i = 0; i < entries; i++) {
+                const entry = ifd + 2 + i * 12;
+                if (entry + 10 > view.byteLength) break;
+                if (view.getUint16(entry, littleEndian) === EXIF_ORIENTATION_TAG) {
+                    return view.getUint16(entry + 8, littleEndian);
+                }
+            }
+            return 1;
+        }
+        if ((marker & 0xff00) !== 0xff00) break;
+        offset += 2 + segmentLength;
+    }
+    return 1;
+};
+
+const withExtension = (filename: string, type: string): string => {
+    const base = filename.replace(/\.[^.]+$/, '') || 'image';
+    return `${base}.${type === 'image/jpeg' ? 'jpg' : 'png'}`;
+};
+
+/**
+ * Prepares a file for upload. Files that are already upright, small enough
+ * and in an accepted format are passed through untouched.
+ * @returns The file to upload and how it differs from the original, or a
+ * null transform when the browser cannot decode the file.
+ */
+export const normalizeForUpload = async (file: File): Promise<{ file: File; transform: UploadTransform | null }> => {
+    const orientation = file.type === 'image/jpeg' ? await readExifOrientation(file) : 1;
+
+    let bitmap: ImageBitmap;
+    try {
+        bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+    } catch (err) {
+        console.warn(`Could not decode ${file.name} for upload, sending it unchanged.`, err);
+        return { file, transform: null };
+    }
+
+    const originalSize = { width: bitmap.width, height: bitmap.height };
+    const scale = Math.min(1, uploadOptions.maxDimension / Math.max(originalSize.width, originalSize.height));
+    const needsConversion = !UPLOAD_TYPES.includes(file.type);
+
+    if (orientation === 1 && scale === 1 && !needsConversion) {
+        bitmap.close();
+        return {
+            file,
+            transform: { originalSize, uploadedSize: originalSize, orientation, sourceType: file.type, uploadedType: file.type },
+        };
+    }
+
+    const uploadedSize = {
+        width: Math.max(1, Math.round(originalSize.width * scale)),
+        height: Math.max(1, Math.round(originalSize.height * scale)),
+    };
+    const uploadedType = PHOTO_TYPES.includes(file.type) ? 'image/jpeg' : 'image/png';
+
+    const { canvas, ctx } = createCanvas(uploadedSize.width, uploadedSize.height);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(bitmap, 0, 0, uploadedSize.width, uploadedSize.height);
+    bitmap.close();
+
+    const uploaded = await canvasToFile(
+        canvas,
+        withExtension(file.name, uploadedType),
+        uploadedType,
+        uploadedType === 'image/jpeg' ? uploadOptions.jpegQuality : undefined,
+    );
+    return {
+        file: uploaded,
+        transform: { originalSize, uploadedSize, orientation, sourceType: file.type, uploadedType },
+    };
+};
+
+/**
+ * Scales a result generated from a downsampled upload back up by the same
+ * factor, so an edit never silently shrinks the user's photo. The result's
+ * own aspect ratio is kept; lining it up with the layer is left to output
+ * reconciliation.
+ * @returns The data URL of the result at the original's resolution.
+ */
+export const restoreOriginalResolution = async (resultUrl: string, transform: UploadTransform | null): Promise<string> => {
+    if (!transform) return resultUrl;
+    const { originalSize, uploadedSize } = transform;
+    if (originalSize.width === uploadedSize.width && originalSize.height === uploadedSize.height) return resultUrl;
+
+    const result = await loadImage(resultUrl);
+    const scale = originalSize.width / uploadedSize.width;
+    const width = Math.round(result.naturalWidth * scale);
+    const height = Math.round(result.naturalHeight * scale);
+
+    const { canvas, ctx } = createCanvas(width, height);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(result, 0, 0, width, height);
+    return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,41 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { getUpscaleOptions, planUpscaleTiles } from './upscale';
+
+// Source-pixel starts of the tiles along each axis
+const columns = (tiles: { x: number }[]) => [...new Set(tiles.map(tile => tile.x))];
+const rows = (tiles: { y: number }[]) => [...new Set(tiles.map(tile => tile.y))];
+
+describe('planUpscaleTiles', () => {
+    it('keeps an image that fits one tile whole', () => {
+        expect(planUpscaleTiles({ width: 400, height: 300 }, 2)).toEqual([{ x: 0, y: 0, width: 400, height: 300 }]);
+    });
+
+    it('spreads tiles evenly instead of adding a sliver at the edge', () => {
+        const tiles = planUpscaleTiles({ width: 1000, height: 500 }, 2);
+        expect(columns(tiles)).toEqual([0, 244, 488]);
+        expect(rows(tiles)).toEqual([0]);
+        expect(tiles.every(tile => tile.width === 512 && tile.height === 500)).toBe(true);
+    });
+
+    it('covers the image with tiles that overlap by at least the configured amount', () => {
+        const { maxTileOutput, tileOverlap } = getUpscaleOptions();
+        const size = { width: 3000, height: 1700 };
+        for (const factor of [2, 4] as const) {
+            const tileSize = maxTileOutput / factor;
+            const tiles = planUpscaleTiles(size, factor);
+            for (const [starts, length] of [[columns(tiles), size.width], [rows(tiles), size.height]] as const) {
+                expect(starts[0]).toBe(0);
+                expect(starts[starts.length - 1] + tileSize).toBe(length);
+                for (let i = 1; i < starts.length; i++) {
+                    expect(starts[i - 1] + tileSize - starts[i]).toBeGreaterThanOrEqual(tileOverlap);
+                }
+            }
+            expect(tiles).toHaveLength(columns(tiles).length * rows(tiles).length);
+        }
+    });
+});
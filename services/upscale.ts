@@ -0,0 +1,221 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createCanvas, dataURLtoFile, loadImage } from './imageUtils';
+import type { Rect, Size } from './coordinates';
+
+// The model returns images of roughly a fixed size, so anything larger is
+// upscaled in overlapping tiles that each fit that size once enlarged. Tiles
+// are cross-faded where they overlap so the seams do not show.
+
+export type UpscaleFactor = 2 | 4;
+
+export interface UpscaleOptions {
+    // Longest side, in pixels, of an upscaled tile; tiles are cut to fit it
+    maxTileOutput: number;
+    // Overlap between neighbouring tiles, in source pixels
+    tileOverlap: number;
+    // Longest side, in pixels, of an upscaled image
+    maxOutputDimension: number;
+}
+
+let upscaleOptions: UpscaleOptions = {
+    maxTileOutput: 1024,
+    tileOverlap: 32,
+    maxOutputDimension: 8192,
+};
+
+export const getUpscaleOptions = (): UpscaleOptions => upscaleOptions;
+
+export const configureUpscale = (options: Partial<UpscaleOptions>) => {
+    upscaleOptions = { ...upscaleOptions, ...options };
+};
+
+// Enlarges one tile by the factor and resolves to its data URL, at any size
+export type UpscaleTile = (tile: File, factor: UpscaleFactor, signal?: AbortSignal) => Promise<string>;
+
+export const canUpscale = (size: Size, factor: UpscaleFactor): boolean =>
+    Math.max(size.width, size.height) * factor <= upscaleOptions.maxOutputDimension;
+
+// Tile start positions along one axis. As few tiles as keep every overlap at
+// least `overlap` wide, spread evenly so the last one ends at the edge
+const tileStarts = (length: number, tileSize: number, overlap: number): number[] => {
+    if (length <= tileSize) return [0];
+    const count = Math.ceil((length - overlap) / (tileSize - overlap));
+    return Array.from({ length: count }, (_, i) => Math.round(i * (length - tileSize) / (count - 1)));
+};
+
+/**
+ * Splits an image into the tiles that are upscaled separately, in source
+ * pixels, row by row. Small images are a single tile.
+ */
+export const planUpscaleTiles = (size: Size, factor: UpscaleFactor): Rect[] => {
+    const tileSize = Math.floor(upscaleOptions.maxTileOutput / factor);
+    const tiles: Rect[] = [];
+    for (const y of tileStarts(size.height, tileSize, upscaleOptions.tileOverlap)) {
+        for (const x of tileStarts(size.width, tileSize, upscaleOptions.tileOverlap)) {
+            tiles.push({ x, y, width: Math.min(tileSize, size.width), height: Math.min(tileSize, size.height) });
+        }
+    }
+    return tiles;
+};
+
+// Fades the left and/or top edge of a tile to transparent over `ramp` pixels
+const featherTileEdges = (ctx: CanvasRenderingContext2D, width: number, height: number, left: boolean, top: boolean, ramp: number) => {
+    ctx.globalCompositeOperation = 'destination-in';
+    if (left) {
+        const gradient = ctx.createLinearGradient(0, 0, ramp, 0);
+        gradient.addColorStop(0, 'rgba(0, 0, 0, 0)');
+        gradient.addColorStop(1, 'rgba(0, 0, 0, 1)');
+        ctx.fillStyle = gradient;
+        ctx.fillRect(0, 0, width, height);
+    }
+    if (top) {
+        const gradient = ctx.createLinearGradient(0, 0, 0, ramp);
+        gradient.addColorStop(0, 'rgba(0, 0, 0, 0)');
+        gradient.addColorStop(1, 'rgba(0, 0, 0, 1)');
+        ctx.fillStyle = gradient;
+        ctx.fillRect(0, 0, width, height);
+    }
+    ctx.globalCompositeOperation = 'source-over';
+};
+
+/**
+ * Upscales an image tile by tile. Tiles are processed one at a time, so a
+ * large image never has more than one request in flight.
+ * @param file The image to upscale.
+ * @param factor How much to enlarge it.
+ * @param upscaleTile Enlarges a single tile, e.g. a provider's `generateUpscaledImage`.
+ * @param options.onProgress Called after each tile with the number done and the total.
+ * @returns A promise that resolves to the PNG data URL of the upscaled image.
+ */
+export const upscaleImage = async (
+    file: File,
+    factor: UpscaleFactor,
+    upscaleTile: UpscaleTile,
+    options: { signal?: AbortSignal; onProgress?: (done: number, total: number) => void } = {},
+): Promise<string> => {
+    const source = await loadImage(file);
+    const size = { width: source.naturalWidth, height: source.naturalHeight };
+    if (!canUpscale(size, factor)) {
+        throw new Error(`Upscaling ${size.width}x${size.height} by ${factor}x exceeds ${upscaleOptions.maxOutputDimension}px`);
+    }
+
+    const tiles = planUpscaleTiles(size, factor);
+    console.log(`Upscaling ${size.width}x${size.height} by ${factor}x in ${tiles.length} tile(s)`);
+    const { canvas: output, ctx: outputCtx } = createCanvas(size.width * factor, size.height * factor);
+
+    for (const [index, tile] of tiles.entries()) {
+        options.signal?.throwIfAborted();
+        const { canvas: tileCanvas, ctx: tileCtx } = createCanvas(tile.width, tile.height);
+        tileCtx.drawImage(source, tile.x, tile.y, tile.width, tile.height, 0, 0, tile.width, tile.height);
+        const tileFile = tiles.length === 1 ? file : dataURLtoFile(tileCanvas.toDataURL('image/png'), `tile-${index + 1}.png`);
+
+        const upscaled = await loadImage(await upscaleTile(tileFile, factor, options.signal));
+
+        // Results come back at whatever size the backend chose, so bring each to its exact slot
+        const { canvas: resultCanvas, ctx: resultCtx } = createCanvas(tile.width * factor, tile.height * factor);
+        resultCtx.imageSmoothingQuality = 'high';
+        resultCtx.drawImage(upscaled, 0, 0, resultCanvas.width, resultCanvas.height);
+        // Earlier tiles lie to the left and above, so only those edges need to blend in
+        featherTileEdges(resultCtx, resultCanvas.width, resultCanvas.height, tile.x > 0, tile.y > 0, upscaleOptions.tileOverlap * factor);
+        outputCtx.drawImage(resultCanvas, tile.x * factor, tile.y * factor);
+
+        options.onProgress?.(index + 1, tiles.length);
+    }
+    return output.toDataURL('image/png');
+};
+
+// --- Local resampling ---
+
+const LANCZOS_LOBES = 3;
+
+const lanczos = (x: number): number => {
+    if (x === 0) return 1;
+    if (Math.abs(x) >= LANCZOS_LOBES) return 0;
+    const px = Math.PI * x;
+    return (LANCZOS_LOBES * Math.sin(px) * Math.sin(px / LANCZOS_LOBES)) / (px * px);
+};
+
+/**
+ * Resamples each row of a premultiplied RGBA buffer to `dstWidth` and writes
+ * the result transposed, so running it twice resizes both axes.
+ */
+const resampleRowsTransposed = (src: Float32Array, srcWidth: number, rows: number, dstWidth: number): Float32Array => {
+    const dst = new Float32Array(dstWidth * rows * 4);
+    const scale = srcWidth / dstWidth;
+    // When shrinking, the kernel is widened to average over every source pixel
+    const filterScale = Math.max(1, scale);
+    const support = LANCZOS_LOBES * filterScale;
+
+    for (let x = 0; x < dstWidth; x++) {
+        const center = (x + 0.5) * scale - 0.5;
+        const start = Math.max(0, Math.ceil(center - support));
+        const end = Math.min(srcWidth - 1, Math.floor(center + support));
+        const weights: number[] = [];
+        let total = 0;
+        for (let i = start; i <= end; i++) {
+            const weight = lanczos((i - center) / filterScale);
+            weights.push(weight);
+            total += weight;
+        }
+
+        for (let y = 0; y < rows; y++) {
+            let r = 0, g = 0, b = 0, a = 0;
+            for (let k = 0; k < weights.length; k++) {
+                const p = (y * srcWidth + start + k) * 4;
+                const weight = weights[k] / total;
+                r += src[p] * weight;
+                g += src[p + 1] * weight;
+                b += src[p + 2] * weight;
+                a += src[p + 3] * weight;
+            }
+            const q = (x * rows + y) * 4;
+            dst[q] = r;
+            dst[q + 1] = g;
+            dst[q + 2] = b;
+            dst[q + 3] = a;
+        }
+    }
+    return dst;
+};
+
+/**
+ * Resizes an image with a Lanczos-3 filter, which keeps edges noticeably
+ * sharper than the browser's own smoothing.
+ */
+export const resampleLanczos = (image: HTMLImageElement, width: number, height: number): HTMLCanvasElement => {
+    const srcWidth = image.naturalWidth;
+    const srcHeight = image.naturalHeight;
+    const { ctx: srcCtx } = createCanvas(srcWidth, srcHeight);
+    srcCtx.drawImage(image, 0, 0);
+    const { data } = srcCtx.getImageData(0, 0, srcWidth, srcHeight);
+
+    // Premultiplied alpha keeps transparent pixels from bleeding their colour into the edges
+    const premultiplied = new Float32Array(data.length);
+    for (let i = 0; i < data.length; i += 4) {
+        const alpha = data[i + 3] / 255;
+        premultiplied[i] = data[i] * alpha;
+        premultiplied[i + 1] = data[i + 1] * alpha;
+        premultiplied[i + 2] = data[i + 2] * alpha;
+        premultiplied[i + 3] = data[i + 3];
+    }
+
+    const horizontal = resampleRowsTransposed(premultiplied, srcWidth, srcHeight, width);
+    const resized = resampleRowsTransposed(horizontal, srcHeight, width, height);
+
+    const { canvas, ctx } = createCanvas(width, height);
+    const output = ctx.createImageData(width, height);
+    for (let i = 0; i < resized.length; i += 4) {
+        const alpha = Math.min(255, Math.max(0, resized[i + 3]));
+        const unpremultiply = alpha > 0 ? 255 / alpha : 0;
+        output.data[i] = resized[i] * unpremultiply;
+        output.data[i + 1] = resized[i + 1] * unpremultiply;
+        output.data[i + 2] = resized[i + 2] * unpremultiply;
+        output.data[i + 3] = alpha;
+    }
+    ctx.putImageData(output, 0, 0);
+    return canvas;
+};
@@ -0,0 +1,78 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+    assertWithinBudget,
+    clearUsageHistory,
+    getBudgetStatus,
+    getSessionUsage,
+    recordUsage,
+    reserveBudget,
+    setUsageBudgets,
+} from './usageTracker';
+
+// At the default pricing, a million output tokens cost $30
+const recordCall = (outputTokens: number) => recordUsage({
+    operation: 'edit',
+    model: 'test',
+    startedAt: Date.now(),
+    latencyMs: 100,
+    outcome: 'success',
+    promptTokens: 0,
+    outputTokens,
+    inputBytes: 0,
+    outputBytes: 0,
+});
+
+describe('session budgets', () => {
+    afterEach(() => {
+        clearUsageHistory();
+        setUsageBudgets({ softSessionUsd: null, hardSessionUsd: null, softDailyUsd: null, hardDailyUsd: null });
+    });
+
+    it('counts calls made since the page loaded', () => {
+        recordCall(100_000);
+        expect(getSessionUsage().estimatedCostUsd).toBeCloseTo(3);
+    });
+
+    it('warns once the session passes its soft budget', () => {
+        setUsageBudgets({ softSessionUsd: 2, hardSessionUsd: 10 });
+        recordCall(100_000);
+        expect(getBudgetStatus('session')).toBe('warning');
+        expect(getBudgetStatus('daily')).toBe('ok');
+        expect(getBudgetStatus()).toBe('warning');
+        expect(() => assertWithinBudget()).not.toThrow();
+    });
+
+    it('refuses new calls once the session reaches its hard budget', () => {
+        setUsageBudgets({ hardSessionUsd: 2, hardDailyUsd: 100 });
+        recordCall(100_000);
+        expect(getBudgetStatus()).toBe('exceeded');
+        expect(() => assertWithinBudget()).toThrow(/session budget/);
+    });
+
+    it('still enforces the daily budget', () => {
+        setUsageBudgets({ hardSessionUsd: 100, hardDailyUsd: 2 });
+        recordCall(100_000);
+        expect(() => assertWithinBudget()).toThrow(/daily budget/);
+    });
+
+    it('keeps parallel calls from overrunning the hard budget together', async () => {
+        setUsageBudgets({ hardSessionUsd: 0.1 });
+        // Each call sets aside $0.04 while it runs and ends up costing $0.03
+        const call = async () => {
+            const release = reserveBudget(0.04);
+            await Promise.resolve();
+            recordCall(1_000);
+            release();
+        };
+        const results = await Promise.allSettled(Array.from({ length: 5 }, call));
+        expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(2);
+        expect(getSessionUsage().estimatedCostUsd).toBeLessThanOrEqual(0.1);
+        // Finished calls hand their reservation back
+        expect(() => reserveBudget(0.02)()).not.toThrow();
+    });
+});
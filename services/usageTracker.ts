@@ -0,0 +1,250 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { GenerateContentResponseUsageMetadata } from '@google/genai';
+import { GenerationError, type GenerationErrorKind } from './generationError';
+
+// Records every model call with its latency, token usage, payload sizes and
+// outcome, and enforces optional spending budgets for the session and the
+// day. Records are kept in localStorage so per-day totals survive reloads.
+
+export type UsageOutcome = 'success' | 'cached' | GenerationErrorKind;
+
+export interface UsageRecord {
+    id: string;
+    // The operation that made the call, e.g. "filter"
+    operation: string;
+    model: string;
+    startedAt: number;
+    latencyMs: number;
+    outcome: UsageOutcome;
+    promptTokens: number;
+    outputTokens: number;
+    inputBytes: number;
+    outputBytes: number;
+}
+
+export interface UsagePricing {
+    // USD per million tokens
+    inputPerMillionTokens: number;
+    outputPerMillionTokens: number;
+    // USD set aside for an image call while it runs, about one image's worth of output tokens
+    estimatedImageCallUsd: number;
+}
+
+let pricing: UsagePricing = {
+    inputPerMillionTokens: 0.3,
+    outputPerMillionTokens: 30,
+    estimatedImageCallUsd: 0.04,
+};
+
+export const getUsagePricing = (): UsagePricing => pricing;
+
+export const configureUsagePricing = (options: Partial<UsagePricing>) => {
+    pricing = { ...pricing, ...options };
+};
+
+export interface UsageBudgets {
+    // Estimated spend this session, in USD, that triggers a warning
+    softSessionUsd: number | null;
+    // Estimated spend this session, in USD, after which AI calls are refused
+    hardSessionUsd: number | null;
+    // Daily estimated spend, in USD, that triggers a warning
+    softDailyUsd: number | null;
+    // Daily estimated spend, in USD, after which AI calls are refused
+    hardDailyUsd: number | null;
+}
+
+export interface UsageTotals {
+    calls: number;
+    cached: number;
+    failed: number;
+    promptTokens: number;
+    outputTokens: number;
+    estimatedCostUsd: number;
+    averageLatencyMs: number;
+    byOperation: Record<string, { calls: number; estimatedCostUsd: number }>;
+}
+
+export type BudgetStatus = 'ok' | 'warning' | 'exceeded';
+
+// A session lasts until the page is reloaded
+export type BudgetScope = 'session' | 'daily';
+
+export interface BudgetUsage {
+    spentUsd: number;
+    softUsd: number | null;
+    hardUsd: number | null;
+}
+
+const RECORDS_KEY = 'usageRecords';
+const BUDGETS_KEY = 'usageBudgets';
+const RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+const sessionStartedAt = Date.now();
+
+const loadJson = <T>(key: string, fallback: T): T => {
+    try {
+        const saved = localStorage.getItem(key);
+        return saved ? JSON.parse(saved) as T : fallback;
+    } catch (err) {
+        console.warn(`Could not read ${key}`, err);
+        return fallback;
+    }
+};
+
+let records: UsageRecord[] = loadJson<UsageRecord[]>(RECORDS_KEY, []);
+// Budgets saved before session limits existed lack them, so the defaults fill the gaps
+let budgets: UsageBudgets = {
+    softSessionUsd: null,
+    hardSessionUsd: null,
+    softDailyUsd: null,
+    hardDailyUsd: null,
+    ...loadJson<Partial<UsageBudgets>>(BUDGETS_KEY, {}),
+};
+
+// Estimated cost of calls that have started but are not recorded yet
+let reservedUsd = 0;
+
+const listeners = new Set<() => void>();
+
+/**
+ * Calls `listener` whenever a record is added or the budgets change.
+ * @returns A function that unsubscribes the listener.
+ */
+export const subscribeToUsage = (listener: () => void): (() => void) => {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
+
+const notify = () => listeners.forEach(listener => listener());
+
+const saveRecords = () => {
+    try {
+        localStorage.setItem(RECORDS_KEY, JSON.stringify(records));
+    } catch (err) {
+        console.warn('Could not save usage records', err);
+    }
+};
+
+export const estimateCost = (record: Pick<UsageRecord, 'promptTokens' | 'outputTokens'>): number =>
+    (record.promptTokens * pricing.inputPerMillionTokens + record.outputTokens * pricing.outputPerMillionTokens) / 1_000_000;
+
+export const tokensFromUsageMetadata = (usage: GenerateContentResponseUsageMetadata | undefined) => ({
+    promptTokens: usage?.promptTokenCount ?? 0,
+    outputTokens: usage?.candidatesTokenCount ?? 0,
+});
+
+export const recordUsage = (record: Omit<UsageRecord, 'id'>) => {
+    const cutoff = Date.now() - RETENTION_MS;
+    records = [...records.filter(r => r.startedAt >= cutoff), { ...record, id: `${record.startedAt}-${Math.random().toString(36).slice(2, 8)}` }];
+    saveRecords();
+    notify();
+};
+
+export const clearUsageHistory = () => {
+    records = [];
+    saveRecords();
+    notify();
+};
+
+export const summarizeUsage = (selected: UsageRecord[]): UsageTotals => {
+    const totals: UsageTotals = {
+        calls: 0, cached: 0, failed: 0, promptTokens: 0, outputTokens: 0, estimatedCostUsd: 0, averageLatencyMs: 0, byOperation: {},
+    };
+    let latencyTotal = 0;
+    for (const record of selected) {
+        const cost = estimateCost(record);
+        totals.calls++;
+        if (record.outcome === 'cached') totals.cached++;
+        else if (record.outcome !== 'success') totals.failed++;
+        totals.promptTokens += record.promptTokens;
+        totals.outputTokens += record.outputTokens;
+        totals.estimatedCostUsd += cost;
+        latencyTotal += record.latencyMs;
+        const operation = totals.byOperation[record.operation] ?? { calls: 0, estimatedCostUsd: 0 };
+        totals.byOperation[record.operation] = { calls: operation.calls + 1, estimatedCostUsd: operation.estimatedCostUsd + cost };
+    }
+    totals.averageLatencyMs = selected.length > 0 ? latencyTotal / selected.length : 0;
+    return totals;
+};
+
+const startOfToday = () => {
+    const now = new Date();
+    return new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+};
+
+export const getSessionUsage = (): UsageTotals => summarizeUsage(records.filter(r => r.startedAt >= sessionStartedAt));
+
+export const getTodayUsage = (): UsageTotals => summarizeUsage(records.filter(r => r.startedAt >= startOfToday()));
+
+export const getUsageBudgets = (): UsageBudgets => budgets;
+
+export const setUsageBudgets = (next: Partial<UsageBudgets>) => {
+    budgets = { ...budgets, ...next };
+    try {
+        localStorage.setItem(BUDGETS_KEY, JSON.stringify(budgets));
+    } catch (err) {
+        console.warn('Could not save usage budgets', err);
+    }
+    notify();
+};
+
+const budgetScopes: BudgetScope[] = ['session', 'daily'];
+
+export const getBudgetUsage = (scope: BudgetScope): BudgetUsage => scope === 'session'
+    ? { spentUsd: getSessionUsage().estimatedCostUsd, softUsd: budgets.softSessionUsd, hardUsd: budgets.hardSessionUsd }
+    : { spentUsd: getTodayUsage().estimatedCostUsd, softUsd: budgets.softDailyUsd, hardUsd: budgets.hardDailyUsd };
+
+/**
+ * How the estimated spend compares with the budgets.
+ * @param scope One budget to check; without it, the worst status over all of them.
+ */
+export const getBudgetStatus = (scope?: BudgetScope): BudgetStatus => {
+    const statuses = (scope ? [scope] : budgetScopes).map((s): BudgetStatus => {
+        const { spentUsd, softUsd, hardUsd } = getBudgetUsage(s);
+        if (hardUsd !== null && spentUsd >= hardUsd) return 'exceeded';
+        if (softUsd !== null && spentUsd >= softUsd) return 'warning';
+        return 'ok';
+    });
+    return statuses.includes('exceeded') ? 'exceeded' : statuses.includes('warning') ? 'warning' : 'ok';
+};
+
+// Throws when `extraUsd` on top of the recorded spend and the calls still in flight reaches a hard budget
+const throwIfOverBudget = (extraUsd: number) => {
+    const scope = budgetScopes.find(s => {
+        const { spentUsd, hardUsd } = getBudgetUsage(s);
+        return hardUsd !== null && spentUsd + reservedUsd + extraUsd >= hardUsd;
+    });
+    if (!scope) return;
+    const { spentUsd, hardUsd } = getBudgetUsage(scope);
+    throw new GenerationError('budget-exceeded', `Spent $${spentUsd.toFixed(2)} of the $${hardUsd?.toFixed(2)} ${scope} budget`);
+};
+
+/**
+ * Refuses a new model call once the session's or today's estimated spend,
+ * counting calls still in flight, has reached its hard budget.
+ */
+export const assertWithinBudget = () => throwIfOverBudget(0);
+
+/**
+ * Sets aside the estimated cost of a model call before it starts, so calls
+ * made in parallel can't overrun a hard budget together, each having checked
+ * it before the others were recorded. Throws like `assertWithinBudget` when
+ * the reservation would reach a hard budget.
+ * @returns A function that releases the reservation; call it once the call is recorded.
+ */
+export const reserveBudget = (estimatedUsd: number): (() => void) => {
+    throwIfOverBudget(estimatedUsd);
+    reservedUsd += estimatedUsd;
+    let isReleased = false;
+    return () => {
+        if (isReleased) return;
+        isReleased = true;
+        reservedUsd -= estimatedUsd;
+    };
+};
@@ -0,0 +1,15 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { defineConfig } from 'vitest/config';
+
+// Kept apart from vite.config.ts so the app's `process.env` defines don't
+// get baked into the tests, which set the environment themselves.
+export default defineConfig({
+  test: {
+    environment: 'node',
+    setupFiles: ['./vitest.setup.ts'],
+  },
+});
@@ -0,0 +1,47 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { resolveObjectURL } from 'node:buffer';
+import { createCanvas, Image } from '@napi-rs/canvas';
+
+// The services draw on DOM canvases and load images through object URLs.
+// Tests run in Node, so both come from @napi-rs/canvas instead, with blob
+// URLs read back from Node's own object URL registry. localStorage is kept
+// in memory.
+
+const setImageSource = Object.getOwnPropertyDescriptor(Image.prototype, 'src')!.set!;
+
+function TestImage() {
+    const image = new Image();
+    Object.defineProperty(image, 'src', {
+        set(url: string) {
+            const blob = url.startsWith('blob:') ? resolveObjectURL(url) : undefined;
+            if (!blob) {
+                setImageSource.call(image, url);
+                return;
+            }
+            blob.arrayBuffer().then(data => setImageSource.call(image, Buffer.from(data)));
+        },
+    });
+    return image;
+}
+
+const storage = new Map<string, string>();
+
+Object.assign(globalThis, {
+    Image: TestImage,
+    localStorage: {
+        getItem: (key: string) => storage.get(key) ?? null,
+        setItem: (key: string, value: string) => storage.set(key, String(value)),
+        removeItem: (key: string) => storage.delete(key),
+        clear: () => storage.clear(),
+    },
+    document: {
+        createElement: (tagName: string) => {
+            if (tagName !== 'canvas') throw new Error(`Tests can't create <${tagName}> elements`);
+            return createCanvas(1, 1);
+        },
+    },
+});